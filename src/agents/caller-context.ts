@@ -0,0 +1,36 @@
+import type { AgentContext } from "./types"
+import { describeFunction, getCallerSnippets } from "../codebase/call-graph"
+import type { PromptSection } from "../models/prompt-builder"
+
+// Callers included in a prompt; more rarely fit next to the file being changed
+const MAX_CALLERS = 8
+
+/**
+ * Build prompt sections with the code calling a function an agent is about to change, so that
+ * the model keeps its callers working. They are the first sections dropped when space runs out.
+ * @param context The context for the task; callers are only found when it holds the whole analysis
+ * @param symbol The name of the function or method, optionally qualified with its class
+ * @param filePath The file declaring it
+ * @returns The sections, one per call; none if the codebase was not analyzed or nothing calls the function
+ */
+export function buildCallerSections(context: AgentContext, symbol: string, filePath: string): PromptSection[] {
+  const { codebase } = context
+  if (!codebase.symbols || !codebase.bindings || !codebase.reexports) {
+    return []
+  }
+
+  const snippets = getCallerSnippets(
+    { ...codebase, symbols: codebase.symbols, bindings: codebase.bindings, reexports: codebase.reexports },
+    symbol,
+    filePath,
+    MAX_CALLERS,
+  )
+
+  return snippets.map((snippet) => ({
+    name: `caller:${snippet.file}:${snippet.startLine}`,
+    content: snippet.content,
+    prefix: `${symbol} is called from ${describeFunction(snippet.caller)}, lines ${snippet.startLine}-${snippet.endLine}:\n\`\`\`\n`,
+    suffix: `\n\`\`\`\n\n`,
+    priority: 50,
+  }))
+}
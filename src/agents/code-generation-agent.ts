@@ -1,6 +1,9 @@
 import type { Agent, AgentTask, AgentContext, AgentResult } from "./types"
-import { generateResponse } from "../models/model-manager"
+import { generateResponse, getRoutedModel } from "../models/model-manager"
+import { buildPrompt } from "../models/prompt-builder"
+import type { BuiltPrompt, PromptSection } from "../models/prompt-builder"
 import { validateCode } from "../utils/code-validator"
+import { retrieveChunks } from "../retrieval/vector-index"
 
 /**
  * Agent responsible for generating code based on user prompts
@@ -14,6 +17,7 @@ export class CodeGenerationAgent implements Agent {
     "Implement features based on specifications",
     "Complete partial code",
   ]
+  private systemPrompt = "You are an expert software developer who writes clean, idiomatic code."
 
   /**
    * Execute a code generation task
@@ -27,16 +31,24 @@ export class CodeGenerationAgent implements Agent {
       const { description, input } = task
       const { codebase } = context
 
-      // Prepare the prompt for the model
-      const prompt = this.buildPrompt(description, input, context)
-
-      // Generate code using the appropriate model
-      const response = await generateResponse(prompt, {
-        requireCodeGeneration: true,
+      const generateOptions = {
+        taskType: task.type,
+        systemPrompt: this.systemPrompt,
+        agent: this.name,
+        signal: context.signal,
         temperature: 0.2, // Lower temperature for more deterministic code generation
         maxTokens: 2048, // Allow for longer code generation
+      }
+
+      // Prepare the prompt for the model
+      const { prompt, dropped, trimmed } = await this.buildPrompt(description, input, context, {
+        ...generateOptions,
+        model: getRoutedModel(generateOptions),
       })
 
+      // Generate code using the appropriate model
+      const response = await generateResponse(prompt, generateOptions)
+
       // Extract the code from the response
       const generatedCode = this.extractCodeFromResponse(response.text)
 
@@ -57,6 +69,8 @@ export class CodeGenerationAgent implements Agent {
         metadata: {
           model: response.metadata?.model,
           provider: response.metadata?.provider,
+          droppedContext: dropped,
+          trimmedContext: trimmed,
         },
       }
     } catch (error) {
@@ -69,54 +83,81 @@ export class CodeGenerationAgent implements Agent {
   }
 
   /**
-   * Build a prompt for code generation
+   * Build a prompt for code generation. Context files that don't fit the model's
+   * context window are outlined or left out, the least relevant first.
    * @param description The description of the task
    * @param input The input for the task
    * @param context The context for the task
+   * @param options The target model, the tokens reserved for the answer and the system prompt
    * @returns The prompt for the model
    */
-  private buildPrompt(description: string, input: any, context: AgentContext): string {
+  private async buildPrompt(
+    description: string,
+    input: any,
+    context: AgentContext,
+    options: { model?: string; maxTokens?: number; systemPrompt?: string },
+  ): Promise<BuiltPrompt> {
     // Get relevant context from the codebase
-    const relevantFiles = this.getRelevantFiles(input, context)
+    const relevantFiles = await this.getRelevantFiles(description, input, context)
 
     // Build the prompt
-    let prompt = `You are an expert software developer. Generate code based on the following description:\n\n`
-    prompt += `${description}\n\n`
+    let task = `Generate code based on the following description:\n\n`
+    task += `${description}\n\n`
 
     // Add input details
     if (typeof input === "string") {
-      prompt += `Requirements: ${input}\n\n`
+      task += `Requirements: ${input}\n\n`
     } else if (input.requirements) {
-      prompt += `Requirements: ${input.requirements}\n\n`
+      task += `Requirements: ${input.requirements}\n\n`
     }
 
     // Add language/framework information if available
     if (input.language) {
-      prompt += `Language: ${input.language}\n`
+      task += `Language: ${input.language}\n`
     }
     if (input.framework) {
-      prompt += `Framework: ${input.framework}\n`
+      task += `Framework: ${input.framework}\n`
     }
 
-    // Add relevant files for context
+    const sections: PromptSection[] = [{ name: "task", content: task, priority: 100, required: true }]
+
+    // Add relevant files for context, in order of relevance
     if (relevantFiles.length > 0) {
-      prompt += `\nHere are some relevant files from the codebase for context:\n\n`
+      sections.push({
+        name: "context-intro",
+        content: `\nHere is some relevant code from the codebase for context:\n\n`,
+        priority: 100,
+        required: true,
+      })
 
-      for (const file of relevantFiles) {
-        prompt += `File: ${file.path}\n\`\`\`\n${file.content}\n\`\`\`\n\n`
-      }
+      relevantFiles.forEach((file, index) => {
+        sections.push({
+          name: file.lines ? `chunk:${file.path}:${file.lines}` : `file:${file.path}`,
+          content: file.content,
+          prefix: `File: ${file.path}${file.lines ? ` (lines ${file.lines})` : ""}\n\`\`\`\n`,
+          suffix: `\n\`\`\`\n\n`,
+          priority: 50 - index,
+          // Retrieved chunks are short already, and their beginning is what matched
+          shrink: file.lines ? "truncate" : "outline",
+        })
+      })
     }
 
     // Add specific instructions
-    prompt += `\nPlease generate the code according to the requirements. Ensure the code is:
+    sections.push({
+      name: "instructions",
+      content: `\nPlease generate the code according to the requirements. Ensure the code is:
 1. Well-structured and follows best practices
 2. Properly commented
 3. Handles edge cases appropriately
 4. Compatible with the existing codebase
 
-Return ONLY the code without explanations. The code should be ready to use without modifications.`
+Return ONLY the code without explanations. The code should be ready to use without modifications.`,
+      priority: 100,
+      required: true,
+    })
 
-    return prompt
+    return buildPrompt(sections, options)
   }
 
   /**
@@ -139,13 +180,19 @@ Return ONLY the code without explanations. The code should be ready to use witho
   }
 
   /**
-   * Get relevant files from the codebase for context
+   * Get relevant code from the codebase for context: the files named in the input,
+   * then the chunks of other files most similar to the task
+   * @param description The description of the task
    * @param input The input for the task
    * @param context The context for the task
-   * @returns An array of relevant files
+   * @returns The relevant files and chunks, most relevant first
    */
-  private getRelevantFiles(input: any, context: AgentContext): Array<{ path: string; content: string }> {
-    const relevantFiles = []
+  private async getRelevantFiles(
+    description: string,
+    input: any,
+    context: AgentContext,
+  ): Promise<Array<{ path: string; content: string; lines?: string }>> {
+    const relevantFiles: Array<{ path: string; content: string; lines?: string }> = []
 
     // If a specific file is mentioned in the input, include it
     if (input.file && context.codebase.files[input.file]) {
@@ -167,19 +214,24 @@ Return ONLY the code without explanations. The code should be ready to use witho
       }
     }
 
-    // If no specific files are mentioned, try to find relevant ones
-    // This is a simplified approach; a real implementation would use more sophisticated techniques
-    if (relevantFiles.length === 0 && input.keywords) {
-      const keywords = Array.isArray(input.keywords) ? input.keywords : [input.keywords]
+    // Find the parts of other files that are most similar to the task
+    const query = [description, typeof input === "string" ? input : input.requirements, input.keywords]
+      .flat()
+      .filter(Boolean)
+      .join("\n")
 
-      for (const [path, content] of Object.entries(context.codebase.files)) {
-        if (keywords.some((keyword) => content.includes(keyword) || path.includes(keyword))) {
-          relevantFiles.push({ path, content })
+    try {
+      const chunks = await retrieveChunks(context.codebase, query, {
+        exclude: relevantFiles.map((file) => file.path),
+        signal: context.signal,
+      })
 
-          // Limit the number of files to avoid overwhelming the model
-          if (relevantFiles.length >= 3) break
-        }
+      for (const chunk of chunks) {
+        relevantFiles.push({ path: chunk.path, content: chunk.content, lines: `${chunk.startLine}-${chunk.endLine}` })
       }
+    } catch (error) {
+      if (context.signal?.aborted) throw error
+      console.warn("Failed to retrieve relevant code:", error)
     }
 
     return relevantFiles
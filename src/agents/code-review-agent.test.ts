@@ -0,0 +1,95 @@
+import fs from "fs/promises"
+import http from "http"
+import os from "os"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { initializeConfig } from "../config/config-manager"
+import { setupModelProviders } from "../models/model-manager"
+import { setCacheEnabled } from "../models/response-cache"
+import { executeTask, setupAgents } from "./agent-manager"
+import type { AgentContext, AgentTask } from "./types"
+
+const REVIEW = {
+  findings: [
+    {
+      category: "Potential bugs or errors",
+      severity: "warning",
+      line: 2,
+      message: "The result of divide is not checked for division by zero",
+      suggestion: "Check that b is not 0",
+    },
+  ],
+  summary: "Small and readable",
+}
+
+const task: AgentTask = {
+  id: "review",
+  type: "code-review",
+  description: "Review math.ts",
+  input: { file: "src/math.ts" },
+}
+
+const context: AgentContext = {
+  codebase: {
+    rootDir: "/project",
+    files: { "src/math.ts": "export function divide(a: number, b: number) {\n  return a / b\n}\n" },
+  },
+}
+
+describe("CodeReviewAgent with recorded responses", () => {
+  let dataDir: string
+  let server: http.Server
+  let requests = 0
+
+  beforeAll(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "codeforge-agent-"))
+
+    // A local OpenAI-compatible server stands in for the model when recording
+    server = http.createServer((request, response) => {
+      requests++
+      request.resume()
+      request.on("end", () => {
+        response.setHeader("Content-Type", "application/json")
+        response.end(JSON.stringify({ choices: [{ message: { role: "assistant", content: JSON.stringify(REVIEW) } }] }))
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    const { port } = server.address() as { port: number }
+
+    vi.stubEnv("HUGGINGFACE_API_KEY", "")
+    vi.stubEnv("GROQ_API_KEY", "")
+    vi.stubEnv("CODEFORGE_LOCAL_BASE_URL", `http://127.0.0.1:${port}/v1`)
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+
+    await initializeConfig(path.join(dataDir, "config.json"))
+    setCacheEnabled(false)
+    await setupAgents()
+  })
+
+  afterAll(async () => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    if (server.listening) server.close()
+    await fs.rm(dataDir, { recursive: true, force: true })
+  })
+
+  it("gives the same review from a replayed recording, without calling the model", async () => {
+    const fixturePath = path.join(dataDir, "review.jsonl")
+
+    await setupModelProviders({ record: fixturePath })
+    const recorded = await executeTask(task, context)
+    expect(recorded.success).toBe(true)
+    expect(requests).toBe(1)
+
+    await new Promise((resolve) => server.close(resolve))
+
+    await setupModelProviders({ replay: fixturePath })
+    const replayed = await executeTask(task, context)
+
+    expect(replayed.success).toBe(true)
+    expect(replayed.output).toBe(recorded.output)
+    expect(replayed.metadata.findings).toEqual([{ ...REVIEW.findings[0], file: "src/math.ts" }])
+    expect(requests).toBe(1)
+  })
+})
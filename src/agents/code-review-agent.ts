@@ -1,5 +1,29 @@
+import { z } from "zod"
 import type { Agent, AgentTask, AgentContext, AgentResult } from "./types"
-import { generateResponse } from "../models/model-manager"
+import { generateResponse, getRoutedModel, streamResponse } from "../models/model-manager"
+import { buildPrompt } from "../models/prompt-builder"
+import type { BuiltPrompt } from "../models/prompt-builder"
+import { buildSchemaInstructions } from "../models/structured-output"
+import { estimateTokens } from "../models/tokenizer"
+
+// The structured review of a single file
+const fileReviewSchema = z.object({
+  findings: z.array(
+    z.object({
+      category: z.string().describe("One of the review aspects, e.g. Security vulnerabilities"),
+      severity: z.enum(["info", "warning", "error"]),
+      line: z.number().int().optional().describe("The line number where the issue occurs"),
+      message: z.string().describe("A description of the issue"),
+      suggestion: z.string().optional().describe("A suggested fix or improvement"),
+    }),
+  ),
+  summary: z.string().describe("A short overall assessment of the file"),
+})
+
+/**
+ * Interface for an issue found in a review
+ */
+export type ReviewFinding = z.infer<typeof fileReviewSchema>["findings"][number] & { file: string }
 
 /**
  * Agent responsible for reviewing code
@@ -14,6 +38,7 @@ export class CodeReviewAgent implements Agent {
     "Suggest improvements",
     "Analyze code quality",
   ]
+  private systemPrompt = "You are an expert code reviewer who gives precise, actionable feedback."
 
   /**
    * Execute a code review task
@@ -38,20 +63,48 @@ export class CodeReviewAgent implements Agent {
         }
       }
 
+      // Reviews are structured unless they are streamed to the user
+      const structured: boolean = task.options?.structured ?? !context.onToken
+
       // Review each file
       const reviewResults = []
+      const findings: ReviewFinding[] = []
+      const trimmedContext: string[] = []
 
       for (const file of filesToReview) {
-        const prompt = this.buildReviewPrompt(file.path, file.content, input.criteria)
-
-        const response = await generateResponse(prompt, {
+        const generateOptions = {
+          systemPrompt: this.systemPrompt,
+          agent: this.name,
+          taskType: task.type,
+          signal: context.signal,
           temperature: 0.3,
           maxTokens: 1024,
+        }
+
+        const { prompt, trimmed } = this.buildReviewPrompt(file.path, file.content, input.criteria, structured, {
+          ...generateOptions,
+          model: getRoutedModel(generateOptions),
         })
+        trimmedContext.push(...trimmed)
+
+        let review: string
+        if (structured) {
+          const response = await generateResponse(prompt, { ...generateOptions, schema: fileReviewSchema })
+          findings.push(...response.data.findings.map((finding) => ({ ...finding, file: file.path })))
+          review = this.formatFileReview(response.data)
+          context.onToken?.(`## File: ${file.path}\n\n${review}\n\n`)
+        } else if (context.onToken) {
+          // Stream each file's review under the same heading as the compiled report
+          context.onToken(`## File: ${file.path}\n\n`)
+          review = (await streamResponse(prompt, context.onToken, generateOptions)).text
+          context.onToken("\n\n")
+        } else {
+          review = (await generateResponse(prompt, generateOptions)).text
+        }
 
         reviewResults.push({
           file: file.path,
-          review: response.text,
+          review,
         })
       }
 
@@ -63,6 +116,8 @@ export class CodeReviewAgent implements Agent {
         output: compiledReview,
         metadata: {
           filesReviewed: filesToReview.map((file) => file.path),
+          ...(structured && { findings }),
+          trimmedContext,
         },
       }
     } catch (error) {
@@ -75,17 +130,23 @@ export class CodeReviewAgent implements Agent {
   }
 
   /**
-   * Build a prompt for code review
+   * Build a prompt for code review. Files too large for the model's context
+   * window are truncated.
    * @param filePath The path of the file to review
    * @param fileContent The content of the file
    * @param criteria The review criteria
+   * @param structured Whether the findings are requested as JSON
+   * @param options The target model, the tokens reserved for the answer and the system prompt
    * @returns The prompt for the model
    */
-  private buildReviewPrompt(filePath: string, fileContent: string, criteria?: string[]): string {
-    let prompt = `You are an expert code reviewer. Please review the following code file:\n\n`
-    prompt += `File: ${filePath}\n\`\`\`\n${fileContent}\n\`\`\`\n\n`
-
-    prompt += `Please analyze the code for the following aspects:\n`
+  private buildReviewPrompt(
+    filePath: string,
+    fileContent: string,
+    criteria: string[] | undefined,
+    structured: boolean,
+    options: { model?: string; maxTokens?: number; systemPrompt?: string },
+  ): BuiltPrompt {
+    let instructions = `Please analyze the code for the following aspects:\n`
 
     // Add specific criteria if provided, otherwise use default criteria
     const reviewCriteria = criteria || [
@@ -98,17 +159,42 @@ export class CodeReviewAgent implements Agent {
     ]
 
     for (const criterion of reviewCriteria) {
-      prompt += `- ${criterion}\n`
+      instructions += `- ${criterion}\n`
     }
 
-    prompt += `\nFor each issue found, please provide:
+    if (structured) {
+      instructions += `\nReport each issue found as a finding with its category, severity, line number, description and suggested fix.`
+
+      // The schema is appended to the prompt when it is sent, so leave room for it
+      options = {
+        ...options,
+        maxTokens: (options.maxTokens || 1024) + estimateTokens(buildSchemaInstructions(fileReviewSchema)),
+      }
+    } else {
+      instructions += `\nFor each issue found, please provide:
 1. The line number or code snippet where the issue occurs
 2. A description of the issue
 3. A suggested fix or improvement
 
 Format your response as a list of issues, grouped by category. If no issues are found in a category, state "No issues found".`
+    }
 
-    return prompt
+    return buildPrompt(
+      [
+        { name: "intro", content: `Please review the following code file:\n\n`, priority: 100, required: true },
+        {
+          name: `file:${filePath}`,
+          content: fileContent,
+          prefix: `File: ${filePath}\n\`\`\`\n`,
+          suffix: `\n\`\`\`\n\n`,
+          priority: 90,
+          shrink: "truncate",
+          required: true,
+        },
+        { name: "instructions", content: instructions, priority: 100, required: true },
+      ],
+      options,
+    )
   }
 
   /**
@@ -193,6 +279,29 @@ Format your response as a list of issues, grouped by category. If no issues are
     return codeExtensions.includes(extension)
   }
 
+  /**
+   * Format the structured review of a file for the report
+   * @param review The structured review
+   * @returns The review as Markdown
+   */
+  private formatFileReview(review: z.infer<typeof fileReviewSchema>): string {
+    let text = `${review.summary}\n\n`
+
+    if (review.findings.length === 0) {
+      return `${text}No issues found.`
+    }
+
+    for (const finding of review.findings) {
+      const location = finding.line !== undefined ? ` (line ${finding.line})` : ""
+      text += `- **${finding.severity}** ${finding.category}${location}: ${finding.message}\n`
+      if (finding.suggestion) {
+        text += `  Suggestion: ${finding.suggestion}\n`
+      }
+    }
+
+    return text.trimEnd()
+  }
+
   /**
    * Compile review results into a single report
    * @param reviewResults The review results for each file
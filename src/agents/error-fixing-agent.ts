@@ -1,6 +1,11 @@
 import type { Agent, AgentTask, AgentContext, AgentResult } from "./types"
-import { generateResponse } from "../models/model-manager"
+import { chatWithTools, generateResponse, getRoutedModel } from "../models/model-manager"
+import { buildPrompt, fitsContextWindow } from "../models/prompt-builder"
+import type { BuiltPrompt, PromptSection } from "../models/prompt-builder"
+import type { ModelResponse } from "../models/types"
 import { validateCode } from "../utils/code-validator"
+import { createCodebaseTools } from "./tools"
+import { buildCallerSections } from "./caller-context"
 
 /**
  * Agent responsible for fixing errors in code
@@ -15,6 +20,7 @@ export class ErrorFixingAgent implements Agent {
     "Correct type errors",
     "Resolve dependency issues",
   ]
+  private systemPrompt = "You are an expert software developer who diagnoses bugs and fixes them with minimal changes."
 
   /**
    * Execute an error fixing task
@@ -40,17 +46,50 @@ export class ErrorFixingAgent implements Agent {
 
       const fileContent = codebase.files[filePath]
 
-      // Build the prompt for error fixing
-      const prompt = this.buildErrorFixingPrompt(filePath, fileContent, input.error)
+      let response: ModelResponse
+      let fixedCode: string
+      let trimmedContext: string[] = []
 
-      // Generate the fixed code
-      const response = await generateResponse(prompt, {
-        temperature: 0.2,
-        maxTokens: 2048,
-      })
+      if (task.options?.useTools) {
+        // Let the model explore the codebase and submit the fix through tools
+        ;({ response, fixedCode } = await this.fixWithTools(filePath, input.error, context))
+      } else {
+        const generateOptions = {
+          systemPrompt: this.systemPrompt,
+          agent: this.name,
+          taskType: task.type,
+          language: this.getLanguageFromFilePath(filePath),
+          signal: context.signal,
+          temperature: 0.2,
+          maxTokens: 2048,
+        }
+
+        // Build the prompt for error fixing
+        const builtPrompt = this.buildErrorFixingPrompt(
+          filePath,
+          fileContent,
+          input.error,
+          input.symbol,
+          input.symbol ? buildCallerSections(context, input.symbol, filePath) : [],
+          { ...generateOptions, model: getRoutedModel(generateOptions) },
+        )
+        trimmedContext = builtPrompt.trimmed
 
-      // Extract the fixed code from the response
-      const fixedCode = this.extractCodeFromResponse(response.text)
+        // The whole file has to be sent back, so it can't be shortened to fit
+        if (!fitsContextWindow(builtPrompt, generateOptions.maxTokens)) {
+          return {
+            success: false,
+            output: null,
+            error: `${filePath} is too large for the model's context window of ${builtPrompt.contextWindow} tokens. Retry with the useTools option so the model can read the file in parts.`,
+          }
+        }
+
+        // Generate the fixed code
+        response = await generateResponse(builtPrompt.prompt, generateOptions)
+
+        // Extract the fixed code from the response
+        fixedCode = this.extractCodeFromResponse(response.text)
+      }
 
       // Validate the fixed code
       const validationResult = await validateCode(fixedCode, this.getLanguageFromFilePath(filePath))
@@ -74,6 +113,7 @@ export class ErrorFixingAgent implements Agent {
         metadata: {
           model: response.metadata?.model,
           provider: response.metadata?.provider,
+          trimmedContext,
         },
       }
     } catch (error) {
@@ -86,25 +126,112 @@ export class ErrorFixingAgent implements Agent {
   }
 
   /**
-   * Build a prompt for error fixing
+   * Build a prompt for error fixing. Long error details are truncated and callers are
+   * dropped to fit the model's context window; the file itself is always sent whole.
    * @param filePath The path of the file with the error
    * @param fileContent The content of the file
    * @param errorDetails The details of the error
+   * @param symbol The function or method with the error
+   * @param callerSections The code calling the symbol
+   * @param options The target model, the tokens reserved for the answer and the system prompt
    * @returns The prompt for the model
    */
-  private buildErrorFixingPrompt(filePath: string, fileContent: string, errorDetails?: string): string {
-    let prompt = `You are an expert software developer. Fix the error in the following code:\n\n`
-    prompt += `File: ${filePath}\n\`\`\`\n${fileContent}\n\`\`\`\n\n`
+  private buildErrorFixingPrompt(
+    filePath: string,
+    fileContent: string,
+    errorDetails: string | undefined,
+    symbol: string | undefined,
+    callerSections: PromptSection[],
+    options: { model?: string; maxTokens?: number; systemPrompt?: string },
+  ): BuiltPrompt {
+    const sections: PromptSection[] = [
+      { name: "intro", content: `Fix the error in the following code:\n\n`, priority: 100, required: true },
+      {
+        name: `file:${filePath}`,
+        content: fileContent,
+        prefix: `File: ${filePath}\n\`\`\`\n`,
+        suffix: `\n\`\`\`\n\n`,
+        priority: 90,
+        required: true,
+      },
+      ...callerSections,
+      {
+        name: "symbol",
+        content: symbol
+          ? `The error is in ${symbol}.${callerSections.length > 0 ? " Code calling it is shown above; the fix must keep it working." : ""}`
+          : "",
+        suffix: "\n\n",
+        priority: 85,
+        required: true,
+      },
+      {
+        name: "error",
+        content: errorDetails || "",
+        prefix: "Error details: ",
+        suffix: "\n\n",
+        priority: 80,
+        shrink: "truncate",
+      },
+      {
+        name: "instructions",
+        content: `Please fix the code to resolve the error. Provide the complete fixed code, not just the changes.
+Make minimal changes to fix the error while preserving the original functionality.
+Return ONLY the fixed code without explanations.`,
+        priority: 100,
+        required: true,
+      },
+    ]
+
+    // Leave out the error details when there are none
+    return buildPrompt(
+      sections.filter((section) => section.content),
+      options,
+    )
+  }
+
+  /**
+   * Fix the error by letting the model read and search the codebase with tools
+   * and submit the fixed file through the write_patch tool
+   * @param filePath The path of the file with the error
+   * @param errorDetails The details of the error
+   * @param context The context for the task
+   * @returns The final model response and the fixed code
+   */
+  private async fixWithTools(
+    filePath: string,
+    errorDetails: string | undefined,
+    context: AgentContext,
+  ): Promise<{ response: ModelResponse; fixedCode: string }> {
+    const tools = createCodebaseTools(context)
 
+    let prompt = `Fix the error in the file ${filePath}.\n\n`
     if (errorDetails) {
       prompt += `Error details: ${errorDetails}\n\n`
     }
+    prompt += `Use read_file and search_symbol to inspect the code, then submit the complete fixed file with write_patch.
+Make minimal changes to fix the error while preserving the original functionality.`
 
-    prompt += `Please fix the code to resolve the error. Provide the complete fixed code, not just the changes.
-Make minimal changes to fix the error while preserving the original functionality.
-Return ONLY the fixed code without explanations.`
+    const { response } = await chatWithTools(
+      [
+        { role: "system", content: this.systemPrompt },
+        { role: "user", content: prompt },
+      ],
+      tools.handlers,
+      {
+        agent: this.name,
+        taskType: "error-fixing",
+        language: this.getLanguageFromFilePath(filePath),
+        signal: context.signal,
+        tools: tools.definitions,
+        temperature: 0.2,
+        maxTokens: 2048,
+      },
+    )
+
+    // Fall back to the final answer if the model never used write_patch
+    const fixedCode = tools.patches[filePath] ?? this.extractCodeFromResponse(response.text)
 
-    return prompt
+    return { response, fixedCode }
   }
 
   /**
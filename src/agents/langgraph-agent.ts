@@ -3,6 +3,10 @@ import { spawn } from "child_process"
 import path from "path"
 import fs from "fs/promises"
 import os from "os"
+import { OperationCancelledError } from "../models/errors"
+import { getModelProvider, isProviderAvailable } from "../models/model-manager"
+import { getConfig } from "../config/config-manager"
+import { retrieveChunks } from "../retrieval/vector-index"
 
 /**
  * Agent that uses LangGraph for advanced code generation and validation
@@ -24,19 +28,19 @@ export class LangGraphAgent implements Agent {
    * @returns The result of the task
    */
   async executeTask(task: AgentTask, context: AgentContext): Promise<AgentResult> {
+    let tempDir: string | undefined
+    const model = this.getGroqModel()
+
     try {
       // Create a temporary directory for the Python script
-      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "codeforge-langgraph-"))
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "codeforge-langgraph-"))
 
       // Write the LangGraph workflow script
       const scriptPath = path.join(tempDir, "langgraph_workflow.py")
-      await fs.writeFile(scriptPath, this.generateLangGraphScript(task, context))
+      await fs.writeFile(scriptPath, await this.generateLangGraphScript(task, context, model))
 
       // Execute the Python script
-      const result = await this.executePythonScript(scriptPath, task.input)
-
-      // Clean up
-      await fs.rm(tempDir, { recursive: true, force: true })
+      const result = await this.executePythonScript(scriptPath, task.input, context.signal)
 
       if (result.error) {
         return {
@@ -51,7 +55,7 @@ export class LangGraphAgent implements Agent {
         output: result.output,
         metadata: {
           iterations: result.iterations,
-          model: "mixtral-8x7b-32768",
+          model,
           provider: "groq",
         },
       }
@@ -61,6 +65,11 @@ export class LangGraphAgent implements Agent {
         output: null,
         error: `LangGraph execution failed: ${error instanceof Error ? error.message : String(error)}`,
       }
+    } finally {
+      // Clean up, also when the script failed or was cancelled
+      if (tempDir) {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
     }
   }
 
@@ -68,16 +77,19 @@ export class LangGraphAgent implements Agent {
    * Generate the LangGraph workflow script
    * @param task The task to execute
    * @param context The context for the task
+   * @param model The Groq model the workflow uses
    * @returns The Python script content
    */
-  private generateLangGraphScript(task: AgentTask, context: AgentContext): string {
+  private async generateLangGraphScript(task: AgentTask, context: AgentContext, model: string): Promise<string> {
     // Extract task description and relevant context
     const description = task.description
     const input = typeof task.input === "string" ? task.input : JSON.stringify(task.input)
 
     // Get relevant files for context
-    const relevantFiles = this.getRelevantFiles(task.input, context)
-    const fileContexts = relevantFiles.map((file) => `File: ${file.path}\n\`\`\`\n${file.content}\n\`\`\``).join("\n\n")
+    const relevantFiles = await this.getRelevantFiles(description, task.input, context)
+    const fileContexts = relevantFiles
+      .map((file) => `File: ${file.path}${file.lines ? ` (lines ${file.lines})` : ""}\n\`\`\`\n${file.content}\n\`\`\``)
+      .join("\n\n")
 
     // Generate the Python script with the LangGraph workflow
     return `
@@ -95,7 +107,7 @@ import sys
 # Configure LLM
 llm = ChatGroq(
     temperature=0.1,
-    model_name="mixtral-8x7b-32768",
+    model_name=${JSON.stringify(model)},
     groq_api_key=os.environ.get("GROQ_API_KEY")
 )
 
@@ -248,35 +260,69 @@ print(json.dumps(output))
 `
   }
 
+  /**
+   * Get the Groq model the workflow should use
+   * @returns The current model of the Groq provider, or the configured default if it is not set up
+   */
+  private getGroqModel(): string {
+    return isProviderAvailable("groq")
+      ? getModelProvider("groq").getCurrentModel()
+      : getConfig().models.groq.defaultModel
+  }
+
   /**
    * Execute a Python script
    * @param scriptPath The path to the Python script
    * @param input The input for the script
+   * @param signal Kills the script, and the code it is validating, when aborted
    * @returns The result of the script execution
    */
   private async executePythonScript(
     scriptPath: string,
     input: any,
+    signal?: AbortSignal,
   ): Promise<{
     output: string
     error: string | null
     iterations: number
   }> {
+    if (signal?.aborted) {
+      throw new OperationCancelledError()
+    }
+
     return new Promise((resolve, reject) => {
-      const process = spawn("python", [scriptPath])
+      // Run the script in its own process group so that the generated code it runs can be killed with it
+      const detached = process.platform !== "win32"
+      const child = spawn("python", [scriptPath], { detached })
 
       let stdout = ""
       let stderr = ""
 
-      process.stdout.on("data", (data) => {
+      const onAbort = () => {
+        try {
+          if (detached && child.pid) {
+            process.kill(-child.pid, "SIGTERM")
+          } else {
+            child.kill("SIGTERM")
+          }
+        } catch (error) {
+          // The process has already exited
+        }
+        reject(new OperationCancelledError("LangGraph execution cancelled"))
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+
+      child.stdout.on("data", (data) => {
         stdout += data.toString()
       })
 
-      process.stderr.on("data", (data) => {
+      child.stderr.on("data", (data) => {
         stderr += data.toString()
       })
 
-      process.on("close", (code) => {
+      child.on("close", (code) => {
+        signal?.removeEventListener("abort", onAbort)
+
         if (code !== 0) {
           resolve({
             output: stdout,
@@ -303,20 +349,27 @@ print(json.dumps(output))
         }
       })
 
-      process.on("error", (error) => {
+      child.on("error", (error) => {
+        signal?.removeEventListener("abort", onAbort)
         reject(error)
       })
     })
   }
 
   /**
-   * Get relevant files from the codebase for context
+   * Get relevant code from the codebase for context: the files named in the input,
+   * then the chunks of other files most similar to the task
+   * @param description The description of the task
    * @param input The input for the task
    * @param context The context for the task
-   * @returns An array of relevant files
+   * @returns The relevant files and chunks, most relevant first
    */
-  private getRelevantFiles(input: any, context: AgentContext): Array<{ path: string; content: string }> {
-    const relevantFiles = []
+  private async getRelevantFiles(
+    description: string,
+    input: any,
+    context: AgentContext,
+  ): Promise<Array<{ path: string; content: string; lines?: string }>> {
+    const relevantFiles: Array<{ path: string; content: string; lines?: string }> = []
 
     // If a specific file is mentioned in the input, include it
     if (input.file && context.codebase.files[input.file]) {
@@ -338,19 +391,24 @@ print(json.dumps(output))
       }
     }
 
-    // If no specific files are mentioned, try to find relevant ones
-    // This is a simplified approach; a real implementation would use more sophisticated techniques
-    if (relevantFiles.length === 0 && input.keywords) {
-      const keywords = Array.isArray(input.keywords) ? input.keywords : [input.keywords]
+    // Find the parts of other files that are most similar to the task
+    const query = [description, typeof input === "string" ? input : input.requirements, input.keywords]
+      .flat()
+      .filter(Boolean)
+      .join("\n")
 
-      for (const [path, content] of Object.entries(context.codebase.files)) {
-        if (keywords.some((keyword) => content.includes(keyword) || path.includes(keyword))) {
-          relevantFiles.push({ path, content })
+    try {
+      const chunks = await retrieveChunks(context.codebase, query, {
+        exclude: relevantFiles.map((file) => file.path),
+        signal: context.signal,
+      })
 
-          // Limit the number of files to avoid overwhelming the model
-          if (relevantFiles.length >= 3) break
-        }
+      for (const chunk of chunks) {
+        relevantFiles.push({ path: chunk.path, content: chunk.content, lines: `${chunk.startLine}-${chunk.endLine}` })
       }
+    } catch (error) {
+      if (context.signal?.aborted) throw error
+      console.warn("Failed to retrieve relevant code:", error)
     }
 
     return relevantFiles
@@ -1,6 +1,11 @@
 import type { Agent, AgentTask, AgentContext, AgentResult } from "./types"
-import { generateResponse } from "../models/model-manager"
+import { generateResponse, getRoutedModel } from "../models/model-manager"
+import { buildPrompt, fitsContextWindow } from "../models/prompt-builder"
+import type { BuiltPrompt, PromptSection } from "../models/prompt-builder"
 import { validateCode } from "../utils/code-validator"
+import { buildCallerSections } from "./caller-context"
+import { findReferences } from "../codebase/references"
+import { getRenameDiff, planRename } from "../codebase/rename"
 
 /**
  * Agent responsible for refactoring code
@@ -15,6 +20,7 @@ export class RefactoringAgent implements Agent {
     "Apply design patterns",
     "Optimize performance",
   ]
+  private systemPrompt = "You are an expert software developer who refactors code without changing its behavior."
 
   /**
    * Execute a refactoring task
@@ -38,17 +44,45 @@ export class RefactoringAgent implements Agent {
         }
       }
 
+      // Renames are exact edits of every reference, so they are not left to the model
+      if (input.refactoringType === "rename") {
+        return this.renameSymbol(filePath, input, context)
+      }
+
       const fileContent = codebase.files[filePath]
 
+      const generateOptions = {
+        taskType: task.type,
+        language: this.getLanguageFromFilePath(filePath),
+        systemPrompt: this.systemPrompt,
+        agent: this.name,
+        signal: context.signal,
+        temperature: 0.3,
+        maxTokens: 2048,
+      }
+
       // Build the prompt for refactoring
-      const prompt = this.buildRefactoringPrompt(filePath, fileContent, input.refactoringType, input.description)
+      const builtPrompt = this.buildRefactoringPrompt(
+        filePath,
+        fileContent,
+        input.refactoringType,
+        input.description,
+        input.symbol,
+        input.symbol ? buildCallerSections(context, input.symbol, filePath) : [],
+        { ...generateOptions, model: getRoutedModel(generateOptions) },
+      )
+
+      // The whole file has to be sent back, so it can't be shortened to fit
+      if (!fitsContextWindow(builtPrompt, generateOptions.maxTokens)) {
+        return {
+          success: false,
+          output: null,
+          error: `${filePath} is too large for the model's context window of ${builtPrompt.contextWindow} tokens.`,
+        }
+      }
 
       // Generate the refactored code
-      const response = await generateResponse(prompt, {
-        requireCodeGeneration: true,
-        temperature: 0.3,
-        maxTokens: 2048,
-      })
+      const response = await generateResponse(builtPrompt.prompt, generateOptions)
 
       // Extract the refactored code from the response
       const refactoredCode = this.extractCodeFromResponse(response.text)
@@ -76,6 +110,7 @@ export class RefactoringAgent implements Agent {
           model: response.metadata?.model,
           provider: response.metadata?.provider,
           refactoringType: input.refactoringType,
+          trimmedContext: builtPrompt.trimmed,
         },
       }
     } catch (error) {
@@ -88,40 +123,139 @@ export class RefactoringAgent implements Agent {
   }
 
   /**
-   * Build a prompt for refactoring
+   * Rename a symbol and its references in every file, without a model. The files are not written.
+   * @param filePath The path of the file declaring or using the symbol
+   * @param input The task input: the new name in newName or description, and the symbol's
+   * position in line and column, or its name in symbol
+   * @param context The context for the task, which must hold the whole analysis
+   * @returns The result with the edits, the updated files and their diff
+   */
+  private renameSymbol(filePath: string, input: any, context: AgentContext): AgentResult {
+    const { codebase } = context
+    if (!codebase.symbols || !codebase.bindings || !codebase.reexports) {
+      return { success: false, output: null, error: "Renaming needs the analyzed codebase" }
+    }
+
+    const source = {
+      ...codebase,
+      symbols: codebase.symbols,
+      bindings: codebase.bindings,
+      reexports: codebase.reexports,
+    }
+    const newName = (input.newName || input.description || "").trim()
+    if (!newName) {
+      return { success: false, output: null, error: "No new name given" }
+    }
+
+    let position = input.line && input.column ? { line: Number(input.line), column: Number(input.column) } : null
+    if (!position && input.symbol) {
+      const definition = findReferences(input.symbol, source).find(
+        (reference) => reference.file === filePath && reference.kind === "definition",
+      )
+      position = definition ? { line: definition.line, column: definition.column + 1 } : null
+    }
+    if (!position) {
+      return { success: false, output: null, error: `No declaration of ${input.symbol || "the symbol"} in ${filePath}` }
+    }
+
+    const plan = planRename(source, filePath, position.line, position.column, newName)
+
+    return {
+      success: true,
+      output: {
+        file: filePath,
+        files: plan.files,
+        edits: plan.edits,
+        diff: getRenameDiff(plan),
+      },
+      metadata: {
+        refactoringType: "rename",
+      },
+    }
+  }
+
+  /**
+   * Build a prompt for refactoring. A long description is truncated and callers are
+   * dropped to fit the model's context window; the file itself is always sent whole.
    * @param filePath The path of the file to refactor
    * @param fileContent The content of the file
-   * @param refactoringType The type of refactoring to perform
-   * @param description Additional description of the refactoring
+   * @param refactoringType The type of refactoring
+   * @param description The description of the refactoring
+   * @param symbol The function or method to focus on
+   * @param callerSections The code calling the symbol
+   * @param options The target model, the tokens reserved for the answer and the system prompt
    * @returns The prompt for the model
    */
   private buildRefactoringPrompt(
     filePath: string,
     fileContent: string,
-    refactoringType?: string,
-    description?: string,
-  ): string {
-    let prompt = `You are an expert software developer. Refactor the following code to improve its quality:\n\n`
-    prompt += `File: ${filePath}\n\`\`\`\n${fileContent}\n\`\`\`\n\n`
-
-    if (refactoringType) {
-      prompt += `Refactoring type: ${refactoringType}\n\n`
-    }
-
-    if (description) {
-      prompt += `Refactoring description: ${description}\n\n`
-    }
-
-    prompt += `Please refactor the code to improve its:
+    refactoringType: string | undefined,
+    description: string | undefined,
+    symbol: string | undefined,
+    callerSections: PromptSection[],
+    options: { model?: string; maxTokens?: number; systemPrompt?: string },
+  ): BuiltPrompt {
+    const sections: PromptSection[] = [
+      {
+        name: "intro",
+        content: `Refactor the following code to improve its quality:\n\n`,
+        priority: 100,
+        required: true,
+      },
+      {
+        name: `file:${filePath}`,
+        content: fileContent,
+        prefix: `File: ${filePath}\n\`\`\`\n`,
+        suffix: `\n\`\`\`\n\n`,
+        priority: 90,
+        required: true,
+      },
+      ...callerSections,
+      {
+        name: "symbol",
+        content: symbol
+          ? `Focus on ${symbol}.${callerSections.length > 0 ? " Code calling it is shown above; it must keep working unchanged." : ""}`
+          : "",
+        suffix: "\n\n",
+        priority: 85,
+        required: true,
+      },
+      {
+        name: "refactoring-type",
+        content: refactoringType || "",
+        prefix: "Refactoring type: ",
+        suffix: "\n\n",
+        priority: 85,
+        required: true,
+      },
+      {
+        name: "description",
+        content: description || "",
+        prefix: "Refactoring description: ",
+        suffix: "\n\n",
+        priority: 80,
+        shrink: "truncate",
+      },
+      {
+        name: "instructions",
+        content: `Please refactor the code to improve its:
 1. Readability
 2. Maintainability
 3. Performance
 4. Adherence to best practices
 
 Make sure the refactored code maintains the same functionality as the original code.
-Return ONLY the refactored code without explanations.`
+Return ONLY the refactored code without explanations.`,
+        priority: 100,
+        required: true,
+      },
+    ]
 
-    return prompt
+    // Leave out the optional parts that were not given
+    return buildPrompt(
+      sections.filter((section) => section.content),
+      options,
+    )
   }
 
   /**
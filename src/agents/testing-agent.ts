@@ -1,5 +1,7 @@
 import type { Agent, AgentTask, AgentContext, AgentResult } from "./types"
-import { generateResponse } from "../models/model-manager"
+import { generateResponse, getRoutedModel } from "../models/model-manager"
+import { buildPrompt } from "../models/prompt-builder"
+import type { BuiltPrompt } from "../models/prompt-builder"
 import { validateCode } from "../utils/code-validator"
 
 /**
@@ -15,6 +17,7 @@ export class TestingAgent implements Agent {
     "Analyze test coverage",
     "Suggest test improvements",
   ]
+  private systemPrompt = "You are an expert software tester who writes thorough, maintainable tests."
 
   /**
    * Execute a testing task
@@ -43,16 +46,25 @@ export class TestingAgent implements Agent {
       // Determine the test type
       const testType = input.testType || "unit"
 
-      // Build the prompt for test generation
-      const prompt = this.buildTestGenerationPrompt(filePath, fileContent, testType, input.testFramework)
-
-      // Generate the tests
-      const response = await generateResponse(prompt, {
-        requireCodeGeneration: true,
+      const generateOptions = {
+        taskType: task.type,
+        language: this.getLanguageFromFilePath(filePath),
+        systemPrompt: this.systemPrompt,
+        agent: this.name,
+        signal: context.signal,
         temperature: 0.3,
         maxTokens: 2048,
+      }
+
+      // Build the prompt for test generation
+      const { prompt, trimmed } = this.buildTestGenerationPrompt(filePath, fileContent, testType, input.testFramework, {
+        ...generateOptions,
+        model: getRoutedModel(generateOptions),
       })
 
+      // Generate the tests
+      const response = await generateResponse(prompt, generateOptions)
+
       // Extract the test code from the response
       const testCode = this.extractCodeFromResponse(response.text)
 
@@ -82,6 +94,7 @@ export class TestingAgent implements Agent {
           provider: response.metadata?.provider,
           testType,
           testFramework: input.testFramework,
+          trimmedContext: trimmed,
         },
       }
     } catch (error) {
@@ -99,19 +112,20 @@ export class TestingAgent implements Agent {
    * @param fileContent The content of the file
    * @param testType The type of test to generate
    * @param testFramework The test framework to use
+   * @param options The target model, the tokens reserved for the answer and the system prompt
    * @returns The prompt for the model
    */
   private buildTestGenerationPrompt(
     filePath: string,
     fileContent: string,
     testType: string,
-    testFramework?: string,
-  ): string {
-    let prompt = `You are an expert software tester. Generate ${testType} tests for the following code:\n\n`
-    prompt += `File: ${filePath}\n\`\`\`\n${fileContent}\n\`\`\`\n\n`
+    testFramework: string | undefined,
+    options: { model?: string; maxTokens?: number; systemPrompt?: string },
+  ): BuiltPrompt {
+    let instructions = ""
 
     if (testFramework) {
-      prompt += `Test framework: ${testFramework}\n\n`
+      instructions += `Test framework: ${testFramework}\n\n`
     } else {
       // Suggest a test framework based on the file extension
       const extension = filePath.substring(filePath.lastIndexOf(".") + 1)
@@ -130,10 +144,10 @@ export class TestingAgent implements Agent {
         php: "phpunit",
       }
 
-      prompt += `Suggested test framework: ${frameworkSuggestions[extension] || "jest"}\n\n`
+      instructions += `Suggested test framework: ${frameworkSuggestions[extension] || "jest"}\n\n`
     }
 
-    prompt += `Please generate comprehensive ${testType} tests for the code. The tests should:
+    instructions += `Please generate comprehensive ${testType} tests for the code. The tests should:
 1. Cover all functions and methods in the code
 2. Include test cases for normal operation, edge cases, and error conditions
 3. Use appropriate assertions to verify the expected behavior
@@ -142,7 +156,28 @@ export class TestingAgent implements Agent {
 
 Return ONLY the test code without explanations.`
 
-    return prompt
+    // Tests mostly need the signatures, so a file too large for the context window is outlined
+    return buildPrompt(
+      [
+        {
+          name: "intro",
+          content: `Generate ${testType} tests for the following code:\n\n`,
+          priority: 100,
+          required: true,
+        },
+        {
+          name: `file:${filePath}`,
+          content: fileContent,
+          prefix: `File: ${filePath}\n\`\`\`\n`,
+          suffix: `\n\`\`\`\n\n`,
+          priority: 90,
+          shrink: "outline",
+          required: true,
+        },
+        { name: "instructions", content: instructions, priority: 100, required: true },
+      ],
+      options,
+    )
   }
 
   /**
@@ -0,0 +1,139 @@
+import type { AgentContext } from "./types"
+import type { ToolDefinition, ToolHandler } from "../models/types"
+import { describeFunction, findFunctions, getCallGraph } from "../codebase/call-graph"
+
+// Limits that keep tool results small enough for the model's context
+const MAX_FILE_LINES = 400
+const MAX_SEARCH_RESULTS = 20
+
+/**
+ * Interface for the tools agents can give the model to explore and change the codebase
+ */
+export interface CodebaseTools {
+  definitions: ToolDefinition[]
+  handlers: Record<string, ToolHandler>
+  /**
+   * The complete new contents of each file the model patched, keyed by path.
+   * Patches are only recorded; the agent decides whether to apply them.
+   */
+  patches: Record<string, string>
+}
+
+/**
+ * Create the codebase tools for an agent context
+ * @param context The context for the task
+ * @returns The tool definitions, their handlers and the recorded patches
+ */
+export function createCodebaseTools(context: AgentContext): CodebaseTools {
+  const { files, symbols, bindings, reexports } = context.codebase
+  const patches: Record<string, string> = {}
+
+  const definitions: ToolDefinition[] = [
+    {
+      name: "read_file",
+      description: "Read a file from the codebase. Lines are numbered starting at 1.",
+      parameters: {
+        type: "object",
+        properties: {
+          path: { type: "string", description: "The path of the file relative to the codebase root" },
+          startLine: { type: "integer", description: "The first line to read" },
+          endLine: { type: "integer", description: "The last line to read" },
+        },
+        required: ["path"],
+      },
+    },
+    {
+      name: "search_symbol",
+      description: "Find the lines in the codebase where an identifier appears.",
+      parameters: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "The identifier to search for" },
+        },
+        required: ["name"],
+      },
+    },
+    {
+      name: "write_patch",
+      description: "Submit the complete new contents of a file.",
+      parameters: {
+        type: "object",
+        properties: {
+          path: { type: "string", description: "The path of the file relative to the codebase root" },
+          content: { type: "string", description: "The complete new contents of the file" },
+        },
+        required: ["path", "content"],
+      },
+    },
+  ]
+
+  const handlers: Record<string, ToolHandler> = {
+    read_file: ({ path, startLine, endLine }) => {
+      const content = patches[path] ?? files[path]
+      if (content === undefined) {
+        return `Error: file ${path} not found`
+      }
+
+      const lines = content.split("\n")
+      const start = Math.max(1, startLine || 1)
+      const end = Math.min(lines.length, endLine || start + MAX_FILE_LINES - 1, start + MAX_FILE_LINES - 1)
+
+      return lines
+        .slice(start - 1, end)
+        .map((line, index) => `${start + index}: ${line}`)
+        .join("\n")
+    },
+    search_symbol: ({ name }) => {
+      const escapedName = String(name).replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      const pattern = new RegExp(`\\b${escapedName}\\b`)
+      const results: string[] = []
+
+      for (const [path, content] of Object.entries(files)) {
+        const lines = content.split("\n")
+        for (let i = 0; i < lines.length && results.length < MAX_SEARCH_RESULTS; i++) {
+          if (pattern.test(lines[i])) {
+            results.push(`${path}:${i + 1}: ${lines[i].trim()}`)
+          }
+        }
+      }
+
+      return results.length > 0 ? results.join("\n") : `No occurrences of ${name} found`
+    },
+    write_patch: ({ path, content }) => {
+      patches[path] = content
+      return `Patch for ${path} recorded`
+    },
+  }
+
+  // The call graph needs the symbols of the analysis, which contexts built from files alone lack
+  if (symbols && bindings && reexports) {
+    definitions.push({
+      name: "find_callers",
+      description: "Find the calls to a function or method, resolved through imports.",
+      parameters: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "The name of the function, or Class.method" },
+        },
+        required: ["name"],
+      },
+    })
+
+    handlers.find_callers = ({ name }) => {
+      const graph = getCallGraph({ ...context.codebase, symbols, bindings, reexports })
+      const calls = findFunctions(graph, String(name)).flatMap((key) => graph.callers.get(key) || [])
+
+      return calls.length > 0
+        ? calls
+            .slice(0, MAX_SEARCH_RESULTS)
+            .map(
+              (call) =>
+                `${call.file}:${call.line}: in ${describeFunction(call.caller)}: ${files[call.file]?.split("\n")[call.line - 1]?.trim()}`,
+            )
+            .join("\n")
+        : `No calls to ${name} found`
+    }
+  }
+
+  return { definitions, handlers, patches }
+}
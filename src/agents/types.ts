@@ -1,3 +1,5 @@
+import type { CodebaseAnalysis } from "../codebase/analyzer"
+
 /**
  * Interface for agent tasks
  */
@@ -13,14 +15,25 @@ export interface AgentTask {
  * Interface for agent context
  */
 export interface AgentContext {
+  /**
+   * The codebase, with its symbols, imports and dependencies when the whole analysis is passed
+   */
   codebase: {
     rootDir: string
     files: Record<string, string>
     ast?: any
-  }
+  } & Partial<Omit<CodebaseAnalysis, "rootDir" | "files" | "ast">>
   currentFile?: string
   results?: Record<string, any>
   options?: Record<string, any>
+  /**
+   * Receives the model's output as it is generated, for agents that support streaming
+   */
+  onToken?: (chunk: string) => void
+  /**
+   * Cancels the agent's model calls and subprocesses when aborted
+   */
+  signal?: AbortSignal
 }
 
 /**
@@ -0,0 +1,54 @@
+import fs from "fs/promises"
+import os from "os"
+import path from "path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { analyzeCodebase, isAnalyzedFile } from "./analyzer"
+
+describe("isAnalyzedFile", () => {
+  let tempDir: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "codeforge-analyzer-"))
+    vi.spyOn(console, "log").mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  /**
+   * Create a codebase in the temporary directory
+   * @param name The name of its directory
+   * @param files The content of each file, by path
+   * @returns The root directory of the codebase
+   */
+  async function createCodebase(name: string, files: Record<string, string>): Promise<string> {
+    const rootDir = path.join(tempDir, name)
+    for (const [filePath, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(rootDir, filePath)), { recursive: true })
+      await fs.writeFile(path.join(rootDir, filePath), content)
+    }
+    return rootDir
+  }
+
+  it("checks files against the ignore files of the codebase they belong to", async () => {
+    const first = await analyzeCodebase(
+      await createCodebase("first", {
+        ".gitignore": "generated/\n",
+        "src/index.ts": "export {}\n",
+        "generated/api.ts": "export {}\n",
+      }),
+    )
+    const second = await analyzeCodebase(
+      await createCodebase("second", { ".gitignore": "src/\n", "src/index.ts": "export {}\n" }),
+    )
+
+    expect(Object.keys(first.files)).toEqual(["src/index.ts"])
+    expect(isAnalyzedFile(first, "src/index.ts")).toBe(true)
+    expect(isAnalyzedFile(first, "generated/client.ts")).toBe(false)
+    expect(isAnalyzedFile(first, "README.md")).toBe(false)
+    expect(isAnalyzedFile(second, "src/index.ts")).toBe(false)
+    expect(isAnalyzedFile(second, "generated/client.ts")).toBe(true)
+  })
+})
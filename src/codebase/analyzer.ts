@@ -2,123 +2,410 @@ import fs from "fs/promises"
 import path from "path"
 import { parse } from "@babel/parser"
 import traverse from "@babel/traverse"
-import { glob } from "glob"
 import { getConfig } from "../config/config-manager"
+import { isIgnored, matchesGlob, parseIgnorePatterns, readIgnoreFiles } from "./ignore"
+import type { IgnorePattern } from "./ignore"
+import { hashContent, loadFileIndex, saveFileIndex } from "./index-store"
+import type { FileIndexEntry, IndexedImport, IndexedReexport, IndexedSymbol } from "./index-store"
+import { loadResolverOptions } from "./module-resolver"
+import type { ResolverOptions } from "./module-resolver"
+import { extractSymbols } from "./symbols"
 
 // Cache for analyzed files
 const fileCache: Record<string, string> = {}
 const astCache: Record<string, any> = {}
 
+// Files read concurrently; enough to keep the disk busy without running out of file handles
+const READ_BATCH_SIZE = 64
+
+// Extensions of the files that are analyzed
+const CODE_FILE_EXTENSIONS = [
+  "js",
+  "jsx",
+  "ts",
+  "tsx",
+  "py",
+  "rb",
+  "java",
+  "c",
+  "cpp",
+  "cs",
+  "go",
+  "rs",
+  "php",
+  "swift",
+  "kt",
+]
+
+// Directories that are never analyzed
+const IGNORED_DIRECTORIES = ["node_modules", "dist", "build", ".git", "coverage", ".codeforge"]
+
+// Bytes checked for NUL bytes to recognize binary files, as git does
+const BINARY_CHECK_BYTES = 8000
+
 /**
- * Analyze a codebase
- * @param directory The directory to analyze
- * @returns An object containing the analyzed codebase
+ * Interface for the patterns deciding which files of a codebase are analyzed
  */
-export async function analyzeCodebase(directory: string): Promise<{
+export interface AnalysisFilter {
+  /**
+   * The patterns of the ignore files, by the directory they were read from
+   */
+  ignoreFiles: Record<string, IgnorePattern[]>
+  /**
+   * The globs of analysis.include
+   */
+  include: string[]
+  /**
+   * The patterns of analysis.exclude, which take precedence over ignore files
+   */
+  exclude: IgnorePattern[]
+}
+
+/**
+ * Interface for an analyzed codebase. File paths are relative to the root directory.
+ */
+export interface CodebaseAnalysis {
   rootDir: string
   files: Record<string, string>
   ast?: Record<string, any>
   dependencies: Record<string, string[]>
   exports: Record<string, string[]>
   imports: Record<string, string[]>
-}> {
+  symbols: Record<string, IndexedSymbol[]>
+  bindings: Record<string, IndexedImport[]>
+  reexports: Record<string, IndexedReexport[]>
+  resolverOptions: ResolverOptions
+  filter: AnalysisFilter
+}
+
+/**
+ * Analyze a codebase. The dependencies, exports, imports and symbols of each file are
+ * kept in an index under .codeforge/index, so only files whose content changed since
+ * the last analysis are parsed. ASTs are parsed when they are first accessed.
+ * @param directory The directory to analyze
+ * @returns An object containing the analyzed codebase
+ */
+export async function analyzeCodebase(directory: string): Promise<CodebaseAnalysis> {
   console.log(`Analyzing codebase in ${directory}...`)
 
+  // The patterns are kept with the analysis, since other codebases may be analyzed while it is watched
+  const { analysis: analysisConfig } = getConfig()
+  const filter: AnalysisFilter = {
+    ignoreFiles: {},
+    include: analysisConfig.include,
+    exclude: parseIgnorePatterns(analysisConfig.exclude.join("\n"), ""),
+  }
+
   // Get all code files in the directory
-  const files = await getCodeFiles(directory)
+  const files = await getCodeFiles(directory, filter)
 
-  // Read the content of each file
+  // Read the content of each file, a batch at a time
   const fileContents: Record<string, string> = {}
-  for (const file of files) {
-    const relativePath = path.relative(directory, file)
-    try {
-      const content = await fs.readFile(file, "utf-8")
-      fileContents[relativePath] = content
-      fileCache[relativePath] = content
-    } catch (error) {
-      console.warn(`Failed to read file ${file}:`, error)
-    }
+  let skippedFiles = 0
+  for (let start = 0; start < files.length; start += READ_BATCH_SIZE) {
+    await Promise.all(
+      files.slice(start, start + READ_BATCH_SIZE).map(async (file) => {
+        const relativePath = path.relative(directory, file)
+        try {
+          const content = await readCodeFile(file)
+          if (content === null) {
+            skippedFiles++
+          } else {
+            fileContents[relativePath] = content
+          }
+        } catch (error) {
+          console.warn(`Failed to read file ${file}:`, error)
+        }
+      }),
+    )
   }
 
-  // Parse AST for JavaScript/TypeScript files
-  const ast: Record<string, any> = {}
-  const dependencies: Record<string, string[]> = {}
-  const exports: Record<string, string[]> = {}
-  const imports: Record<string, string[]> = {}
+  const analysis: CodebaseAnalysis = {
+    rootDir: directory,
+    files: fileContents,
+    ast: {},
+    dependencies: {},
+    exports: {},
+    imports: {},
+    symbols: {},
+    bindings: {},
+    reexports: {},
+    resolverOptions: await loadResolverOptions(directory),
+    filter,
+  }
+  const index = await loadFileIndex(directory)
+  const updatedIndex: Record<string, FileIndexEntry> = {}
+  let parsedFiles = 0
 
   for (const [filePath, content] of Object.entries(fileContents)) {
-    if (isJavaScriptFile(filePath) || isTypeScriptFile(filePath)) {
-      try {
-        const fileAst = parseAst(content, filePath)
-        ast[filePath] = fileAst
-        astCache[filePath] = fileAst
-
-        // Extract dependencies, exports, and imports
-        const fileAnalysis = analyzeFile(fileAst, filePath)
-        dependencies[filePath] = fileAnalysis.dependencies
-        exports[filePath] = fileAnalysis.exports
-        imports[filePath] = fileAnalysis.imports
-      } catch (error) {
-        console.warn(`Failed to parse AST for ${filePath}:`, error)
+    const entry = indexFile(analysis, filePath, content, index[filePath])
+    if (entry) {
+      updatedIndex[filePath] = entry
+      if (entry !== index[filePath]) parsedFiles++
+    }
+  }
+
+  // Save the index if files were parsed, or removed since the last analysis
+  if (parsedFiles > 0 || Object.keys(index).some((filePath) => !(filePath in updatedIndex))) {
+    await saveFileIndex(directory, updatedIndex)
+  }
+
+  console.log(`Analyzed ${Object.keys(fileContents).length} files (${parsedFiles} parsed).`)
+  if (skippedFiles > 0) {
+    console.log(`Skipped ${skippedFiles} files larger than analysis.maxFileSize or binary.`)
+  }
+
+  return analysis
+}
+
+/**
+ * Bring an analysis up to date with changed, added and deleted files. The files
+ * record is replaced rather than modified, so that caches keyed by it are rebuilt.
+ * @param analysis The analysis to update
+ * @param filePaths The paths of the files that may have changed, relative to the root directory
+ * @returns The paths of the files that were added, changed and removed
+ */
+export async function updateAnalyzedFiles(
+  analysis: CodebaseAnalysis,
+  filePaths: string[],
+): Promise<{ added: string[]; changed: string[]; removed: string[] }> {
+  const files = { ...analysis.files }
+  const index = await loadFileIndex(analysis.rootDir)
+  const added: string[] = []
+  const changed: string[] = []
+  const removed: string[] = []
+
+  for (const filePath of filePaths) {
+    let content: string | null = null
+    try {
+      // Files that grew too large or became binary are removed like deleted ones
+      content = await readCodeFile(path.join(analysis.rootDir, filePath))
+    } catch (error) {
+      // The file was deleted or renamed
+    }
+
+    if (content === null) {
+      if (filePath in files) {
+        delete files[filePath]
+        removeFile(analysis, filePath)
+        delete index[filePath]
+        removed.push(filePath)
       }
+      continue
+    }
+
+    if (files[filePath] === content) continue
+
+    ;(filePath in files ? changed : added).push(filePath)
+    files[filePath] = content
+
+    const entry = indexFile(analysis, filePath, content, index[filePath])
+    if (entry) {
+      index[filePath] = entry
+    } else {
+      delete index[filePath]
     }
   }
 
-  console.log(`Analyzed ${Object.keys(fileContents).length} files.`)
+  analysis.files = files
+  if (added.length + changed.length + removed.length > 0) {
+    await saveFileIndex(analysis.rootDir, index)
+  }
 
-  return {
-    rootDir: directory,
-    files: fileContents,
-    ast,
-    dependencies,
-    exports,
-    imports,
+  return { added, changed, removed }
+}
+
+/**
+ * Check whether a file is one that analyzeCodebase analyzes, by the ignore files read
+ * in the analysis. Files are not checked for their size or content.
+ * @param analysis The analysis of the codebase
+ * @param filePath The path of the file, relative to the root directory
+ * @returns Whether the file is a code file that is included and not ignored
+ */
+export function isAnalyzedFile(analysis: CodebaseAnalysis, filePath: string): boolean {
+  const { filter } = analysis
+  const segments = filePath.split(/[\\/]/)
+  const normalizedPath = segments.join("/")
+
+  if (!isCodeFile(filter, normalizedPath)) return false
+  if (segments.slice(0, -1).some((_, index) => isExcluded(filter, segments.slice(0, index + 1).join("/"), true))) {
+    return false
+  }
+
+  return !isExcluded(filter, normalizedPath, false)
+}
+
+/**
+ * Check whether a file has a code extension and is included by analysis.include
+ * @param filter The patterns of the codebase
+ * @param filePath The path of the file, relative to the root directory with forward slashes
+ * @returns Whether the file is a code file to analyze
+ */
+function isCodeFile(filter: AnalysisFilter, filePath: string): boolean {
+  const { include } = filter
+  const extension = path.extname(filePath).slice(1)
+
+  return (
+    CODE_FILE_EXTENSIONS.includes(extension) &&
+    !filePath.endsWith(".min.js") &&
+    (include.length === 0 || include.some((glob) => matchesGlob(glob, filePath)))
+  )
+}
+
+/**
+ * Check whether a file or directory is excluded by an ignore file or analysis.exclude.
+ * The directories containing it are not checked.
+ * @param filter The patterns of the codebase
+ * @param filePath The path, relative to the root directory with forward slashes
+ * @param isDirectory Whether the path is a directory
+ * @returns Whether the path is excluded
+ */
+function isExcluded(filter: AnalysisFilter, filePath: string, isDirectory: boolean): boolean {
+  const segments = filePath.split("/")
+  if (isDirectory && IGNORED_DIRECTORIES.includes(segments[segments.length - 1])) {
+    return true
+  }
+
+  // Patterns of ignore files in deeper directories come later, so that they take precedence
+  const patterns = [...(filter.ignoreFiles[""] || [])]
+  for (let depth = 1; depth < segments.length; depth++) {
+    patterns.push(...(filter.ignoreFiles[segments.slice(0, depth).join("/")] || []))
+  }
+
+  return isIgnored([...patterns, ...filter.exclude], filePath, isDirectory)
+}
+
+/**
+ * Read a code file, unless it is too large to analyze or binary
+ * @param filePath The path of the file
+ * @returns The content of the file, or null if it is skipped
+ */
+async function readCodeFile(filePath: string): Promise<string | null> {
+  const { size } = await fs.stat(filePath)
+  if (size > getConfig().analysis.maxFileSize) {
+    return null
+  }
+
+  const content = await fs.readFile(filePath)
+  if (content.subarray(0, BINARY_CHECK_BYTES).includes(0)) {
+    return null
   }
+
+  return content.toString("utf-8")
 }
 
 /**
- * Get all code files in a directory
+ * Add a file to an analysis, parsing it unless its index entry is still valid
+ * @param analysis The analysis to add the file to
+ * @param filePath The path of the file
+ * @param content The content of the file
+ * @param indexEntry The file's entry in the index, if it has one
+ * @returns The file's up-to-date index entry, or null if it is not a JavaScript or TypeScript file or can't be parsed
+ */
+function indexFile(
+  analysis: CodebaseAnalysis,
+  filePath: string,
+  content: string,
+  indexEntry?: FileIndexEntry,
+): FileIndexEntry | null {
+  removeFile(analysis, filePath)
+  fileCache[filePath] = content
+
+  if (!isJavaScriptFile(filePath) && !isTypeScriptFile(filePath)) {
+    return null
+  }
+
+  const hash = hashContent(content)
+  let entry = indexEntry?.hash === hash ? indexEntry : null
+
+  if (!entry) {
+    try {
+      astCache[filePath] = parseAst(content, filePath)
+      entry = { hash, ...analyzeFile(astCache[filePath], filePath) }
+    } catch (error) {
+      console.warn(`Failed to parse AST for ${filePath}:`, error)
+      return null
+    }
+  }
+
+  defineLazyAst(analysis.ast!, filePath)
+  analysis.dependencies[filePath] = entry.dependencies
+  analysis.exports[filePath] = entry.exports
+  analysis.imports[filePath] = entry.imports
+  analysis.symbols[filePath] = entry.symbols
+  analysis.bindings[filePath] = entry.bindings
+  analysis.reexports[filePath] = entry.reexports
+
+  return entry
+}
+
+/**
+ * Remove a file from an analysis and the caches
+ * @param analysis The analysis to remove the file from
+ * @param filePath The path of the file
+ */
+function removeFile(analysis: CodebaseAnalysis, filePath: string): void {
+  delete fileCache[filePath]
+  delete astCache[filePath]
+  delete analysis.ast?.[filePath]
+  delete analysis.dependencies[filePath]
+  delete analysis.exports[filePath]
+  delete analysis.imports[filePath]
+  delete analysis.symbols[filePath]
+  delete analysis.bindings[filePath]
+  delete analysis.reexports[filePath]
+}
+
+/**
+ * Define the AST of a file as a property that parses the file when it is first read
+ * @param ast The ASTs by file path
+ * @param filePath The path of the file
+ */
+function defineLazyAst(ast: Record<string, any>, filePath: string): void {
+  Object.defineProperty(ast, filePath, {
+    enumerable: true,
+    // Removed when the file changes or is deleted
+    configurable: true,
+    get: () => getAstFromCache(filePath),
+  })
+}
+
+/**
+ * Get all code files in a directory, honoring the .gitignore and .codeforgeignore files
+ * of every directory and the analysis.include and analysis.exclude globs. Ignored
+ * directories are not descended into.
  * @param directory The directory to search
+ * @param filter The patterns of the codebase, which the patterns of the ignore files are added to
  * @returns An array of file paths
  */
-async function getCodeFiles(directory: string): Promise<string[]> {
-  const config = getConfig()
-
-  // Define patterns for code files
-  const patterns = [
-    "**/*.js",
-    "**/*.jsx",
-    "**/*.ts",
-    "**/*.tsx",
-    "**/*.py",
-    "**/*.rb",
-    "**/*.java",
-    "**/*.c",
-    "**/*.cpp",
-    "**/*.cs",
-    "**/*.go",
-    "**/*.rs",
-    "**/*.php",
-    "**/*.swift",
-    "**/*.kt",
-  ]
-
-  // Define patterns to ignore
-  const ignorePatterns = [
-    "**/node_modules/**",
-    "**/dist/**",
-    "**/build/**",
-    "**/.git/**",
-    "**/coverage/**",
-    "**/*.min.js",
-  ]
-
-  // Get all files matching the patterns
-  const files = await glob(patterns, {
-    cwd: directory,
-    ignore: ignorePatterns,
-    absolute: true,
-  })
+async function getCodeFiles(directory: string, filter: AnalysisFilter): Promise<string[]> {
+  const files: string[] = []
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    filter.ignoreFiles[relativeDir] = await readIgnoreFiles(directory, relativeDir)
+
+    let entries
+    try {
+      entries = await fs.readdir(path.join(directory, relativeDir), { withFileTypes: true })
+    } catch (error) {
+      console.warn(`Failed to read directory ${path.join(directory, relativeDir)}:`, error)
+      return
+    }
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name
+
+      if (entry.isDirectory()) {
+        if (!isExcluded(filter, relativePath, true)) {
+          await walk(relativePath)
+        }
+      } else if (entry.isFile() && isCodeFile(filter, relativePath) && !isExcluded(filter, relativePath, false)) {
+        files.push(path.join(directory, relativePath))
+      }
+    }
+  }
+
+  await walk("")
 
   return files
 }
@@ -146,7 +433,7 @@ function parseAst(content: string, filePath: string): any {
 }
 
 /**
- * Analyze a file's AST to extract dependencies, exports, and imports
+ * Analyze a file's AST to extract dependencies, exports, imports and symbols
  * @param ast The AST of the file
  * @param filePath The path of the file
  * @returns An object containing the analysis results
@@ -158,6 +445,9 @@ function analyzeFile(
   dependencies: string[]
   exports: string[]
   imports: string[]
+  symbols: IndexedSymbol[]
+  bindings: IndexedImport[]
+  reexports: IndexedReexport[]
 } {
   const dependencies: string[] = []
   const exports: string[] = []
@@ -168,19 +458,6 @@ function analyzeFile(
       const source = path.node.source.value
       dependencies.push(source)
       imports.push(source)
-
-      path.node.specifiers.forEach((specifier) => {
-        if (specifier.type === "ImportDefaultSpecifier") {
-          // Default import
-          // e.g., import React from 'react'
-        } else if (specifier.type === "ImportSpecifier") {
-          // Named import
-          // e.g., import { useState } from 'react'
-        } else if (specifier.type === "ImportNamespaceSpecifier") {
-          // Namespace import
-          // e.g., import * as React from 'react'
-        }
-      })
     },
     ExportNamedDeclaration(path) {
       if (path.node.declaration) {
@@ -208,12 +485,24 @@ function analyzeFile(
         exports.push("default")
       }
     },
+    ExportAllDeclaration(path: any) {
+      dependencies.push(path.node.source.value)
+    },
+    CallExpression(path: any) {
+      // require("./module") and import("./module")
+      const [argument] = path.node.arguments
+      const isRequire = path.node.callee.type === "Identifier" && path.node.callee.name === "require"
+      if ((isRequire || path.node.callee.type === "Import") && argument?.type === "StringLiteral") {
+        dependencies.push(argument.value)
+      }
+    },
   })
 
   return {
     dependencies: [...new Set(dependencies)],
     exports: [...new Set(exports)],
     imports: [...new Set(imports)],
+    ...extractSymbols(ast),
   }
 }
 
@@ -254,74 +543,19 @@ export function getFileFromCache(filePath: string): string | null {
 }
 
 /**
- * Get an AST from the cache
+ * Get an AST from the cache, parsing the file if it hasn't been parsed yet
  * @param filePath The path of the file
- * @returns The AST of the file
+ * @returns The AST of the file, or null if the file is unknown or can't be parsed
  */
 export function getAstFromCache(filePath: string): any | null {
-  return astCache[filePath] || null
-}
-
-/**
- * Find all references to a symbol in the codebase
- * @param symbol The symbol to find references for
- * @param codebase The analyzed codebase
- * @returns An array of references
- */
-export function findReferences(
-  symbol: string,
-  codebase: {
-    files: Record<string, string>
-    ast?: Record<string, any>
-  },
-): Array<{ file: string; line: number; column: number; context: string }> {
-  const references = []
-
-  for (const [filePath, ast] of Object.entries(codebase.ast || {})) {
-    const fileReferences = findReferencesInFile(symbol, ast, codebase.files[filePath])
-
-    for (const reference of fileReferences) {
-      references.push({
-        file: filePath,
-        ...reference,
-      })
+  if (!astCache[filePath] && fileCache[filePath] !== undefined) {
+    try {
+      astCache[filePath] = parseAst(fileCache[filePath], filePath)
+    } catch (error) {
+      // Syntax errors were reported when the file was analyzed
+      return null
     }
   }
 
-  return references
-}
-
-/**
- * Find all references to a symbol in a file
- * @param symbol The symbol to find references for
- * @param ast The AST of the file
- * @param content The content of the file
- * @returns An array of references
- */
-function findReferencesInFile(
-  symbol: string,
-  ast: any,
-  content: string,
-): Array<{ line: number; column: number; context: string }> {
-  const references = []
-
-  traverse(ast, {
-    Identifier(path) {
-      if (path.node.name === symbol) {
-        const { line, column } = path.node.loc.start
-
-        // Get the context (the line of code)
-        const lines = content.split("\n")
-        const context = lines[line - 1].trim()
-
-        references.push({
-          line,
-          column,
-          context,
-        })
-      }
-    },
-  })
-
-  return references
+  return astCache[filePath] || null
 }
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest"
+import { findCycles, findLayerViolations } from "./architecture"
+import type { DependencyGraph } from "./dependency-graph"
+
+/**
+ * Create a dependency graph from the imports of each file
+ * @param dependencies The files each file imports
+ * @param external The packages each file imports
+ * @returns The graph
+ */
+function createGraph(dependencies: Record<string, string[]>, external: Record<string, string[]> = {}): DependencyGraph {
+  const dependents: Record<string, string[]> = {}
+  for (const [file, imported] of Object.entries(dependencies)) {
+    for (const dependency of imported) {
+      dependents[dependency] = [...(dependents[dependency] || []), file]
+    }
+  }
+
+  return { dependencies, dependents, external }
+}
+
+describe("findCycles", () => {
+  it("finds no cycles in a graph without any", () => {
+    const graph = createGraph({ "a.ts": ["b.ts", "c.ts"], "b.ts": ["c.ts"], "c.ts": [] })
+
+    expect(findCycles(graph)).toEqual([])
+  })
+
+  it("reports each group of files importing each other once, from its first file", () => {
+    const graph = createGraph({
+      "a.ts": ["b.ts"],
+      "b.ts": ["c.ts"],
+      "c.ts": ["a.ts", "d.ts"],
+      "d.ts": [],
+      "x.ts": ["y.ts"],
+      "y.ts": ["x.ts"],
+    })
+
+    expect(findCycles(graph)).toEqual([
+      ["a.ts", "b.ts", "c.ts", "a.ts"],
+      ["x.ts", "y.ts", "x.ts"],
+    ])
+  })
+
+  it("gives a shortest cycle through the first file of a group", () => {
+    const graph = createGraph({
+      "a.ts": ["b.ts", "e.ts"],
+      "b.ts": ["c.ts"],
+      "c.ts": ["d.ts"],
+      "d.ts": ["a.ts"],
+      "e.ts": ["d.ts"],
+    })
+
+    expect(findCycles(graph)).toEqual([["a.ts", "e.ts", "d.ts", "a.ts"]])
+  })
+
+  it("handles import chains deeper than the call stack", () => {
+    const files = Array.from({ length: 20000 }, (_, index) => `file${String(index).padStart(5, "0")}.ts`)
+    const graph = createGraph(
+      Object.fromEntries(files.map((file, index) => [file, [files[(index + 1) % files.length]]])),
+    )
+
+    const cycles = findCycles(graph)
+
+    expect(cycles).toHaveLength(1)
+    expect(cycles[0]).toHaveLength(files.length + 1)
+    expect(cycles[0][0]).toBe("file00000.ts")
+  })
+})
+
+describe("findLayerViolations", () => {
+  const graph = createGraph(
+    {
+      "src/models/manager.ts": ["src/agents/base.ts", "src/utils/format.ts"],
+      "src/agents/base.ts": ["src/models/manager.ts"],
+      "src/utils/format.ts": [],
+    },
+    { "src/utils/format.ts": ["react"], "src/models/manager.ts": ["node-fetch"] },
+  )
+
+  it("reports imports of files a rule disallows", () => {
+    const rule = { name: "models below agents", from: "src/models", disallow: ["src/agents"] }
+
+    expect(findLayerViolations(graph, [rule])).toEqual([
+      { rule, file: "src/models/manager.ts", dependency: "src/agents/base.ts" },
+    ])
+  })
+
+  it("reports imports of packages a rule disallows", () => {
+    const rule = { from: ["src/utils", "src/models"], disallow: ["react", "src/agents/*.ts"] }
+
+    expect(findLayerViolations(graph, [rule])).toEqual([
+      { rule, file: "src/models/manager.ts", dependency: "src/agents/base.ts" },
+      { rule, file: "src/utils/format.ts", dependency: "react" },
+    ])
+  })
+
+  it("ignores files no rule applies to", () => {
+    expect(findLayerViolations(graph, [{ from: "lib", disallow: ["src"] }])).toEqual([])
+    expect(findLayerViolations(graph, [])).toEqual([])
+  })
+})
@@ -0,0 +1,186 @@
+import { getConfig } from "../config/config-manager"
+import { getDependencyGraph } from "./dependency-graph"
+import type { DependencyGraph } from "./dependency-graph"
+import { matchesGlob } from "./ignore"
+import type { ResolverOptions } from "./module-resolver"
+
+/**
+ * Interface for a layering rule: files matching from must not import files or packages matching disallow
+ */
+export interface LayerRule {
+  name?: string
+  /**
+   * Globs of the files the rule applies to, e.g. "src/models"
+   */
+  from: string | string[]
+  /**
+   * Globs of the files, or names of the packages, those files must not import, e.g. "src/agents"
+   */
+  disallow: string[]
+}
+
+/**
+ * Interface for an import that breaks a layering rule
+ */
+export interface LayerViolation {
+  rule: LayerRule
+  file: string
+  /**
+   * The imported file, or the import source if it is not a file of the codebase
+   */
+  dependency: string
+}
+
+/**
+ * Interface for the result of checking the architecture of a codebase
+ */
+export interface ArchitectureReport {
+  /**
+   * Each cycle as a path of imports, starting and ending with the same file
+   */
+  cycles: string[][]
+  violations: LayerViolation[]
+}
+
+/**
+ * Check a codebase for circular imports and imports that break the layering rules in analysis.layers
+ * @param codebase The analyzed codebase
+ * @returns The cycles, unless analysis.allowCycles is set, and the violations
+ */
+export function checkArchitecture(codebase: {
+  files: Record<string, string>
+  dependencies: Record<string, string[]>
+  resolverOptions?: ResolverOptions
+}): ArchitectureReport {
+  const { allowCycles, layers } = getConfig().analysis
+  const graph = getDependencyGraph(codebase)
+
+  return {
+    cycles: allowCycles ? [] : findCycles(graph),
+    violations: findLayerViolations(graph, layers),
+  }
+}
+
+/**
+ * Find the circular imports of a codebase. Each group of files importing each other,
+ * a strongly connected component of the graph found with Tarjan's algorithm, is one cycle.
+ * @param graph The dependency graph
+ * @returns One shortest cycle through each group, as a path of imports starting and ending with the same file
+ */
+export function findCycles(graph: DependencyGraph): string[][] {
+  const indexes = new Map<string, number>()
+  const lowLinks = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const cycles: string[][] = []
+
+  const visit = (file: string) => {
+    indexes.set(file, indexes.size)
+    lowLinks.set(file, indexes.get(file)!)
+    stack.push(file)
+    onStack.add(file)
+  }
+
+  for (const root of Object.keys(graph.dependencies).sort()) {
+    if (indexes.has(root)) continue
+
+    // The search is iterative, since import chains can be deeper than the call stack
+    const frames = [{ file: root, next: 0 }]
+    visit(root)
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1]
+      const dependencies = graph.dependencies[frame.file] || []
+
+      if (frame.next < dependencies.length) {
+        const dependency = dependencies[frame.next++]
+        if (!indexes.has(dependency)) {
+          visit(dependency)
+          frames.push({ file: dependency, next: 0 })
+        } else if (onStack.has(dependency)) {
+          lowLinks.set(frame.file, Math.min(lowLinks.get(frame.file)!, indexes.get(dependency)!))
+        }
+        continue
+      }
+
+      frames.pop()
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1].file
+        lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.file)!))
+      }
+
+      if (lowLinks.get(frame.file) === indexes.get(frame.file)) {
+        const component: string[] = []
+        let member: string
+        do {
+          member = stack.pop()!
+          onStack.delete(member)
+          component.push(member)
+        } while (member !== frame.file)
+
+        if (component.length > 1) {
+          cycles.push(findCyclePath(graph, new Set(component)))
+        }
+      }
+    }
+  }
+
+  return cycles
+}
+
+/**
+ * Find the imports breaking layering rules
+ * @param graph The dependency graph
+ * @param rules The layering rules
+ * @returns The violations, by file
+ */
+export function findLayerViolations(graph: DependencyGraph, rules: LayerRule[]): LayerViolation[] {
+  const violations: LayerViolation[] = []
+
+  for (const file of Object.keys(graph.dependencies).sort()) {
+    for (const rule of rules) {
+      const from = Array.isArray(rule.from) ? rule.from : [rule.from]
+      if (!from.some((glob) => matchesGlob(glob, file))) continue
+
+      for (const dependency of [...graph.dependencies[file], ...(graph.external[file] || [])]) {
+        if (rule.disallow.some((glob) => matchesGlob(glob, dependency))) {
+          violations.push({ rule, file, dependency })
+        }
+      }
+    }
+  }
+
+  return violations
+}
+
+/**
+ * Find a shortest cycle through the files of a strongly connected component
+ * @param graph The dependency graph
+ * @param component The files of the component
+ * @returns The cycle through its first file in alphabetical order, starting and ending with that file
+ */
+function findCyclePath(graph: DependencyGraph, component: Set<string>): string[] {
+  const start = [...component].sort()[0]
+  const previous = new Map<string, string>()
+  const queue = [start]
+
+  while (queue.length > 0) {
+    const file = queue.shift()!
+    for (const dependency of graph.dependencies[file] || []) {
+      if (dependency === start) {
+        const path = [start]
+        for (let current: string | undefined = file; current !== undefined; current = previous.get(current)) {
+          path.unshift(current)
+        }
+        return path
+      }
+      if (component.has(dependency) && !previous.has(dependency)) {
+        previous.set(dependency, file)
+        queue.push(dependency)
+      }
+    }
+  }
+
+  // Unreachable for a strongly connected component
+  return [...component]
+}
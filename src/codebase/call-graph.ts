@@ -0,0 +1,369 @@
+import { getAstFromCache } from "./analyzer"
+import { getFileSymbols, resolveImport } from "./symbols"
+import type { CodeSymbol, SymbolTableSource } from "./symbols"
+
+/**
+ * Interface for a call from one function to another
+ */
+export interface CallSite {
+  /**
+   * The calling function, or the top level of a module
+   */
+  caller: string
+  callee: string
+  file: string
+  line: number
+  column: number
+  /**
+   * Whether the callee was only matched by its method name, because the object's type is unknown
+   */
+  inferred: boolean
+}
+
+/**
+ * Interface for the calls between the functions of a codebase. Functions are identified
+ * by keys like "src/index.ts#main" or "src/agents/agent.ts#Agent.run", the top level
+ * of a module by its path followed by "#".
+ */
+export interface CallGraph {
+  functions: Map<string, CodeSymbol>
+  callers: Map<string, CallSite[]>
+  callees: Map<string, CallSite[]>
+}
+
+/**
+ * Interface for the parts of an analyzed codebase the call graph is built from
+ */
+type CallGraphSource = SymbolTableSource & { ast?: Record<string, any> }
+
+// Properties of AST nodes that hold no code
+const NON_CODE_KEYS = new Set([
+  "type",
+  "loc",
+  "start",
+  "end",
+  "extra",
+  "leadingComments",
+  "trailingComments",
+  "innerComments",
+])
+
+// Callers up to this many lines long are shown whole, longer ones around the call
+const MAX_SNIPPET_LINES = 40
+const CALL_CONTEXT_LINES = 5
+
+// Graphs built in this session, by the files of the analyzed codebase
+const graphs = new WeakMap<Record<string, string>, CallGraph>()
+
+/**
+ * Get the call graph of a codebase, building it on first use. Calls are resolved
+ * through imports, namespace imports, this and static methods; calls of methods
+ * of other objects are matched to the only method of that name, if there is one.
+ * @param codebase The analyzed codebase
+ * @returns The graph
+ */
+export function getCallGraph(codebase: CallGraphSource): CallGraph {
+  let graph = graphs.get(codebase.files)
+
+  if (!graph) {
+    graph = buildCallGraph(codebase)
+    graphs.set(codebase.files, graph)
+  }
+
+  return graph
+}
+
+/**
+ * Find the functions with a name
+ * @param graph The call graph
+ * @param name The name of a function, a method or a method qualified with its class, e.g. "Agent.run"
+ * @param filePath The file to look in first; functions in other files are only returned if it has none
+ * @returns The keys of the matching functions
+ */
+export function findFunctions(graph: CallGraph, name: string, filePath?: string): string[] {
+  const matches = [...graph.functions.entries()]
+    .filter(([, symbol]) => (name.includes(".") ? `${symbol.container}.${symbol.name}` === name : symbol.name === name))
+    .map(([key]) => key)
+
+  const inFile = matches.filter((key) => graph.functions.get(key)!.file === filePath)
+  return inFile.length > 0 ? inFile : matches
+}
+
+/**
+ * Get the key a function is identified by in the call graph
+ * @param symbol The symbol of the function
+ * @returns The key
+ */
+export function getFunctionKey(symbol: CodeSymbol): string {
+  return `${symbol.file}#${symbol.container ? `${symbol.container}.` : ""}${symbol.name}`
+}
+
+/**
+ * Describe a function of the call graph for display
+ * @param key The key of the function
+ * @returns The name of the function with its file, e.g. "Agent.run (src/agents/agent.ts)"
+ */
+export function describeFunction(key: string): string {
+  const [file, name] = key.split("#")
+  return `${name || "(top level)"} (${file})`
+}
+
+/**
+ * Build the call graph of a codebase
+ * @param codebase The analyzed codebase
+ * @returns The graph
+ */
+function buildCallGraph(codebase: CallGraphSource): CallGraph {
+  const graph: CallGraph = { functions: new Map(), callers: new Map(), callees: new Map() }
+
+  for (const filePath of Object.keys(codebase.symbols)) {
+    for (const symbol of getFileSymbols(codebase, filePath)) {
+      if (symbol.kind === "function" || symbol.kind === "method") {
+        graph.functions.set(getFunctionKey(symbol), symbol)
+      }
+    }
+  }
+
+  // Methods by name, to match calls on objects of unknown type
+  const methodsByName = new Map<string, string[]>()
+  for (const [key, symbol] of graph.functions) {
+    if (symbol.container) {
+      if (!methodsByName.has(symbol.name)) methodsByName.set(symbol.name, [])
+      methodsByName.get(symbol.name)!.push(key)
+    }
+  }
+
+  for (const filePath of Object.keys(codebase.symbols)) {
+    const ast = codebase.ast?.[filePath] || getAstFromCache(filePath)
+    if (!ast) continue
+
+    const addCall = (caller: string, callee: string, node: any, inferred: boolean) => {
+      const call: CallSite = {
+        caller,
+        callee,
+        file: filePath,
+        line: node.loc.start.line,
+        column: node.loc.start.column,
+        inferred,
+      }
+      if (!graph.callees.has(caller)) graph.callees.set(caller, [])
+      if (!graph.callers.has(callee)) graph.callers.set(callee, [])
+      graph.callees.get(caller)!.push(call)
+      graph.callers.get(callee)!.push(call)
+    }
+
+    for (const { caller, className, node } of getFunctionBodies(ast, filePath)) {
+      walkCalls(node, (call) => {
+        const resolved = resolveCallee(codebase, graph, filePath, className, call.callee, call.type === "NewExpression")
+        if (resolved) {
+          addCall(caller, resolved, call, false)
+          return
+        }
+
+        // A method called on an object of unknown type, matched if only one method has its name
+        const property = call.callee.type.endsWith("MemberExpression") && !call.callee.computed && call.callee.property
+        const candidates = property?.type === "Identifier" ? methodsByName.get(property.name) || [] : []
+        if (candidates.length === 1) {
+          addCall(caller, candidates[0], call, true)
+        }
+      })
+    }
+  }
+
+  return graph
+}
+
+/**
+ * Split a module into the code of each function and the code at its top level
+ * @param ast The AST of the module
+ * @param filePath The path of the module
+ * @returns The nodes with the key of the function they belong to, and the class of methods
+ */
+function getFunctionBodies(ast: any, filePath: string): Array<{ caller: string; className?: string; node: any }> {
+  const bodies: Array<{ caller: string; className?: string; node: any }> = []
+  const topLevel = `${filePath}#`
+
+  for (const statement of ast.program.body) {
+    const declaration = statement.type.startsWith("Export") && statement.declaration ? statement.declaration : statement
+
+    if (declaration.type === "FunctionDeclaration" && declaration.id) {
+      bodies.push({ caller: `${filePath}#${declaration.id.name}`, node: declaration.body })
+    } else if (declaration.type === "ClassDeclaration" && declaration.id) {
+      const className = declaration.id.name
+      for (const member of declaration.body.body) {
+        const isMethod = member.type === "ClassMethod" || member.type === "ClassPrivateMethod"
+        const isArrowMethod = member.type === "ClassProperty" && isFunction(member.value)
+        if ((isMethod || isArrowMethod) && !member.computed && member.key.type === "Identifier") {
+          bodies.push({
+            caller: `${filePath}#${className}.${member.key.name}`,
+            className,
+            node: isMethod ? member.body : member.value.body,
+          })
+        } else {
+          bodies.push({ caller: topLevel, className, node: member })
+        }
+      }
+    } else if (declaration.type === "VariableDeclaration") {
+      for (const declarator of declaration.declarations) {
+        const isNamedFunction = declarator.id.type === "Identifier" && isFunction(declarator.init)
+        bodies.push(
+          isNamedFunction
+            ? { caller: `${filePath}#${declarator.id.name}`, node: declarator.init.body }
+            : { caller: topLevel, node: declarator },
+        )
+      }
+    } else {
+      bodies.push({ caller: topLevel, node: declaration })
+    }
+  }
+
+  return bodies
+}
+
+/**
+ * Find the function a call calls
+ * @param codebase The analyzed codebase
+ * @param graph The call graph, with its functions
+ * @param filePath The path of the calling module
+ * @param className The class of the calling method, which this refers to
+ * @param callee The callee expression of the call
+ * @param isNew Whether the call constructs an object, which calls the constructor
+ * @returns The key of the called function, or null if it can't be resolved
+ */
+function resolveCallee(
+  codebase: CallGraphSource,
+  graph: CallGraph,
+  filePath: string,
+  className: string | undefined,
+  callee: any,
+  isNew: boolean,
+): string | null {
+  if (callee.type === "Identifier") {
+    const symbol = resolveName(codebase, filePath, callee.name)
+    if (symbol?.kind === "class") {
+      return isNew ? findKey(graph, `${symbol.file}#${symbol.name}.constructor`) : null
+    }
+    return symbol && !isNew ? findKey(graph, getFunctionKey(symbol)) : null
+  }
+
+  if (!callee.type.endsWith("MemberExpression") || callee.computed || callee.property.type !== "Identifier") {
+    return null
+  }
+
+  const method = callee.property.name
+  const object = callee.object
+
+  // this.method() in a method of the same class
+  if (object.type === "ThisExpression" && className) {
+    return findKey(graph, `${filePath}#${className}.${method}`)
+  }
+
+  if (object.type !== "Identifier") {
+    return null
+  }
+
+  // namespace.fn() of import * as namespace
+  const binding = (codebase.bindings[filePath] || []).find((candidate) => candidate.local === object.name)
+  if (binding?.imported === "*") {
+    const symbol = resolveImport(codebase, filePath, { ...binding, imported: method })
+    return symbol ? findKey(graph, getFunctionKey(symbol)) : null
+  }
+
+  // Class.staticMethod()
+  const symbol = resolveName(codebase, filePath, object.name)
+  return symbol?.kind === "class" ? findKey(graph, `${symbol.file}#${symbol.name}.${method}`) : null
+}
+
+/**
+ * Find the top-level symbol a name refers to in a module, declared in it or imported
+ * @param codebase The analyzed codebase
+ * @param filePath The path of the module
+ * @param name The name
+ * @returns The symbol, or null if the name is not declared or imported at the top level
+ */
+function resolveName(codebase: CallGraphSource, filePath: string, name: string): CodeSymbol | null {
+  const local = getFileSymbols(codebase, filePath).find((symbol) => symbol.name === name && !symbol.container)
+  if (local) {
+    return local
+  }
+
+  const binding = (codebase.bindings[filePath] || []).find((candidate) => candidate.local === name)
+  return binding ? resolveImport(codebase, filePath, binding) : null
+}
+
+/**
+ * Check that a function is part of the call graph
+ * @param graph The call graph
+ * @param key The key of the function
+ * @returns The key, or null if there is no such function
+ */
+function findKey(graph: CallGraph, key: string): string | null {
+  return graph.functions.has(key) ? key : null
+}
+
+/**
+ * Visit the calls in a piece of code, including those in nested functions
+ * @param node The AST node to search
+ * @param visit Called with each CallExpression and NewExpression
+ */
+function walkCalls(node: any, visit: (call: any) => void): void {
+  if (!node || typeof node.type !== "string") return
+
+  if (node.type === "CallExpression" || node.type === "OptionalCallExpression" || node.type === "NewExpression") {
+    visit(node)
+  }
+
+  for (const key of Object.keys(node)) {
+    if (NON_CODE_KEYS.has(key)) continue
+
+    const child = node[key]
+    if (Array.isArray(child)) {
+      child.forEach((item) => walkCalls(item, visit))
+    } else if (child && typeof child === "object") {
+      walkCalls(child, visit)
+    }
+  }
+}
+
+/**
+ * Check whether an expression is a function
+ * @param node The expression
+ * @returns Whether it is an arrow function or function expression
+ */
+function isFunction(node: any): boolean {
+  return node?.type === "ArrowFunctionExpression" || node?.type === "FunctionExpression"
+}
+
+/**
+ * Get the code calling a function, to show a model how a function it is about to change is used
+ * @param codebase The analyzed codebase
+ * @param name The name of the function, or of a method optionally qualified with its class
+ * @param filePath The file declaring the function, if known
+ * @param maxCallers The maximum number of callers
+ * @returns For each call, the calling function, or the lines around the call if the function is long
+ */
+export function getCallerSnippets(
+  codebase: CallGraphSource,
+  name: string,
+  filePath: string | undefined,
+  maxCallers: number,
+): Array<{ caller: string; file: string; startLine: number; endLine: number; content: string }> {
+  const graph = getCallGraph(codebase)
+  const calls = findFunctions(graph, name, filePath).flatMap((key) => graph.callers.get(key) || [])
+
+  return calls.slice(0, maxCallers).map((call) => {
+    const caller = graph.functions.get(call.caller)
+    const isShort = caller && caller.endLine - caller.line < MAX_SNIPPET_LINES
+    const startLine = isShort ? caller.line : Math.max(1, call.line - CALL_CONTEXT_LINES)
+    const endLine = isShort ? caller.endLine : call.line + CALL_CONTEXT_LINES
+    const lines = (codebase.files[call.file] || "").split("\n")
+
+    return {
+      caller: call.caller,
+      file: call.file,
+      startLine,
+      endLine: Math.min(endLine, lines.length),
+      content: lines.slice(startLine - 1, endLine).join("\n"),
+    }
+  })
+}
@@ -0,0 +1,128 @@
+import { resolveModulePath } from "./module-resolver"
+import type { ResolverOptions } from "./module-resolver"
+
+/**
+ * Interface for the file dependencies of a codebase, in both directions
+ */
+export interface DependencyGraph {
+  /**
+   * The files each file imports
+   */
+  dependencies: Record<string, string[]>
+  /**
+   * The files importing each file
+   */
+  dependents: Record<string, string[]>
+  /**
+   * The imports of each file that are not files of the codebase, e.g. packages
+   */
+  external: Record<string, string[]>
+}
+
+// Graphs built in this session, by the files of the analyzed codebase
+const graphs = new WeakMap<Record<string, string>, DependencyGraph>()
+
+/**
+ * Get the dependency graph of a codebase, building it on first use
+ * @param codebase The analyzed codebase
+ * @returns The graph
+ */
+export function getDependencyGraph(codebase: {
+  files: Record<string, string>
+  dependencies: Record<string, string[]>
+  resolverOptions?: ResolverOptions
+}): DependencyGraph {
+  let graph = graphs.get(codebase.files)
+
+  if (!graph) {
+    graph = buildDependencyGraph(codebase)
+    graphs.set(codebase.files, graph)
+  }
+
+  return graph
+}
+
+/**
+ * Get the files a file depends on, directly or through other files
+ * @param graph The dependency graph
+ * @param filePath The path of the file
+ * @returns The files, with the number of imports between them and the file, nearest first
+ */
+export function getTransitiveDependencies(
+  graph: DependencyGraph,
+  filePath: string,
+): Array<{ file: string; depth: number }> {
+  return walkGraph(graph.dependencies, filePath)
+}
+
+/**
+ * Get the files depending on a file, directly or through other files: those a change to the file may affect
+ * @param graph The dependency graph
+ * @param filePath The path of the file
+ * @returns The files, with the number of imports between them and the file, nearest first
+ */
+export function getTransitiveDependents(
+  graph: DependencyGraph,
+  filePath: string,
+): Array<{ file: string; depth: number }> {
+  return walkGraph(graph.dependents, filePath)
+}
+
+/**
+ * Build the dependency graph of a codebase by resolving the imports of its files
+ * @param codebase The analyzed codebase
+ * @returns The graph
+ */
+function buildDependencyGraph(codebase: {
+  files: Record<string, string>
+  dependencies: Record<string, string[]>
+  resolverOptions?: ResolverOptions
+}): DependencyGraph {
+  const graph: DependencyGraph = { dependencies: {}, dependents: {}, external: {} }
+
+  for (const [filePath, sources] of Object.entries(codebase.dependencies)) {
+    const dependencies = new Set<string>()
+    const external = new Set<string>()
+
+    for (const source of sources) {
+      const resolved = resolveModulePath(source, filePath, codebase.files, codebase.resolverOptions)
+      if (resolved && resolved !== filePath) {
+        dependencies.add(resolved)
+      } else if (!resolved) {
+        external.add(source)
+      }
+    }
+
+    graph.dependencies[filePath] = [...dependencies]
+    graph.external[filePath] = [...external]
+    for (const dependency of dependencies) {
+      ;(graph.dependents[dependency] ||= []).push(filePath)
+    }
+  }
+
+  return graph
+}
+
+/**
+ * Walk the edges of a graph breadth-first from a file
+ * @param edges The files each file leads to
+ * @param start The file to start from
+ * @returns The reachable files, except the start, with their distance from it
+ */
+function walkGraph(edges: Record<string, string[]>, start: string): Array<{ file: string; depth: number }> {
+  const depths = new Map<string, number>([[start, 0]])
+  const queue = [start]
+
+  while (queue.length > 0) {
+    const file = queue.shift()!
+    for (const next of edges[file] || []) {
+      if (!depths.has(next)) {
+        depths.set(next, depths.get(file)! + 1)
+        queue.push(next)
+      }
+    }
+  }
+
+  depths.delete(start)
+  return [...depths.entries()].map(([file, depth]) => ({ file, depth }))
+}
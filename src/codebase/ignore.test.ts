@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest"
+import { globToRegExp, isIgnored, matchesGlob, parseIgnorePatterns } from "./ignore"
+
+describe("globToRegExp", () => {
+  it("matches * and ? within a path segment", () => {
+    const regex = globToRegExp("src/*.t?")
+
+    expect(regex.test("src/index.ts")).toBe(true)
+    expect(regex.test("src/index.tsx")).toBe(false)
+    expect(regex.test("src/nested/index.ts")).toBe(false)
+  })
+
+  it("matches ** across segments, and **/ any number of directories", () => {
+    expect(globToRegExp("src/**").test("src/a/b/c.ts")).toBe(true)
+    expect(globToRegExp("**/test.ts").test("test.ts")).toBe(true)
+    expect(globToRegExp("**/test.ts").test("a/b/test.ts")).toBe(true)
+    expect(globToRegExp("src/**/*.ts").test("src/index.ts")).toBe(true)
+    expect(globToRegExp("src/**/*.ts").test("lib/index.ts")).toBe(false)
+  })
+
+  it("supports character classes, negated with !", () => {
+    expect(globToRegExp("file[0-9].js").test("file7.js")).toBe(true)
+    expect(globToRegExp("file[!0-9].js").test("file7.js")).toBe(false)
+    expect(globToRegExp("file[!0-9].js").test("fileA.js")).toBe(true)
+    expect(globToRegExp("[]]").test("]")).toBe(true)
+    expect(globToRegExp("[!]]").test("]")).toBe(false)
+    expect(globToRegExp("[!]]").test("a")).toBe(true)
+    expect(globToRegExp("[^a]").test("^")).toBe(true)
+    expect(globToRegExp("[^a]").test("b")).toBe(false)
+  })
+
+  it("matches other characters literally, including escaped ones", () => {
+    expect(globToRegExp("a.b").test("axb")).toBe(false)
+    expect(globToRegExp("a+(b)").test("a+(b)")).toBe(true)
+    expect(globToRegExp("\\*.js").test("*.js")).toBe(true)
+    expect(globToRegExp("\\*.js").test("a.js")).toBe(false)
+    expect(globToRegExp("[unclosed").test("[unclosed")).toBe(true)
+  })
+})
+
+describe("matchesGlob", () => {
+  it("matches globs without a slash at any depth", () => {
+    expect(matchesGlob("*.test.ts", "src/utils/diff.test.ts")).toBe(true)
+    expect(matchesGlob("*.test.ts", "src/utils/diff.ts")).toBe(false)
+  })
+
+  it("matches everything below a matching directory", () => {
+    expect(matchesGlob("node_modules", "packages/app/node_modules/react/index.js")).toBe(true)
+    expect(matchesGlob("src/generated/", "src/generated/types/api.ts")).toBe(true)
+    expect(matchesGlob("/src/generated", "lib/src/generated/api.ts")).toBe(false)
+  })
+})
+
+describe("parseIgnorePatterns", () => {
+  it("skips comments and blank lines, and unescapes leading # and !", () => {
+    const patterns = parseIgnorePatterns("# comment\n\n\\#notes\n\\!important\r\n", "")
+
+    expect(patterns).toHaveLength(2)
+    expect(patterns[0].regex.test("#notes")).toBe(true)
+    expect(patterns[1].regex.test("!important")).toBe(true)
+    expect(patterns.every((pattern) => !pattern.negated)).toBe(true)
+  })
+
+  it("strips unescaped trailing spaces", () => {
+    const [trimmed, escaped] = parseIgnorePatterns("build   \nspace\\ \n", "")
+
+    expect(trimmed.regex.test("build")).toBe(true)
+    expect(escaped.regex.test("space ")).toBe(true)
+  })
+
+  it("reads negation, directory-only and anchored patterns", () => {
+    const [negated, directory, anchored] = parseIgnorePatterns("!keep.log\ndist/\n/root.txt\n", "packages/app")
+
+    expect(negated).toMatchObject({ negated: true, directoryOnly: false, base: "packages/app" })
+    expect(directory).toMatchObject({ negated: false, directoryOnly: true })
+    expect(directory.regex.test("nested/dist")).toBe(true)
+    expect(anchored.regex.test("root.txt")).toBe(true)
+    expect(anchored.regex.test("nested/root.txt")).toBe(false)
+  })
+})
+
+describe("isIgnored", () => {
+  it("lets the last matching pattern decide", () => {
+    const patterns = parseIgnorePatterns("*.log\n!keep.log\n", "")
+
+    expect(isIgnored(patterns, "logs/debug.log", false)).toBe(true)
+    expect(isIgnored(patterns, "logs/keep.log", false)).toBe(false)
+    expect(isIgnored(patterns, "logs/debug.txt", false)).toBe(false)
+  })
+
+  it("only applies directory patterns to directories", () => {
+    const patterns = parseIgnorePatterns("out/\n", "")
+
+    expect(isIgnored(patterns, "out", true)).toBe(true)
+    expect(isIgnored(patterns, "out", false)).toBe(false)
+  })
+
+  it("only applies patterns below the directory of their ignore file", () => {
+    const patterns = [...parseIgnorePatterns("*.tmp\n", ""), ...parseIgnorePatterns("!cache.tmp\n/local\n", "app")]
+
+    expect(isIgnored(patterns, "cache.tmp", false)).toBe(true)
+    expect(isIgnored(patterns, "app/cache.tmp", false)).toBe(false)
+    expect(isIgnored(patterns, "app/local", true)).toBe(true)
+    expect(isIgnored(patterns, "local", true)).toBe(false)
+    expect(isIgnored(patterns, "application/local", true)).toBe(false)
+  })
+})
@@ -0,0 +1,175 @@
+import fs from "fs/promises"
+import path from "path"
+
+/**
+ * Interface for a pattern of an ignore file, in .gitignore syntax
+ */
+export interface IgnorePattern {
+  /**
+   * The directory of the ignore file, relative to the root directory; the pattern only applies below it
+   */
+  base: string
+  regex: RegExp
+  negated: boolean
+  directoryOnly: boolean
+}
+
+// Ignore files read in each directory; patterns of later files take precedence
+const IGNORE_FILES = [".gitignore", ".codeforgeignore"]
+
+/**
+ * Read the ignore files of a directory
+ * @param rootDir The root directory of the codebase
+ * @param directory The directory, relative to the root directory
+ * @returns The patterns of the directory's .gitignore and .codeforgeignore, in order
+ */
+export async function readIgnoreFiles(rootDir: string, directory: string): Promise<IgnorePattern[]> {
+  const patterns: IgnorePattern[] = []
+
+  for (const fileName of IGNORE_FILES) {
+    try {
+      const content = await fs.readFile(path.join(rootDir, directory, fileName), "utf-8")
+      patterns.push(...parseIgnorePatterns(content, directory))
+    } catch (error) {
+      // Most directories have no ignore file
+    }
+  }
+
+  return patterns
+}
+
+/**
+ * Parse the patterns of an ignore file
+ * @param content The content of the ignore file
+ * @param base The directory of the ignore file, relative to the root directory
+ * @returns The patterns
+ */
+export function parseIgnorePatterns(content: string, base: string): IgnorePattern[] {
+  const patterns: IgnorePattern[] = []
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, "")
+    if (!line || line.startsWith("#")) continue
+
+    const negated = line.startsWith("!")
+    if (negated) {
+      line = line.slice(1)
+    } else if (line.startsWith("\\#") || line.startsWith("\\!")) {
+      line = line.slice(1)
+    }
+
+    const directoryOnly = line.endsWith("/")
+    if (directoryOnly) {
+      line = line.slice(0, -1)
+    }
+    if (!line) continue
+
+    // Patterns with a slash are relative to the ignore file's directory, others match at any depth
+    const anchored = line.includes("/")
+    if (line.startsWith("/")) {
+      line = line.slice(1)
+    }
+
+    patterns.push({
+      base: base.split(path.sep).join("/"),
+      regex: globToRegExp(anchored ? line : `**/${line}`),
+      negated,
+      directoryOnly,
+    })
+  }
+
+  return patterns
+}
+
+/**
+ * Check whether patterns ignore a path. As in git, the last matching pattern decides.
+ * @param patterns The patterns, from the least to the most specific ignore file
+ * @param filePath The path, relative to the root directory with forward slashes
+ * @param isDirectory Whether the path is a directory
+ * @returns Whether the path is ignored
+ */
+export function isIgnored(patterns: IgnorePattern[], filePath: string, isDirectory: boolean): boolean {
+  let ignored = false
+
+  for (const pattern of patterns) {
+    if (pattern.directoryOnly && !isDirectory) continue
+
+    let relativePath = filePath
+    if (pattern.base) {
+      if (!filePath.startsWith(`${pattern.base}/`)) continue
+      relativePath = filePath.slice(pattern.base.length + 1)
+    }
+
+    if (pattern.regex.test(relativePath)) {
+      ignored = !pattern.negated
+    }
+  }
+
+  return ignored
+}
+
+/**
+ * Convert a glob to a regular expression matching whole paths with forward slashes.
+ * "*" and "?" match within a path segment, "**" across segments, and "**\/" any number
+ * of directories, including none.
+ * @param glob The glob
+ * @returns The regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = ""
+
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index]
+
+    if (char === "*" && glob[index + 1] === "*") {
+      if (glob[index + 2] === "/") {
+        source += "(?:.*/)?"
+        index += 2
+      } else {
+        source += ".*"
+        index += 1
+      }
+    } else if (char === "*") {
+      source += "[^/]*"
+    } else if (char === "?") {
+      source += "[^/]"
+    } else if (char === "[" && glob.indexOf("]", index + (glob[index + 1] === "!" ? 3 : 2)) !== -1) {
+      // A "]" right after the opening bracket, or after its "!", is part of the class
+      const negated = glob[index + 1] === "!"
+      const end = glob.indexOf("]", index + (negated ? 3 : 2))
+      const members = glob.slice(index + (negated ? 2 : 1), end).replace(/[\]^]/g, "\\$&")
+      source += `[${negated ? "^" : ""}${members}]`
+      index = end
+    } else if (char === "\\" && index + 1 < glob.length) {
+      source += escapeRegExp(glob[++index])
+    } else {
+      source += escapeRegExp(char)
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Check whether a path matches a glob. Globs without a slash match the file name at any depth,
+ * and a glob matching a directory matches everything below it.
+ * @param glob The glob
+ * @param filePath The path, relative to the root directory with forward slashes
+ * @returns Whether the path matches
+ */
+export function matchesGlob(glob: string, filePath: string): boolean {
+  const regex = globToRegExp(glob.includes("/") ? glob.replace(/^\/|\/$/g, "") : `**/${glob}`)
+  const segments = filePath.split("/")
+
+  return segments.some((segment, index) => regex.test(segments.slice(0, index + 1).join("/")))
+}
+
+/**
+ * Escape a character for use in a regular expression
+ * @param char The character
+ * @returns The escaped character
+ */
+function escapeRegExp(char: string): string {
+  return /[.*+?^${}()|[\]\\/]/.test(char) ? `\\${char}` : char
+}
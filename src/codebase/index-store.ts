@@ -0,0 +1,141 @@
+import fs from "fs/promises"
+import path from "path"
+import crypto from "crypto"
+
+/**
+ * Interface for a declaration of a file: a top-level declaration, or a method of a top-level class or interface
+ */
+export interface IndexedSymbol {
+  name: string
+  kind: "function" | "class" | "method" | "variable" | "interface" | "type" | "enum"
+  /**
+   * The range of the declaration; lines start at 1 and columns at 0
+   */
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+  exported: boolean
+  /**
+   * The class or interface declaring a method
+   */
+  container?: string
+  /**
+   * The text of the JSDoc comment preceding the declaration, without the comment markers
+   */
+  jsdoc?: string
+}
+
+/**
+ * Interface for a name an import declaration binds
+ */
+export interface IndexedImport {
+  local: string
+  /**
+   * The exported name, "default" for default imports or "*" for namespace imports
+   */
+  imported: string
+  source: string
+  line: number
+}
+
+/**
+ * Interface for a name an export specifier exports: a local name, a name of another
+ * module, or with "*" all names of another module
+ */
+export interface IndexedReexport {
+  exported: string
+  /**
+   * The local name, or the name exported by the source module
+   */
+  local: string
+  source?: string
+}
+
+/**
+ * Interface for what the index knows about a file, valid as long as its content hash matches
+ */
+export interface FileIndexEntry {
+  hash: string
+  dependencies: string[]
+  imports: string[]
+  exports: string[]
+  symbols: IndexedSymbol[]
+  bindings: IndexedImport[]
+  reexports: IndexedReexport[]
+}
+
+/**
+ * Interface for the persisted index
+ */
+interface StoredFileIndex {
+  version: number
+  files: Record<string, FileIndexEntry>
+}
+
+// Bumped whenever the entries change shape, which discards indexes written by older versions
+const INDEX_VERSION = 5
+
+/**
+ * Compute the hash a file's entry is keyed by
+ * @param content The content of the file
+ * @returns The hash of the content
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash("sha1").update(content).digest("hex")
+}
+
+/**
+ * Load the file index of a codebase
+ * @param rootDir The root directory of the codebase
+ * @returns The entries by file path, relative to the root directory; empty if there is no usable index
+ */
+export async function loadFileIndex(rootDir: string): Promise<Record<string, FileIndexEntry>> {
+  try {
+    const stored: StoredFileIndex = JSON.parse(await fs.readFile(getFileIndexPath(rootDir), "utf-8"))
+    return stored.version === INDEX_VERSION ? stored.files : {}
+  } catch (error) {
+    // The codebase has not been indexed yet, or the index is unreadable and will be rebuilt
+    return {}
+  }
+}
+
+/**
+ * Persist the file index of a codebase
+ * @param rootDir The root directory of the codebase
+ * @param files The entries by file path, relative to the root directory
+ */
+export async function saveFileIndex(rootDir: string, files: Record<string, FileIndexEntry>): Promise<void> {
+  const stored: StoredFileIndex = { version: INDEX_VERSION, files }
+
+  try {
+    await createIndexDirectory(rootDir)
+    // Write to a temporary file first, so that an interrupted write doesn't leave a corrupt index
+    const tempPath = `${getFileIndexPath(rootDir)}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(stored))
+    await fs.rename(tempPath, getFileIndexPath(rootDir))
+  } catch (error) {
+    console.warn("Failed to save the file index:", error)
+  }
+}
+
+/**
+ * Create the directory the indexes of a codebase are kept in. It ignores itself, so that
+ * the indexes don't show up as changes in the codebase's repository.
+ * @param rootDir The root directory of the codebase
+ */
+export async function createIndexDirectory(rootDir: string): Promise<void> {
+  const indexDir = path.join(rootDir, ".codeforge", "index")
+  await fs.mkdir(indexDir, { recursive: true })
+  // "wx" leaves an existing file alone, in case it was edited
+  await fs.writeFile(path.join(indexDir, ".gitignore"), "*\n", { flag: "wx" }).catch(() => {})
+}
+
+/**
+ * Get the path of the file index of a codebase
+ * @param rootDir The root directory of the codebase
+ * @returns The path of the index file
+ */
+function getFileIndexPath(rootDir: string): string {
+  return path.join(rootDir, ".codeforge", "index", "files.json")
+}
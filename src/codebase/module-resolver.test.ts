@@ -0,0 +1,183 @@
+import fs from "fs/promises"
+import os from "os"
+import path from "path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { loadResolverOptions, resolveModulePath } from "./module-resolver"
+import type { ResolverOptions } from "./module-resolver"
+
+/**
+ * Create the files of a codebase, with empty contents
+ * @param paths The paths of the files
+ * @returns The files, by path
+ */
+function createFiles(...paths: string[]): Record<string, string> {
+  return Object.fromEntries(paths.map((filePath) => [filePath, ""]))
+}
+
+describe("resolveModulePath", () => {
+  it("resolves relative imports with or without an extension", () => {
+    const files = createFiles("src/utils/format.ts", "src/components/button.tsx", "src/legacy.js")
+
+    expect(resolveModulePath("./utils/format", "src/index.ts", files)).toBe("src/utils/format.ts")
+    expect(resolveModulePath("../components/button", "src/utils/format.ts", files)).toBe("src/components/button.tsx")
+    expect(resolveModulePath("./legacy.js", "src/index.ts", files)).toBe("src/legacy.js")
+    expect(resolveModulePath("./missing", "src/index.ts", files)).toBeNull()
+  })
+
+  it("resolves the .js extension of ES module imports to TypeScript files", () => {
+    const files = createFiles("src/utils/format.ts", "src/view.tsx")
+
+    expect(resolveModulePath("./utils/format.js", "src/index.ts", files)).toBe("src/utils/format.ts")
+    expect(resolveModulePath("./view.jsx", "src/index.ts", files)).toBe("src/view.tsx")
+  })
+
+  it("resolves directories to their index file", () => {
+    const files = createFiles("src/utils/index.ts")
+
+    expect(resolveModulePath("./utils", "src/index.ts", files)).toBe("src/utils/index.ts")
+  })
+
+  it("leaves package imports unresolved without options", () => {
+    expect(resolveModulePath("react", "src/index.ts", createFiles("react.ts"))).toBeNull()
+  })
+
+  it("prefers an exact path mapping, then the one with the longest prefix", () => {
+    const files = createFiles("src/app.ts", "src/components/button.ts", "lib/components/button.ts", "src/config.ts")
+    const options: ResolverOptions = {
+      paths: [
+        { pattern: "@/*", targets: ["src/*"] },
+        { pattern: "@/components/*", targets: ["lib/components/*"] },
+        { pattern: "@/config", targets: ["src/config"] },
+        { pattern: "@/con*", targets: ["missing/*"] },
+      ],
+      packages: [],
+    }
+
+    expect(resolveModulePath("@/app", "src/index.ts", files, options)).toBe("src/app.ts")
+    expect(resolveModulePath("@/components/button", "src/index.ts", files, options)).toBe("lib/components/button.ts")
+    expect(resolveModulePath("@/config", "src/index.ts", files, options)).toBe("src/config.ts")
+  })
+
+  it("tries the targets of a mapping in order", () => {
+    const files = createFiles("generated/api.ts")
+    const options: ResolverOptions = { paths: [{ pattern: "~/*", targets: ["src/*", "generated/*"] }], packages: [] }
+
+    expect(resolveModulePath("~/api", "src/index.ts", files, options)).toBe("generated/api.ts")
+  })
+
+  it("resolves non-relative imports from baseUrl", () => {
+    const files = createFiles("src/utils/format.ts")
+    const options: ResolverOptions = { baseUrl: "src", paths: [], packages: [] }
+
+    expect(resolveModulePath("utils/format", "src/app/index.ts", files, options)).toBe("src/utils/format.ts")
+    expect(resolveModulePath("lodash", "src/app/index.ts", files, options)).toBeNull()
+  })
+
+  it("resolves the packages of the codebase through their exports", () => {
+    const files = createFiles(
+      "packages/core/src/index.ts",
+      "packages/core/src/features/auth.ts",
+      "packages/ui/lib/main.js",
+      "packages/ui/forms.ts",
+    )
+    const options: ResolverOptions = {
+      paths: [],
+      packages: [
+        {
+          name: "@acme/core",
+          dir: "packages/core",
+          exports: {
+            ".": { types: "./src/index.ts", default: "./dist/index.js" },
+            "./features/*": { import: "./src/features/*.ts" },
+          },
+        },
+        { name: "@acme/ui", dir: "packages/ui", main: "lib/main.js" },
+      ],
+    }
+
+    expect(resolveModulePath("@acme/core", "apps/web/index.ts", files, options)).toBe("packages/core/src/index.ts")
+    expect(resolveModulePath("@acme/core/features/auth", "apps/web/index.ts", files, options)).toBe(
+      "packages/core/src/features/auth.ts",
+    )
+    expect(resolveModulePath("@acme/core/internal", "apps/web/index.ts", files, options)).toBeNull()
+    expect(resolveModulePath("@acme/ui", "apps/web/index.ts", files, options)).toBe("packages/ui/lib/main.js")
+    expect(resolveModulePath("@acme/ui/forms", "apps/web/index.ts", files, options)).toBe("packages/ui/forms.ts")
+    expect(resolveModulePath("@acme/uikit", "apps/web/index.ts", files, options)).toBeNull()
+  })
+})
+
+describe("loadResolverOptions", () => {
+  let rootDir: string
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "codeforge-resolver-"))
+  })
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true })
+  })
+
+  /**
+   * Write a file of the test codebase
+   * @param filePath The path of the file, relative to the root directory
+   * @param content The content of the file
+   */
+  async function writeFile(filePath: string, content: string): Promise<void> {
+    await fs.mkdir(path.dirname(path.join(rootDir, filePath)), { recursive: true })
+    await fs.writeFile(path.join(rootDir, filePath), content)
+  }
+
+  it("returns empty options for a codebase without configuration files", async () => {
+    expect(await loadResolverOptions(rootDir)).toEqual({ paths: [], packages: [] })
+  })
+
+  it("reads baseUrl and paths of a tsconfig.json with comments and trailing commas", async () => {
+    await writeFile(
+      "tsconfig.json",
+      `{
+        // Paths are relative to baseUrl
+        "compilerOptions": {
+          "baseUrl": "./src",
+          "paths": { "@/*": ["./*"], "/* not a comment */": ["./x"], },
+        },
+      }`,
+    )
+
+    expect(await loadResolverOptions(rootDir)).toEqual({
+      baseUrl: "src",
+      paths: [
+        { pattern: "@/*", targets: ["src/*"] },
+        { pattern: "/* not a comment */", targets: ["src/x"] },
+      ],
+      packages: [],
+    })
+  })
+
+  it("inherits options from the configurations it extends, relative to the one setting them", async () => {
+    await writeFile(
+      "config/tsconfig.base.json",
+      JSON.stringify({ compilerOptions: { paths: { "~/*": ["../src/*"] } } }),
+    )
+    await writeFile("tsconfig.json", JSON.stringify({ extends: "./config/tsconfig.base", compilerOptions: {} }))
+
+    const options = await loadResolverOptions(rootDir)
+
+    expect(options.baseUrl).toBeUndefined()
+    expect(options.paths).toEqual([{ pattern: "~/*", targets: ["src/*"] }])
+  })
+
+  it("reads the root package and its workspace packages", async () => {
+    await writeFile("package.json", JSON.stringify({ name: "monorepo", workspaces: ["packages/*", "./tools/"] }))
+    await writeFile("packages/core/package.json", JSON.stringify({ name: "@acme/core", exports: "./src/index.ts" }))
+    await writeFile("packages/private/README.md", "No package.json")
+    await writeFile("tools/package.json", JSON.stringify({ name: "tools", main: "cli.js" }))
+
+    const { packages } = await loadResolverOptions(rootDir)
+
+    expect(packages).toEqual([
+      { name: "monorepo", dir: "", exports: undefined, main: undefined },
+      { name: "@acme/core", dir: "packages/core", exports: "./src/index.ts", main: undefined },
+      { name: "tools", dir: "tools", exports: undefined, main: "cli.js" },
+    ])
+  })
+})
@@ -0,0 +1,327 @@
+import fs from "fs/promises"
+import path from "path"
+
+/**
+ * Interface for what module resolution needs to know about a codebase beyond its files.
+ * Paths are relative to the root directory, with forward slashes.
+ */
+export interface ResolverOptions {
+  /**
+   * The directory non-relative imports are resolved from, from compilerOptions.baseUrl
+   */
+  baseUrl?: string
+  /**
+   * The path mappings of compilerOptions.paths, with the targets relative to the root directory
+   */
+  paths: Array<{ pattern: string; targets: string[] }>
+  /**
+   * The packages of the codebase, which it may import by their name
+   */
+  packages: Array<{ name: string; dir: string; exports?: any; main?: string }>
+}
+
+// Extensions tried, in order, for import sources without one
+const MODULE_EXTENSIONS = [".ts", ".tsx", ".d.ts", ".js", ".jsx", ".mjs", ".cjs"]
+
+// Conditions of package.json exports tried, in order; source and types conditions lead to source files more often
+const EXPORT_CONDITIONS = ["source", "types", "import", "require", "node", "default"]
+
+// Levels of tsconfig "extends" followed
+const MAX_EXTENDS_DEPTH = 5
+
+/**
+ * Read the module resolution settings of a codebase: compilerOptions.baseUrl and paths of its
+ * tsconfig.json or jsconfig.json, and the name and exports of its package.json and workspace packages
+ * @param rootDir The root directory of the codebase
+ * @returns The settings; empty if the codebase has no configuration files
+ */
+export async function loadResolverOptions(rootDir: string): Promise<ResolverOptions> {
+  const options: ResolverOptions = { paths: [], packages: [] }
+
+  for (const configFile of ["tsconfig.json", "jsconfig.json"]) {
+    const compilerOptions = await readCompilerOptions(rootDir, configFile, 0)
+    if (!compilerOptions) continue
+
+    const { baseUrl, paths, configDir } = compilerOptions
+    if (baseUrl !== undefined) {
+      options.baseUrl = toRootPath(rootDir, path.resolve(configDir, baseUrl))
+    }
+    // Paths are relative to baseUrl, or to the configuration file without one
+    const pathsBase = baseUrl !== undefined ? path.resolve(configDir, baseUrl) : configDir
+    for (const [pattern, targets] of Object.entries<string[]>(paths || {})) {
+      options.paths.push({
+        pattern,
+        targets: targets.map((target) => toRootPath(rootDir, path.resolve(pathsBase, target))),
+      })
+    }
+    break
+  }
+
+  const rootPackage = await readJsonFile(path.join(rootDir, "package.json"))
+  if (rootPackage) {
+    addPackage(options, rootPackage, "")
+
+    const workspaces: string[] = Array.isArray(rootPackage.workspaces)
+      ? rootPackage.workspaces
+      : rootPackage.workspaces?.packages || []
+    for (const dir of await expandWorkspaces(rootDir, workspaces)) {
+      const workspacePackage = await readJsonFile(path.join(rootDir, dir, "package.json"))
+      if (workspacePackage) {
+        addPackage(options, workspacePackage, dir)
+      }
+    }
+  }
+
+  return options
+}
+
+/**
+ * Find the file of the codebase an import source refers to
+ * @param source The import source, e.g. "./utils", "@/components/button" or "my-package/feature"
+ * @param fromFile The path of the importing file, relative to the root directory
+ * @param files The files of the codebase, by path relative to the root directory
+ * @param options The module resolution settings of the codebase
+ * @returns The path of the imported file, or null if it is an external package or can't be found
+ */
+export function resolveModulePath(
+  source: string,
+  fromFile: string,
+  files: Record<string, string>,
+  options?: ResolverOptions,
+): string | null {
+  if (source.startsWith(".")) {
+    return resolveFile(path.posix.join(path.posix.dirname(fromFile), source), files)
+  }
+
+  if (!options) {
+    return null
+  }
+
+  // An exact mapping or else the one with the longest prefix before its wildcard applies, as in TypeScript
+  const mapping = options.paths
+    .map(({ pattern, targets }) => ({ match: matchPattern(pattern, source), pattern, targets }))
+    .filter(({ match }) => match !== null)
+    .sort((a, b) => getPrefixLength(b.pattern) - getPrefixLength(a.pattern))[0]
+  if (mapping) {
+    for (const target of mapping.targets) {
+      const resolved = resolveFile(target.replace("*", mapping.match!), files)
+      if (resolved) return resolved
+    }
+  }
+
+  if (options.baseUrl !== undefined) {
+    const resolved = resolveFile(path.posix.join(options.baseUrl, source), files)
+    if (resolved) return resolved
+  }
+
+  const codebasePackage = options.packages.find(({ name }) => source === name || source.startsWith(`${name}/`))
+  if (codebasePackage) {
+    const subpath = `.${source.slice(codebasePackage.name.length)}`
+    const targets = codebasePackage.exports
+      ? resolveExports(codebasePackage.exports, subpath)
+      : [subpath === "." ? codebasePackage.main || "index" : subpath]
+
+    for (const target of targets) {
+      const resolved = resolveFile(path.posix.join(codebasePackage.dir, target), files)
+      if (resolved) return resolved
+    }
+  }
+
+  return null
+}
+
+/**
+ * Find the file a path without or with a different extension refers to
+ * @param base The path, relative to the root directory
+ * @param files The files of the codebase
+ * @returns The path of the file, or null if there is none
+ */
+function resolveFile(base: string, files: Record<string, string>): string | null {
+  // TypeScript modules are imported with the extension of their output in ES modules
+  const withoutExtension = base.replace(/\.(js|jsx|mjs|cjs)$/, "")
+  const candidates = [
+    base,
+    ...MODULE_EXTENSIONS.map((extension) => withoutExtension + extension),
+    ...MODULE_EXTENSIONS.map((extension) => `${base}/index${extension}`),
+  ]
+
+  return candidates.find((candidate) => candidate in files) || null
+}
+
+/**
+ * Find the targets of a subpath in the exports of a package.json
+ * @param exports The exports field
+ * @param subpath The subpath, "." for the package itself
+ * @returns The target paths, relative to the package directory, in the order to try them
+ */
+function resolveExports(exports: any, subpath: string): string[] {
+  const isSubpathMap =
+    typeof exports === "object" && !Array.isArray(exports) && Object.keys(exports).some((key) => key.startsWith("."))
+
+  if (!isSubpathMap) {
+    return subpath === "." ? getConditionTargets(exports) : []
+  }
+
+  if (subpath in exports) {
+    return getConditionTargets(exports[subpath])
+  }
+
+  // The pattern with the longest prefix before its wildcard applies, as in Node.js
+  const [pattern] = Object.keys(exports)
+    .filter((key) => matchPattern(key, subpath) !== null)
+    .sort((a, b) => b.indexOf("*") - a.indexOf("*"))
+  if (!pattern) {
+    return []
+  }
+
+  const match = matchPattern(pattern, subpath)!
+  return getConditionTargets(exports[pattern]).map((target) => target.replace(/\*/g, match))
+}
+
+/**
+ * Get the paths of an exports entry, which may be nested in conditions
+ * @param value The entry
+ * @returns The paths, in the order of EXPORT_CONDITIONS
+ */
+function getConditionTargets(value: any): string[] {
+  if (typeof value === "string") return [value]
+  if (Array.isArray(value)) return value.flatMap(getConditionTargets)
+  if (!value || typeof value !== "object") return []
+
+  return EXPORT_CONDITIONS.filter((condition) => condition in value).flatMap((condition) =>
+    getConditionTargets(value[condition]),
+  )
+}
+
+/**
+ * Match a pattern with at most one "*" wildcard
+ * @param pattern The pattern, e.g. "@/*"
+ * @param value The value to match
+ * @returns The text the wildcard matched, an empty string for a pattern without one, or null if it doesn't match
+ */
+function matchPattern(pattern: string, value: string): string | null {
+  const wildcard = pattern.indexOf("*")
+  if (wildcard === -1) {
+    return pattern === value ? "" : null
+  }
+
+  const prefix = pattern.slice(0, wildcard)
+  const suffix = pattern.slice(wildcard + 1)
+  if (value.length < prefix.length + suffix.length || !value.startsWith(prefix) || !value.endsWith(suffix)) {
+    return null
+  }
+
+  return value.slice(prefix.length, value.length - suffix.length)
+}
+
+/**
+ * Get the length of the part of a pattern before its wildcard
+ * @param pattern The pattern
+ * @returns The length, or Infinity for a pattern without a wildcard, which only matches exactly
+ */
+function getPrefixLength(pattern: string): number {
+  return pattern.includes("*") ? pattern.indexOf("*") : Infinity
+}
+
+/**
+ * Read the compiler options of a tsconfig.json, merged with those of the configurations it extends
+ * @param dir The directory of the configuration file
+ * @param fileName The name of the configuration file
+ * @param depth The number of configurations extended so far
+ * @returns The baseUrl and paths, with the directory they are relative to, or null if there is no configuration
+ */
+async function readCompilerOptions(
+  dir: string,
+  fileName: string,
+  depth: number,
+): Promise<{ baseUrl?: string; paths?: Record<string, string[]>; configDir: string } | null> {
+  const config = await readJsonFile(path.join(dir, fileName))
+  if (!config) {
+    return null
+  }
+
+  // Only configurations in the codebase are followed, not those of packages like @tsconfig/node20
+  const parent =
+    typeof config.extends === "string" && config.extends.startsWith(".") && depth < MAX_EXTENDS_DEPTH
+      ? await readCompilerOptions(
+          path.dirname(path.resolve(dir, config.extends)),
+          path.basename(config.extends.endsWith(".json") ? config.extends : `${config.extends}.json`),
+          depth + 1,
+        )
+      : null
+
+  const { baseUrl, paths } = config.compilerOptions || {}
+  return {
+    baseUrl: baseUrl ?? parent?.baseUrl,
+    paths: paths ?? parent?.paths,
+    // Inherited options stay relative to the configuration that sets them
+    configDir: baseUrl !== undefined || paths !== undefined || !parent ? dir : parent.configDir,
+  }
+}
+
+/**
+ * Add a package of the codebase
+ * @param options The settings to add the package to
+ * @param packageJson The content of the package's package.json
+ * @param dir The directory of the package, relative to the root directory
+ */
+function addPackage(options: ResolverOptions, packageJson: any, dir: string): void {
+  if (typeof packageJson.name === "string") {
+    options.packages.push({ name: packageJson.name, dir, exports: packageJson.exports, main: packageJson.main })
+  }
+}
+
+/**
+ * Find the directories of the workspace packages
+ * @param rootDir The root directory of the codebase
+ * @param workspaces The workspaces field of the root package.json, e.g. ["packages/*"]
+ * @returns The directories, relative to the root directory
+ */
+async function expandWorkspaces(rootDir: string, workspaces: string[]): Promise<string[]> {
+  const dirs: string[] = []
+
+  for (const workspace of workspaces) {
+    const normalized = workspace.replace(/^\.\//, "").replace(/\/$/, "")
+    if (!normalized.endsWith("/*")) {
+      dirs.push(normalized)
+      continue
+    }
+
+    const parent = normalized.slice(0, -2)
+    try {
+      const entries = await fs.readdir(path.join(rootDir, parent), { withFileTypes: true })
+      dirs.push(...entries.filter((entry) => entry.isDirectory()).map((entry) => `${parent}/${entry.name}`))
+    } catch (error) {
+      // The workspace directory doesn't exist
+    }
+  }
+
+  return dirs
+}
+
+/**
+ * Read a JSON file that may contain comments and trailing commas, like tsconfig.json
+ * @param filePath The path of the file
+ * @returns The parsed content, or null if the file doesn't exist or can't be parsed
+ */
+async function readJsonFile(filePath: string): Promise<any | null> {
+  try {
+    const content = await fs.readFile(filePath, "utf-8")
+    const withoutComments = content
+      .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, string) => string ?? "")
+      .replace(/,(\s*[}\]])/g, "$1")
+    return JSON.parse(withoutComments)
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Convert an absolute path to one relative to the root directory, with forward slashes
+ * @param rootDir The root directory
+ * @param absolutePath The absolute path
+ * @returns The relative path
+ */
+function toRootPath(rootDir: string, absolutePath: string): string {
+  return path.relative(rootDir, absolutePath).split(path.sep).join("/")
+}
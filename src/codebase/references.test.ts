@@ -0,0 +1,114 @@
+import { parse } from "@babel/parser"
+import { describe, expect, it } from "vitest"
+import { findReferences, findReferencesAt } from "./references"
+import { extractSymbols } from "./symbols"
+import type { SymbolTableSource } from "./symbols"
+
+/**
+ * Analyze the files of a codebase the way the analyzer does, without reading or caching anything
+ * @param files The content of each file, by path
+ * @returns The symbol table and the ASTs of the files
+ */
+function analyze(files: Record<string, string>): SymbolTableSource & { ast: Record<string, any> } {
+  const codebase = { files, ast: {} as Record<string, any>, symbols: {}, bindings: {}, reexports: {} }
+
+  for (const [file, content] of Object.entries(files)) {
+    const ast = parse(content, { sourceType: "module", plugins: ["typescript", "jsx"] })
+    const { symbols, bindings, reexports } = extractSymbols(ast)
+    codebase.ast[file] = ast
+    Object.assign(codebase.symbols, { [file]: symbols })
+    Object.assign(codebase.bindings, { [file]: bindings })
+    Object.assign(codebase.reexports, { [file]: reexports })
+  }
+
+  return codebase
+}
+
+/**
+ * Summarize references as file:line:column kind, with 1-based columns
+ * @param references The references
+ * @returns The summaries
+ */
+function summarize(references: { file: string; line: number; column: number; kind: string }[]): string[] {
+  return references.map(({ file, line, column, kind }) => `${file}:${line}:${column + 1} ${kind}`)
+}
+
+describe("findReferences", () => {
+  it("includes the uses of a class as a type", () => {
+    const codebase = analyze({
+      "a.ts": "export class Foo {}\n",
+      "b.ts": [
+        'import { Foo } from "./a"',
+        'import * as a from "./a"',
+        "let f: Foo = new Foo()",
+        "const g = (x: Foo): a.Foo => x",
+        "function h<Foo>(x: Foo) {}",
+        "",
+      ].join("\n"),
+    })
+
+    expect(summarize(findReferences("Foo", codebase))).toEqual([
+      "a.ts:1:14 definition",
+      "b.ts:1:10 import",
+      "b.ts:3:8 type",
+      "b.ts:3:18 read",
+      "b.ts:4:15 type",
+      "b.ts:4:23 type",
+    ])
+  })
+
+  it("finds the references of interfaces, type aliases and enums", () => {
+    const codebase = analyze({
+      "types.ts": [
+        "export interface Options { depth: number }",
+        "export type Mode = 'fast' | 'slow'",
+        "export enum Color { Red }",
+        "const color: Color = Color.Red",
+        "",
+      ].join("\n"),
+      "use.ts": [
+        'import type { Options, Mode } from "./types"',
+        'import { Color } from "./types"',
+        "interface Extended extends Options { mode: Mode }",
+        "export const red = Color.Red",
+        "",
+      ].join("\n"),
+    })
+
+    expect(summarize(findReferences("Options", codebase))).toEqual([
+      "types.ts:1:18 definition",
+      "use.ts:1:15 import",
+      "use.ts:3:28 type",
+    ])
+    expect(summarize(findReferences("Mode", codebase))).toEqual([
+      "types.ts:2:13 definition",
+      "use.ts:1:24 import",
+      "use.ts:3:44 type",
+    ])
+    expect(summarize(findReferences("Color", codebase))).toEqual([
+      "types.ts:3:13 definition",
+      "types.ts:4:14 type",
+      "types.ts:4:22 read",
+      "use.ts:2:10 import",
+      "use.ts:4:20 read",
+    ])
+  })
+})
+
+describe("findReferencesAt", () => {
+  it("finds the same references from a use as a type", () => {
+    const codebase = analyze({
+      "a.ts": "export interface Foo {}\nexport const foo: Foo = {}\n",
+      "b.ts": 'import type { Foo } from "./a"\n\nexport function read(value: Foo) {\n  type Foo = string\n}\n',
+    })
+
+    const fromDefinition = findReferencesAt(codebase, "a.ts", 1, 18)
+    expect(findReferencesAt(codebase, "b.ts", 3, 29)).toEqual(fromDefinition)
+    expect(summarize(fromDefinition?.references || [])).toEqual([
+      "a.ts:1:18 definition",
+      "a.ts:2:19 type",
+      "b.ts:1:15 import",
+      "b.ts:3:29 type",
+    ])
+  })
+})
@@ -0,0 +1,599 @@
+import traverse from "@babel/traverse"
+import { getAstFromCache } from "./analyzer"
+import { findDefinitions, resolveImport } from "./symbols"
+import type { CodeSymbol, SymbolTableSource } from "./symbols"
+
+/**
+ * Interface for an occurrence of a symbol in the code
+ */
+export interface SymbolReference {
+  file: string
+  line: number
+  /**
+   * The column, starting at 0 like Babel's
+   */
+  column: number
+  /**
+   * The identifier as written, which is not the symbol's name where it was imported under another name
+   */
+  name: string
+  /**
+   * How the identifier uses the symbol; "type" is a use as a type, e.g. in a type annotation
+   */
+  kind: "definition" | "read" | "write" | "import" | "type"
+  /**
+   * The line of code
+   */
+  context: string
+  /**
+   * Whether the identifier is a shorthand property like { name }, which is both a key and a value
+   */
+  shorthand?: boolean
+}
+
+/**
+ * Interface for the parts of an analyzed codebase references are found in
+ */
+type ReferenceSource = SymbolTableSource & { ast?: Record<string, any> }
+
+/**
+ * Find the references to the top-level symbols with a name, through imports and re-exports.
+ * Object keys, properties and other variables with the same name are not references.
+ * @param symbol The name of the symbol
+ * @param codebase The analyzed codebase
+ * @returns The references, by file and position
+ */
+export function findReferences(symbol: string, codebase: ReferenceSource): SymbolReference[] {
+  const references = findDefinitions(codebase, symbol)
+    .filter((definition) => !definition.container)
+    .flatMap((definition) => findModuleSymbolReferences(codebase, definition.file, definition.name, definition))
+
+  return sortReferences(dedupeReferences(references))
+}
+
+/**
+ * Find the references to the variable, function or class at a position
+ * @param codebase The analyzed codebase
+ * @param filePath The path of the file, relative to the root directory
+ * @param line The line, starting at 1
+ * @param column The column, starting at 1
+ * @returns The name of the symbol and its references, or null if there is no identifier of a declared name at the position
+ */
+export function findReferencesAt(
+  codebase: ReferenceSource,
+  filePath: string,
+  line: number,
+  column: number,
+): { name: string; references: SymbolReference[] } | null {
+  const ast = getAst(codebase, filePath)
+  if (!ast) return null
+
+  let found: { path: any; binding: any } | null = null
+  let typeDeclaration: any = null
+  let namespaceMember: CodeSymbol | null = null
+
+  traverse(ast, {
+    "Identifier|JSXIdentifier"(path: any) {
+      // The location of a parameter includes its type annotation
+      const { start } = path.node.loc
+      const end = start.column + path.node.name.length
+      if (start.line !== line || column - 1 < start.column || column - 1 > end) return
+
+      // A member of a namespace import, e.g. utils.format of import * as utils, or utils.Options in a type
+      const isQualifiedMember = path.parentPath.isTSQualifiedName({ right: path.node })
+      if ((path.parentPath.isMemberExpression({ property: path.node }) && !path.parent.computed) || isQualifiedMember) {
+        const object = isQualifiedMember ? path.parent.left : path.parent.object
+        namespaceMember = resolveNamespaceMember(codebase, filePath, path.scope, object, path.node.name)
+        if (namespaceMember) path.stop()
+        return
+      }
+
+      const { name } = path.node
+      const binding = path.scope.getBinding(name)
+
+      // Types are declared apart from variables, and interfaces, type aliases and enums have no binding
+      if (isTypeDeclarationId(path) || isTypePosition(path) || (!binding && isUntrackedReference(path))) {
+        const declaration = isTypeDeclarationId(path) ? path.node : findTypeDeclaration(path, name)
+        if (declaration?.type !== "Identifier") return
+
+        if (binding?.identifier === declaration) {
+          found = { path, binding }
+        } else {
+          typeDeclaration = declaration
+        }
+        path.stop()
+        return
+      }
+
+      const isReference =
+        path.isReferencedIdentifier() ||
+        path.isBindingIdentifier() ||
+        path.parentPath.isImportSpecifier() ||
+        path.parentPath.isExportSpecifier()
+      if (binding && isReference) {
+        found = { path, binding }
+        path.stop()
+      }
+    },
+  })
+
+  if (typeDeclaration) {
+    const declaration = typeDeclaration
+    const name: string = declaration.name
+    const origin = ast.program.body.some((statement: any) => getTypeDeclarationId(statement, name) === declaration)
+      ? getFileSymbol(codebase, filePath, name)
+      : null
+
+    return {
+      name,
+      references: sortReferences(
+        origin
+          ? dedupeReferences(findModuleSymbolReferences(codebase, filePath, name, origin))
+          : getTypeDeclarationReferences(getProgramPath(ast), declaration, filePath, codebase.files[filePath]),
+      ),
+    }
+  }
+
+  if (namespaceMember) {
+    const symbol: CodeSymbol = namespaceMember
+    return {
+      name: symbol.name,
+      references: sortReferences(
+        dedupeReferences(findModuleSymbolReferences(codebase, symbol.file, symbol.name, symbol)),
+      ),
+    }
+  }
+  if (!found) return null
+
+  const { path, binding } = found as { path: any; binding: any }
+  const name = binding.identifier.name
+
+  // Variables local to a function are only referenced in their scope
+  if (!binding.scope.path.isProgram()) {
+    return { name, references: sortReferences(getBindingReferences(binding, filePath, codebase.files[filePath])) }
+  }
+
+  // Imported names are references to the symbol of the module they come from
+  const importBinding = (codebase.bindings[filePath] || []).find((candidate) => candidate.local === name)
+  const origin = importBinding
+    ? resolveImport(codebase, filePath, importBinding)
+    : getFileSymbol(codebase, filePath, name)
+
+  if (!origin) {
+    // A package import, or a top-level name the symbol table doesn't list, like a destructured parameter default
+    return {
+      name: path.node.name,
+      references: sortReferences(getBindingReferences(binding, filePath, codebase.files[filePath])),
+    }
+  }
+
+  return {
+    name: origin.name,
+    references: sortReferences(
+      dedupeReferences(findModuleSymbolReferences(codebase, origin.file, origin.name, origin)),
+    ),
+  }
+}
+
+/**
+ * Find the references to a top-level symbol of a module, in the module and in the modules importing it
+ * @param codebase The analyzed codebase
+ * @param filePath The path of the module declaring the symbol
+ * @param name The name of the symbol
+ * @param origin The symbol
+ * @returns The references
+ */
+function findModuleSymbolReferences(
+  codebase: ReferenceSource,
+  filePath: string,
+  name: string,
+  origin: CodeSymbol,
+): SymbolReference[] {
+  const references: SymbolReference[] = []
+  const isOrigin = (symbol: CodeSymbol | null) =>
+    symbol !== null && symbol.file === origin.file && symbol.name === origin.name && symbol.line === origin.line
+
+  const declaringAst = getAst(codebase, filePath)
+  if (declaringAst) {
+    const program = getProgramPath(declaringAst)
+    const declaringBinding = program.scope.getBinding(name)
+    const typeDeclaration = program.node.body
+      .map((statement: any) => getTypeDeclarationId(statement, name))
+      .find((id: any) => id?.type === "Identifier")
+
+    if (declaringBinding) {
+      references.push(...getBindingReferences(declaringBinding, filePath, codebase.files[filePath]))
+    } else if (typeDeclaration) {
+      references.push(...getTypeDeclarationReferences(program, typeDeclaration, filePath, codebase.files[filePath]))
+    }
+  }
+
+  for (const importingFile of Object.keys(codebase.symbols)) {
+    if (importingFile === filePath) continue
+
+    const bindings = (codebase.bindings[importingFile] || []).filter(
+      (binding) => binding.imported !== "*" && isOrigin(resolveImport(codebase, importingFile, binding)),
+    )
+    const namespaces = (codebase.bindings[importingFile] || []).filter(
+      (binding) =>
+        binding.imported === "*" && isOrigin(resolveImport(codebase, importingFile, { ...binding, imported: name })),
+    )
+    const reexports = (codebase.reexports[importingFile] || []).filter(
+      (reexport) =>
+        reexport.source &&
+        reexport.local !== "*" &&
+        isOrigin(
+          resolveImport(codebase, importingFile, {
+            local: reexport.exported,
+            imported: reexport.local,
+            source: reexport.source,
+            line: 0,
+          }),
+        ),
+    )
+    if (bindings.length + namespaces.length + reexports.length === 0) continue
+
+    const ast = getAst(codebase, importingFile)
+    if (!ast) continue
+    const content = codebase.files[importingFile]
+
+    const program = getProgramPath(ast)
+    for (const binding of bindings) {
+      const programBinding = program.scope.getBinding(binding.local)
+      if (programBinding) {
+        references.push(...getBindingReferences(programBinding, importingFile, content))
+      }
+    }
+
+    traverse(ast, {
+      ExportSpecifier(path: any) {
+        const source = path.parent.source?.value
+        if (
+          source &&
+          reexports.some((reexport) => reexport.source === source && reexport.local === path.node.local.name)
+        ) {
+          references.push(createReference(path.node.local, importingFile, content, "import"))
+        }
+      },
+      "MemberExpression|TSQualifiedName"(path: any) {
+        const isType = path.isTSQualifiedName()
+        const object = isType ? path.node.left : path.node.object
+        const property = isType ? path.node.right : path.node.property
+        if (
+          !path.node.computed &&
+          object.type === "Identifier" &&
+          property.name === name &&
+          namespaces.some((namespace) => path.scope.getBinding(object.name)?.identifier.name === namespace.local) &&
+          path.scope.getBinding(object.name)?.scope.path.isProgram()
+        ) {
+          references.push(createReference(property, importingFile, content, isType ? "type" : "read"))
+        }
+      },
+    })
+  }
+
+  return references
+}
+
+/**
+ * Get the references of a Babel scope binding
+ * @param binding The binding
+ * @param filePath The path of the file
+ * @param content The content of the file
+ * @returns The declaration, the reads, the writes and the uses as a type of the binding
+ */
+function getBindingReferences(binding: any, filePath: string, content: string): SymbolReference[] {
+  const references: SymbolReference[] = []
+  // Names of import type declarations are bindings of an unknown kind
+  const isImport = binding.path.parentPath?.isImportDeclaration()
+
+  if (isImport) {
+    // The imported name as well as the local one, which are the same node position unless renamed
+    const specifier = binding.path.node
+    if (specifier.imported && specifier.imported.start !== specifier.local.start) {
+      references.push(createReference(specifier.imported, filePath, content, "import"))
+    }
+  }
+  references.push(createReference(binding.identifier, filePath, content, isImport ? "import" : "definition"))
+
+  for (const referencePath of binding.referencePaths) {
+    // Exported declarations count the export itself as a reference, and x++ is listed as a write below
+    if (!referencePath.isIdentifier() && !referencePath.isJSXIdentifier()) continue
+    if (referencePath.parentPath.isUpdateExpression()) continue
+    // Babel also lists some uses as a type, and the names of types declared in nested blocks
+    if (isTypePosition(referencePath) || isTypeDeclarationId(referencePath)) continue
+
+    references.push(createReference(referencePath.node, filePath, content, "read", isShorthand(referencePath)))
+  }
+
+  for (const violationPath of binding.constantViolations) {
+    const node = violationPath.node
+    const identifiers =
+      node.type === "UpdateExpression"
+        ? [node.argument]
+        : [violationPath.getBindingIdentifiers(true)[binding.identifier.name]].flat()
+
+    for (const identifier of identifiers) {
+      if (identifier?.type === "Identifier") {
+        references.push(createReference(identifier, filePath, content, "write"))
+      }
+    }
+  }
+
+  // Babel doesn't count uses as a type, like the Foo of let value: Foo, as references
+  references.push(...getTypeReferences(binding.scope.path, binding.identifier, filePath, content))
+
+  return references
+}
+
+/**
+ * Get the references of an interface, type alias or enum, which have no Babel scope binding
+ * @param rootPath The path of the program or block declaring it
+ * @param declaration The identifier naming it in its declaration
+ * @param filePath The path of the file
+ * @param content The content of the file
+ * @returns The declaration and the uses of the name
+ */
+function getTypeDeclarationReferences(
+  rootPath: any,
+  declaration: any,
+  filePath: string,
+  content: string,
+): SymbolReference[] {
+  return [
+    createReference(declaration, filePath, content, "definition"),
+    ...getTypeReferences(rootPath, declaration, filePath, content),
+  ]
+}
+
+/**
+ * Find the identifiers below a path that refer to a declaration, but that Babel doesn't list as
+ * references of a binding: uses as a type, and uses of enums, which have no binding
+ * @param rootPath The path to search below
+ * @param declaration The identifier naming the declaration
+ * @param filePath The path of the file
+ * @param content The content of the file
+ * @returns The references
+ */
+function getTypeReferences(rootPath: any, declaration: any, filePath: string, content: string): SymbolReference[] {
+  const references: SymbolReference[] = []
+  const { name } = declaration
+
+  rootPath.traverse({
+    Identifier(path: any) {
+      if (path.node.name !== name || path.node === declaration) return
+
+      const isType = isTypePosition(path)
+      if (!isType && (path.scope.getBinding(name) || !isUntrackedReference(path))) return
+
+      if (findTypeDeclaration(path, name) === declaration) {
+        references.push(createReference(path.node, filePath, content, isType ? "type" : "read"))
+      }
+    },
+  })
+
+  return references
+}
+
+/**
+ * Check whether an identifier names a type where it is used, like the Foo of let value: Foo,
+ * ns of ns.Foo, or Foo of class Bar implements Foo
+ * @param path The path of the identifier
+ * @returns Whether the identifier is used as a type
+ */
+export function isTypePosition(path: any): boolean {
+  const { parentPath } = path
+
+  if (parentPath.isTSTypeReference() && path.key === "typeName") return true
+  if (parentPath.isTSExpressionWithTypeArguments() && path.key === "expression") return true
+  // Only the first name of a qualified name is resolved in the scope
+  return parentPath.isTSQualifiedName() && path.key === "left" && isTypePosition(parentPath)
+}
+
+/**
+ * Check whether an identifier is the name of an interface, type alias or enum declaration
+ * @param path The path of the identifier
+ * @returns Whether the identifier declares a type without a Babel binding
+ */
+export function isTypeDeclarationId(path: any): boolean {
+  return (
+    path.key === "id" &&
+    (path.parentPath.isTSInterfaceDeclaration() ||
+      path.parentPath.isTSTypeAliasDeclaration() ||
+      path.parentPath.isTSEnumDeclaration())
+  )
+}
+
+/**
+ * Check whether an identifier is a value reference Babel may not track, because it refers to an
+ * enum, like the Color of Color.Red, or is exported by a local export { name }
+ * @param path The path of the identifier
+ * @returns Whether the identifier is such a reference
+ */
+function isUntrackedReference(path: any): boolean {
+  if (path.parentPath.isExportSpecifier()) {
+    return path.key === "local" && !path.parentPath.parent.source
+  }
+  return path.isReferencedIdentifier()
+}
+
+/**
+ * Find the declaration a name used as a type refers to, searching the enclosing blocks outwards
+ * @param path The path of the identifier
+ * @param name The name
+ * @returns The identifier naming the class, interface, type alias, enum or import declaring it,
+ * the type parameter declaring it, or null if it is a global
+ */
+export function findTypeDeclaration(path: any, name: string): any | null {
+  for (let current = path.parentPath; current; current = current.parentPath) {
+    const typeParameters = current.node.typeParameters
+    if (typeParameters?.type === "TSTypeParameterDeclaration") {
+      const parameter = typeParameters.params.find((candidate: any) => candidate.name === name)
+      if (parameter) return parameter
+    }
+
+    if (current.isProgram() || current.isBlockStatement() || current.isTSModuleBlock()) {
+      for (const statement of current.node.body) {
+        const id = getTypeDeclarationId(statement, name)
+        if (id) return id
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Get the identifier a statement declares a name with, if the name can be used as a type
+ * @param statement The statement
+ * @param name The name
+ * @returns The identifier, or null if the statement doesn't declare a class, interface, type alias,
+ * enum or import with the name
+ */
+function getTypeDeclarationId(statement: any, name: string): any | null {
+  const declaration =
+    statement.type === "ExportNamedDeclaration" || statement.type === "ExportDefaultDeclaration"
+      ? statement.declaration
+      : statement
+
+  switch (declaration?.type) {
+    case "ClassDeclaration":
+    case "TSInterfaceDeclaration":
+    case "TSTypeAliasDeclaration":
+    case "TSEnumDeclaration":
+      return declaration.id?.name === name ? declaration.id : null
+    case "ImportDeclaration":
+      return declaration.specifiers.find((specifier: any) => specifier.local.name === name)?.local || null
+    default:
+      return null
+  }
+}
+
+/**
+ * Find the symbol a member of a namespace import refers to
+ * @param codebase The analyzed codebase
+ * @param filePath The path of the file
+ * @param scope The scope of the member, e.g. utils.format or utils.Options
+ * @param object The object node, e.g. utils
+ * @param member The name of the member
+ * @returns The symbol, or null if the object is not a namespace import of a module of the codebase
+ */
+function resolveNamespaceMember(
+  codebase: ReferenceSource,
+  filePath: string,
+  scope: any,
+  object: any,
+  member: string,
+): CodeSymbol | null {
+  if (object.type !== "Identifier" || !scope.getBinding(object.name)?.scope.path.isProgram()) {
+    return null
+  }
+
+  const binding = (codebase.bindings[filePath] || []).find(
+    (candidate) => candidate.local === object.name && candidate.imported === "*",
+  )
+  return binding ? resolveImport(codebase, filePath, { ...binding, imported: member }) : null
+}
+
+/**
+ * Get the path of the program of a module, whose scope holds its top-level bindings
+ * @param ast The AST of the module
+ * @returns The path
+ */
+function getProgramPath(ast: any): any {
+  let program = null
+
+  traverse(ast, {
+    Program(path: any) {
+      program = path
+      path.stop()
+    },
+  })
+
+  return program
+}
+
+/**
+ * Get the top-level symbol of a file with a name
+ * @param codebase The analyzed codebase
+ * @param filePath The path of the file
+ * @param name The name
+ * @returns The symbol, or null if the symbol table doesn't list one
+ */
+function getFileSymbol(codebase: ReferenceSource, filePath: string, name: string): CodeSymbol | null {
+  const symbol = (codebase.symbols[filePath] || []).find((candidate) => candidate.name === name && !candidate.container)
+  return symbol ? { ...symbol, file: filePath } : null
+}
+
+/**
+ * Get the AST of a file of the codebase
+ * @param codebase The analyzed codebase
+ * @param filePath The path of the file
+ * @returns The AST, or null if the file is not a parsable JavaScript or TypeScript file
+ */
+function getAst(codebase: ReferenceSource, filePath: string): any | null {
+  return codebase.ast?.[filePath] || getAstFromCache(filePath)
+}
+
+/**
+ * Check whether a reference is the value of a shorthand property, like { name } or const { name } = value
+ * @param path The path of the identifier
+ * @returns Whether the identifier is a shorthand property
+ */
+function isShorthand(path: any): boolean {
+  return (path.parentPath.isObjectProperty() || path.parentPath.isProperty()) && Boolean(path.parent.shorthand)
+}
+
+/**
+ * Create a reference for an identifier
+ * @param identifier The identifier node
+ * @param filePath The path of the file
+ * @param content The content of the file
+ * @param kind How the identifier uses the symbol
+ * @param shorthand Whether the identifier is a shorthand property
+ * @returns The reference
+ */
+function createReference(
+  identifier: any,
+  filePath: string,
+  content: string,
+  kind: SymbolReference["kind"],
+  shorthand = false,
+): SymbolReference {
+  const { line, column } = identifier.loc.start
+
+  return {
+    file: filePath,
+    line,
+    column,
+    name: identifier.name,
+    kind,
+    context: content.split("\n")[line - 1].trim(),
+    ...(shorthand && { shorthand }),
+  }
+}
+
+/**
+ * Remove references found twice, e.g. the imported and local names of import { name }
+ * @param references The references
+ * @returns The references, each position once
+ */
+function dedupeReferences(references: SymbolReference[]): SymbolReference[] {
+  const seen = new Set<string>()
+
+  return references.filter((reference) => {
+    const key = `${reference.file}:${reference.line}:${reference.column}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Sort references by file and position
+ * @param references The references
+ * @returns The sorted references
+ */
+function sortReferences(references: SymbolReference[]): SymbolReference[] {
+  return [...references].sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column)
+}
@@ -0,0 +1,217 @@
+import fs from "fs/promises"
+import os from "os"
+import path from "path"
+import { parse } from "@babel/parser"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { applyRename, getRenameDiff, planRename } from "./rename"
+import { extractSymbols } from "./symbols"
+import type { SymbolTableSource } from "./symbols"
+
+/**
+ * Analyze the files of a codebase the way the analyzer does, without reading or caching anything
+ * @param files The content of each file, by path
+ * @returns The symbol table and the ASTs of the files
+ */
+function analyze(files: Record<string, string>): SymbolTableSource & { ast: Record<string, any> } {
+  const codebase = { files, ast: {} as Record<string, any>, symbols: {}, bindings: {}, reexports: {} }
+
+  for (const [file, content] of Object.entries(files)) {
+    const ast = parse(content, { sourceType: "module", plugins: ["typescript", "jsx"] })
+    const { symbols, bindings, reexports } = extractSymbols(ast)
+    codebase.ast[file] = ast
+    Object.assign(codebase.symbols, { [file]: symbols })
+    Object.assign(codebase.bindings, { [file]: bindings })
+    Object.assign(codebase.reexports, { [file]: reexports })
+  }
+
+  return codebase
+}
+
+describe("planRename", () => {
+  const files = {
+    "src/format.ts": "export function format(value: number) {\n  return value.toFixed(2)\n}\n",
+    "src/report.ts": [
+      'import { format } from "./format"',
+      'import * as formatting from "./format"',
+      "",
+      "export const report = (total: number) => ({ format, text: format(total), alt: formatting.format(total) })",
+      "",
+    ].join("\n"),
+    "src/index.ts": 'export { format as formatNumber } from "./format"\n',
+    "src/alias.ts":
+      'import { format as fmt } from "./format"\n\nexport const twice = (value: number) => fmt(fmt(value))\n',
+  }
+
+  it("renames a symbol where it is declared, imported and used, keeping the names it is imported under", () => {
+    const plan = planRename(analyze(files), "src/format.ts", 1, 17, "formatAmount")
+
+    expect(plan.oldName).toBe("format")
+    expect(plan.files.map(({ file, updated }) => [file, updated])).toEqual([
+      ["src/alias.ts", files["src/alias.ts"].replace("{ format as", "{ formatAmount as")],
+      ["src/format.ts", files["src/format.ts"].replace("function format", "function formatAmount")],
+      ["src/index.ts", 'export { formatAmount as formatNumber } from "./format"\n'],
+      [
+        "src/report.ts",
+        [
+          'import { formatAmount } from "./format"',
+          'import * as formatting from "./format"',
+          "",
+          "export const report = (total: number) => ({ format: formatAmount, text: formatAmount(total), alt: formatting.formatAmount(total) })",
+          "",
+        ].join("\n"),
+      ],
+    ])
+  })
+
+  it("renames from any reference of the symbol", () => {
+    const fromDefinition = planRename(analyze(files), "src/format.ts", 1, 17, "formatAmount")
+
+    expect(planRename(analyze(files), "src/report.ts", 4, 59, "formatAmount")).toEqual(fromDefinition)
+    expect(planRename(analyze(files), "src/report.ts", 4, 90, "formatAmount")).toEqual(fromDefinition)
+  })
+
+  it("renames variables local to a function in that function only", () => {
+    const content = "function a() {\n  let count = 1\n  count++\n  return count\n}\nconst count = 2\n"
+    const plan = planRename(analyze({ "a.ts": content }), "a.ts", 3, 3, "total")
+
+    expect(plan.files[0].updated).toBe(
+      "function a() {\n  let total = 1\n  total++\n  return total\n}\nconst count = 2\n",
+    )
+  })
+
+  it("refuses names that are invalid, reserved or unchanged", () => {
+    const codebase = analyze(files)
+
+    expect(() => planRename(codebase, "src/format.ts", 1, 17, "2fast")).toThrow("2fast is not a valid name")
+    expect(() => planRename(codebase, "src/format.ts", 1, 17, "class")).toThrow("class is not a valid name")
+    expect(() => planRename(codebase, "src/format.ts", 1, 17, "format")).toThrow("format already has that name")
+  })
+
+  it("refuses positions without a symbol of the codebase", () => {
+    const codebase = analyze({ ...files, "src/package.ts": 'import { readFile } from "fs"\n\nreadFile("a")\n' })
+
+    expect(() => planRename(codebase, "src/format.ts", 2, 1, "x")).toThrow("No variable, function, class or type")
+    expect(() => planRename(codebase, "src/alias.ts", 3, 41, "x")).toThrow(
+      "fmt is imported under another name; rename format where it is declared instead",
+    )
+    expect(() => planRename(codebase, "src/package.ts", 3, 1, "read")).toThrow("readFile is not declared")
+  })
+
+  it("refuses a new name already declared where the symbol is used", () => {
+    const codebase = analyze({
+      ...files,
+      "src/format.ts":
+        "const rounded = 1\n\nexport function format(value: number) {\n  return value.toFixed(rounded)\n}\n",
+    })
+
+    expect(() => planRename(codebase, "src/format.ts", 3, 17, "rounded")).toThrow(
+      "rounded is already declared at src/format.ts:1",
+    )
+    expect(() => planRename(codebase, "src/format.ts", 3, 17, "value")).toThrow("value is already declared")
+  })
+
+  it("refuses a new name that would hide a global a file uses", () => {
+    expect(() => planRename(analyze(files), "src/format.ts", 1, 17, "Number")).not.toThrow()
+
+    const codebase = analyze({ ...files, "src/report.ts": "import { format } from './format'\n\nformat(Math.PI)\n" })
+    expect(() => planRename(codebase, "src/format.ts", 1, 17, "Math")).toThrow("src/report.ts uses the global Math")
+  })
+
+  it("renames a class where it is used as a type", () => {
+    const codebase = analyze({
+      "a.ts": "export class Foo {}\n",
+      "b.ts": 'import { Foo } from "./a"\n\nlet f: Foo = new Foo()\nconst g = (x: Foo): Foo[] => [x]\n',
+    })
+
+    const plan = planRename(codebase, "b.ts", 4, 15, "Bar")
+
+    expect(plan.files.map(({ file, updated }) => [file, updated])).toEqual([
+      ["a.ts", "export class Bar {}\n"],
+      ["b.ts", 'import { Bar } from "./a"\n\nlet f: Bar = new Bar()\nconst g = (x: Bar): Bar[] => [x]\n'],
+    ])
+  })
+
+  it("renames type aliases and interfaces", () => {
+    const codebase = analyze({
+      "types.ts": "export type Mode = 'fast' | 'slow'\nexport interface Options {\n  mode: Mode\n}\n",
+      "use.ts": [
+        'import type { Mode, Options } from "./types"',
+        'import * as types from "./types"',
+        "",
+        "export const run = (options: Options, mode: types.Mode = options.mode): Mode => mode",
+        "",
+      ].join("\n"),
+    })
+
+    expect(planRename(codebase, "types.ts", 1, 13, "Speed").files.map(({ updated }) => updated)).toEqual([
+      "export type Speed = 'fast' | 'slow'\nexport interface Options {\n  mode: Speed\n}\n",
+      [
+        'import type { Speed, Options } from "./types"',
+        'import * as types from "./types"',
+        "",
+        "export const run = (options: Options, mode: types.Speed = options.mode): Speed => mode",
+        "",
+      ].join("\n"),
+    ])
+    expect(planRename(codebase, "use.ts", 4, 30, "Settings").files[0].updated).toContain("export interface Settings {")
+  })
+
+  it("refuses a new name already declared as a type where the symbol is used as one", () => {
+    const codebase = analyze({
+      "a.ts":
+        "export class Foo {}\n\ninterface Bar {}\nconst Baz = 1\nfunction make<Qux>(): Foo | Qux | Promise<Qux> {}\n",
+    })
+
+    expect(() => planRename(codebase, "a.ts", 1, 14, "Bar")).toThrow("Bar is already declared at a.ts:3")
+    expect(() => planRename(codebase, "a.ts", 1, 14, "Qux")).toThrow("Qux is already declared at a.ts:5")
+    expect(() => planRename(codebase, "a.ts", 1, 14, "Promise")).toThrow("a.ts uses the global Promise")
+    expect(() => planRename(codebase, "a.ts", 3, 11, "Baz")).not.toThrow()
+  })
+
+  it("refuses a lowercase name for a component used as a JSX element", () => {
+    const codebase = analyze({ "app.tsx": "function Button() {\n  return null\n}\n\nexport const app = <Button />\n" })
+
+    expect(() => planRename(codebase, "app.tsx", 1, 10, "button")).toThrow("used as a JSX element")
+    expect(planRename(codebase, "app.tsx", 1, 10, "PrimaryButton").files[0].updated).toContain("<PrimaryButton />")
+  })
+})
+
+describe("applyRename", () => {
+  let rootDir: string
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "codeforge-rename-"))
+  })
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true })
+  })
+
+  const files = {
+    "a.ts": "export const total = 1\n",
+    "b.ts": 'import { total } from "./a"\n\nconsole.log(total)\n',
+  }
+
+  it("writes every changed file, and shows the change as a diff", async () => {
+    await Promise.all(Object.entries(files).map(([file, content]) => fs.writeFile(path.join(rootDir, file), content)))
+    const plan = planRename(analyze(files), "a.ts", 1, 14, "sum")
+
+    await applyRename(rootDir, plan)
+
+    expect(await fs.readFile(path.join(rootDir, "a.ts"), "utf-8")).toBe("export const sum = 1\n")
+    expect(await fs.readFile(path.join(rootDir, "b.ts"), "utf-8")).toBe(
+      'import { sum } from "./a"\n\nconsole.log(sum)\n',
+    )
+    expect(await fs.readdir(rootDir)).toEqual(["a.ts", "b.ts"])
+    expect(getRenameDiff(plan)).toContain("--- a/b.ts\n+++ b/b.ts\n@@ -1,3 +1,3 @@\n")
+  })
+
+  it("writes nothing if a file changed since the rename was planned", async () => {
+    await fs.writeFile(path.join(rootDir, "a.ts"), files["a.ts"])
+    await fs.writeFile(path.join(rootDir, "b.ts"), "// edited\n")
+    const plan = planRename(analyze(files), "a.ts", 1, 14, "sum")
+
+    await expect(applyRename(rootDir, plan)).rejects.toThrow("b.ts changed since the rename was planned")
+    expect(await fs.readFile(path.join(rootDir, "a.ts"), "utf-8")).toBe(files["a.ts"])
+  })
+})
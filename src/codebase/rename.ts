@@ -0,0 +1,337 @@
+import fs from "fs/promises"
+import path from "path"
+import traverse from "@babel/traverse"
+import { getAstFromCache } from "./analyzer"
+import { findReferencesAt, findTypeDeclaration, isTypeDeclarationId, isTypePosition } from "./references"
+import type { SymbolReference } from "./references"
+import type { SymbolTableSource } from "./symbols"
+import { createUnifiedDiff } from "../utils/diff"
+
+/**
+ * Interface for the replacement of one occurrence of a name
+ */
+export interface RenameEdit {
+  file: string
+  /**
+   * The position of the name; lines start at 1 and columns at 0
+   */
+  line: number
+  column: number
+  oldText: string
+  newText: string
+}
+
+/**
+ * Interface for the changes renaming a symbol makes to the files of a codebase
+ */
+export interface RenamePlan {
+  oldName: string
+  newName: string
+  edits: RenameEdit[]
+  files: Array<{ file: string; original: string; updated: string }>
+}
+
+// Words that can't be used as the name of a variable, function or class
+const RESERVED_WORDS = new Set([
+  "arguments",
+  "await",
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "debugger",
+  "default",
+  "delete",
+  "do",
+  "else",
+  "enum",
+  "eval",
+  "export",
+  "extends",
+  "false",
+  "finally",
+  "for",
+  "function",
+  "if",
+  "implements",
+  "import",
+  "in",
+  "instanceof",
+  "interface",
+  "let",
+  "new",
+  "null",
+  "package",
+  "private",
+  "protected",
+  "public",
+  "return",
+  "static",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "typeof",
+  "undefined",
+  "var",
+  "void",
+  "while",
+  "with",
+  "yield",
+])
+
+/**
+ * Work out the edits renaming the variable, function, class or type at a position, in every file referencing it.
+ * Nothing is written; the plan is rejected with an error if the new name would change what any name refers to.
+ * @param codebase The analyzed codebase
+ * @param filePath The path of the file, relative to the root directory
+ * @param line The line, starting at 1
+ * @param column The column, starting at 1
+ * @param newName The new name
+ * @returns The edits and the updated content of each file
+ */
+export function planRename(
+  codebase: SymbolTableSource & { ast?: Record<string, any> },
+  filePath: string,
+  line: number,
+  column: number,
+  newName: string,
+): RenamePlan {
+  if (!/^[A-Za-z_$][\w$]*$/.test(newName) || RESERVED_WORDS.has(newName)) {
+    throw new Error(`${newName} is not a valid name`)
+  }
+
+  const result = findReferencesAt(codebase, filePath, line, column)
+  if (!result) {
+    throw new Error(`No variable, function, class or type at ${filePath}:${line}:${column}`)
+  }
+
+  const { name: oldName, references } = result
+  const target = references.find(
+    (reference) =>
+      reference.file === filePath &&
+      reference.line === line &&
+      column - 1 >= reference.column &&
+      column - 1 <= reference.column + reference.name.length,
+  )
+  if (target && target.name !== oldName) {
+    throw new Error(`${target.name} is imported under another name; rename ${oldName} where it is declared instead`)
+  }
+  if (!references.some((reference) => reference.kind === "definition")) {
+    throw new Error(`${oldName} is not declared in the codebase`)
+  }
+  if (newName === oldName) {
+    throw new Error(`${oldName} already has that name`)
+  }
+
+  // Names an import or re-export gives the symbol stay as they are
+  const renamed = references.filter((reference) => reference.name === oldName)
+  const files = [...new Set(renamed.map((reference) => reference.file))]
+  const edits = files.flatMap((file) =>
+    planFileEdits(
+      codebase.ast?.[file] || getAstFromCache(file),
+      file,
+      renamed.filter((reference) => reference.file === file),
+      newName,
+    ),
+  )
+
+  return {
+    oldName,
+    newName,
+    edits,
+    files: files.map((file) => ({
+      file,
+      original: codebase.files[file],
+      updated: applyEdits(
+        codebase.files[file],
+        edits.filter((edit) => edit.file === file),
+      ),
+    })),
+  }
+}
+
+/**
+ * Get the diff of the files a rename changes
+ * @param plan The rename
+ * @returns The unified diff of each file
+ */
+export function getRenameDiff(plan: RenamePlan): string {
+  return plan.files.map(({ file, original, updated }) => createUnifiedDiff(file, original, updated)).join("")
+}
+
+/**
+ * Write the files a rename changes. Either all files are written or, if one can't be,
+ * none are: the files written so far are restored.
+ * @param rootDir The root directory of the codebase
+ * @param plan The rename
+ */
+export async function applyRename(rootDir: string, plan: RenamePlan): Promise<void> {
+  // The plan is only valid for the contents it was made from
+  for (const { file, original } of plan.files) {
+    const current = await fs.readFile(path.join(rootDir, file), "utf-8")
+    if (current !== original) {
+      throw new Error(`${file} changed since the rename was planned`)
+    }
+  }
+
+  // Write every file to a temporary file first, so that a failed write leaves the originals untouched
+  const tempPaths: string[] = []
+  try {
+    for (const { file, updated } of plan.files) {
+      const tempPath = `${path.join(rootDir, file)}.${process.pid}.tmp`
+      tempPaths.push(tempPath)
+      await fs.writeFile(tempPath, updated)
+    }
+  } catch (error) {
+    await Promise.all(tempPaths.map((tempPath) => fs.rm(tempPath, { force: true })))
+    throw error
+  }
+
+  const replaced: string[] = []
+  try {
+    for (const [index, { file }] of plan.files.entries()) {
+      await fs.rename(tempPaths[index], path.join(rootDir, file))
+      replaced.push(file)
+    }
+  } catch (error) {
+    for (const { file, original } of plan.files.filter(({ file }) => replaced.includes(file))) {
+      try {
+        await fs.writeFile(path.join(rootDir, file), original)
+      } catch (restoreError) {
+        console.warn(`Failed to restore ${file}:`, restoreError)
+      }
+    }
+    await Promise.all(tempPaths.map((tempPath) => fs.rm(tempPath, { force: true })))
+    throw error
+  }
+}
+
+/**
+ * Work out the edits of the references in one file, checking that the new name doesn't
+ * clash with a name or type declared where it is used, or with a global the file uses
+ * @param ast The AST of the file
+ * @param filePath The path of the file
+ * @param references The references in the file
+ * @param newName The new name
+ * @returns The edits
+ */
+function planFileEdits(ast: any, filePath: string, references: SymbolReference[], newName: string): RenameEdit[] {
+  if (!ast) {
+    throw new Error(`${filePath} could not be parsed`)
+  }
+
+  const pending = new Map(references.map((reference) => [`${reference.line}:${reference.column}`, reference]))
+  const edits: RenameEdit[] = []
+
+  traverse(ast, {
+    "Identifier|JSXIdentifier"(path: any) {
+      if (path.node.name === newName && isGlobalReference(path)) {
+        throw new Error(`${filePath} uses the global ${newName}, which the renamed symbol would hide`)
+      }
+
+      const { line, column } = path.node.loc.start
+      const reference = pending.get(`${line}:${column}`)
+      // The key of a shorthand property has the position of its value, which is the reference
+      if (!reference || (path.parentPath.isObjectProperty() && path.key === "key" && path.parent.shorthand)) return
+      pending.delete(`${line}:${column}`)
+
+      if (path.isJSXIdentifier() && !/^[A-Z_$]/.test(newName)) {
+        throw new Error(`${reference.name} is used as a JSX element, so its name must start with an upper case letter`)
+      }
+
+      const isMember =
+        path.parentPath.isMemberExpression({ property: path.node }) ||
+        path.parentPath.isTSQualifiedName({ right: path.node })
+      const isImportedName =
+        path.parentPath.isImportSpecifier() &&
+        path.key === "imported" &&
+        path.parent.imported.start !== path.parent.local.start
+      // Interfaces and type aliases only name a type, uses as a type only refer to types, and classes name both
+      const isType = isTypePosition(path)
+      const namesType = isType || isTypeDeclarationId(path) || path.parentPath.isClassDeclaration({ id: path.node })
+      const namesValue =
+        !isType && !path.parentPath.isTSInterfaceDeclaration() && !path.parentPath.isTSTypeAliasDeclaration()
+      const clash =
+        isMember || isImportedName
+          ? null
+          : (namesValue && path.scope.getBinding(newName)?.identifier) ||
+            (namesType && findTypeDeclaration(path, newName))
+      if (clash) {
+        throw new Error(
+          `${newName} is already declared at ${filePath}:${clash.loc.start.line}, where ${reference.name} is used at line ${line}`,
+        )
+      }
+
+      edits.push({
+        file: filePath,
+        line,
+        column,
+        oldText: reference.name,
+        newText: isShorthandValue(path) ? `${reference.name}: ${newName}` : newName,
+      })
+    },
+  })
+
+  if (pending.size > 0) {
+    throw new Error(`${filePath} changed since it was analyzed`)
+  }
+
+  return edits
+}
+
+/**
+ * Check whether an identifier refers to a global. Babel's own list of globals leaves out global types,
+ * like the Promise of let value: Promise<string>, and wrongly includes the names of interfaces.
+ * @param path The path of the identifier
+ * @returns Whether the identifier refers to a global value or type
+ */
+function isGlobalReference(path: any): boolean {
+  const { name } = path.node
+  if (isTypePosition(path)) return !findTypeDeclaration(path, name)
+  if (isTypeDeclarationId(path) || !path.isReferencedIdentifier()) return false
+  // Enums have no binding
+  return !path.scope.getBinding(name) && !findTypeDeclaration(path, name)
+}
+
+/**
+ * Check whether an identifier is the value of a shorthand property, like { name } or const { name = 1 } = value
+ * @param path The path of the identifier
+ * @returns Whether the identifier is a shorthand property
+ */
+function isShorthandValue(path: any): boolean {
+  const property = path.parentPath.isAssignmentPattern() ? path.parentPath.parentPath : path.parentPath
+  return property.isObjectProperty() && property.node.shorthand && path.key !== "key"
+}
+
+/**
+ * Apply edits to the content of a file
+ * @param content The content of the file
+ * @param edits The edits of the file
+ * @returns The updated content
+ */
+function applyEdits(content: string, edits: RenameEdit[]): string {
+  const lineOffsets = [0]
+  for (let index = content.indexOf("\n"); index !== -1; index = content.indexOf("\n", index + 1)) {
+    lineOffsets.push(index + 1)
+  }
+
+  // From the end, so that the offsets of the remaining edits stay valid
+  const sorted = edits
+    .map((edit) => ({ ...edit, offset: lineOffsets[edit.line - 1] + edit.column }))
+    .sort((a, b) => b.offset - a.offset)
+
+  let updated = content
+  for (const edit of sorted) {
+    if (updated.slice(edit.offset, edit.offset + edit.oldText.length) !== edit.oldText) {
+      throw new Error(`${edit.file}:${edit.line} changed since it was analyzed`)
+    }
+    updated = updated.slice(0, edit.offset) + edit.newText + updated.slice(edit.offset + edit.oldText.length)
+  }
+
+  return updated
+}
@@ -0,0 +1,40 @@
+import { parse } from "@babel/parser"
+import { describe, expect, it } from "vitest"
+import { extractSymbols } from "./symbols"
+
+/**
+ * Get whether each symbol of a TypeScript file is exported
+ * @param content The content of the file
+ * @returns Whether each symbol is exported, by name qualified with its container
+ */
+function getExportedFlags(content: string): Record<string, boolean> {
+  const { symbols } = extractSymbols(parse(content, { sourceType: "module", plugins: ["typescript"] }))
+  return Object.fromEntries(
+    symbols.map((symbol) => [symbol.container ? `${symbol.container}.${symbol.name}` : symbol.name, symbol.exported]),
+  )
+}
+
+describe("extractSymbols", () => {
+  it("marks declarations exported by export specifiers as exported", () => {
+    expect(
+      getExportedFlags("function a() {}\nconst b = 1\nconst c = 2\nexport { a, b as bee }\nexport default c\n"),
+    ).toEqual({
+      a: true,
+      b: true,
+      c: true,
+    })
+    expect(getExportedFlags('function a() {}\nexport { a } from "./other"\n')).toEqual({ a: false })
+  })
+
+  it("marks the methods of classes exported in any way alike", () => {
+    const declared = getExportedFlags("export class A {\n  run() {}\n}\n")
+    const specified = getExportedFlags("class A {\n  run() {}\n}\nexport { A }\n")
+    const byDefault = getExportedFlags("class A {\n  run() {}\n}\nexport default A\n")
+    const local = getExportedFlags("class A {\n  run() {}\n}\n")
+
+    expect(declared).toEqual({ A: true, "A.run": true })
+    expect(specified).toEqual(declared)
+    expect(byDefault).toEqual(declared)
+    expect(local).toEqual({ A: false, "A.run": false })
+  })
+})
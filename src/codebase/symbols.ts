@@ -0,0 +1,375 @@
+import { resolveModulePath } from "./module-resolver"
+import type { ResolverOptions } from "./module-resolver"
+import type { IndexedImport, IndexedReexport, IndexedSymbol } from "./index-store"
+
+/**
+ * Interface for a symbol of the codebase
+ */
+export interface CodeSymbol extends IndexedSymbol {
+  file: string
+}
+
+/**
+ * Interface for the parts of an analyzed codebase the symbol table is made of
+ */
+export interface SymbolTableSource {
+  files: Record<string, string>
+  symbols: Record<string, IndexedSymbol[]>
+  bindings: Record<string, IndexedImport[]>
+  reexports: Record<string, IndexedReexport[]>
+  resolverOptions?: ResolverOptions
+}
+
+/**
+ * Collect the symbols, imports and export specifiers of a file
+ * @param ast The AST of the file
+ * @returns The declarations, the names bound by imports and the names exported by export specifiers
+ */
+export function extractSymbols(ast: any): {
+  symbols: IndexedSymbol[]
+  bindings: IndexedImport[]
+  reexports: IndexedReexport[]
+} {
+  const symbols: IndexedSymbol[] = []
+  const bindings: IndexedImport[] = []
+  const reexports: IndexedReexport[] = []
+
+  for (const statement of ast.program.body) {
+    switch (statement.type) {
+      case "ImportDeclaration":
+        for (const specifier of statement.specifiers) {
+          bindings.push({
+            local: specifier.local.name,
+            imported:
+              specifier.type === "ImportDefaultSpecifier"
+                ? "default"
+                : specifier.type === "ImportNamespaceSpecifier"
+                  ? "*"
+                  : getName(specifier.imported),
+            source: statement.source.value,
+            line: specifier.loc.start.line,
+          })
+        }
+        break
+      case "ExportNamedDeclaration":
+        if (statement.declaration) {
+          symbols.push(...getDeclaredSymbols(statement.declaration, statement, true))
+        }
+        for (const specifier of statement.specifiers) {
+          reexports.push({
+            exported: getName(specifier.exported),
+            local: specifier.type === "ExportNamespaceSpecifier" ? "*" : getName(specifier.local),
+            source: statement.source?.value,
+          })
+        }
+        break
+      case "ExportAllDeclaration":
+        reexports.push({ exported: "*", local: "*", source: statement.source.value })
+        break
+      case "ExportDefaultDeclaration": {
+        const { declaration } = statement
+        if (declaration.type === "Identifier") {
+          reexports.push({ exported: "default", local: declaration.name })
+          break
+        }
+
+        const declared = getDeclaredSymbols(declaration, statement, true)
+        if (declared.length > 0) {
+          symbols.push(...declared)
+          reexports.push({ exported: "default", local: declared[0].name })
+        }
+        break
+      }
+      default:
+        symbols.push(...getDeclaredSymbols(statement, statement, false))
+    }
+  }
+
+  // Declarations exported by a later export { a } or export default a, with the methods of exported classes
+  const exportedLocals = new Set(reexports.filter((reexport) => !reexport.source).map((reexport) => reexport.local))
+  for (const symbol of symbols) {
+    if (exportedLocals.has(symbol.container ?? symbol.name)) {
+      symbol.exported = true
+    }
+  }
+
+  return { symbols, bindings, reexports }
+}
+
+/**
+ * Find the symbols with a name. Methods are found by their name, or qualified with
+ * their class or interface, e.g. "ModelManager.getProvider".
+ * @param codebase The analyzed codebase
+ * @param name The name of the symbol
+ * @returns The matching symbols, exported ones first
+ */
+export function findDefinitions(codebase: SymbolTableSource, name: string): CodeSymbol[] {
+  const [container, member] = name.includes(".") ? name.split(".", 2) : [undefined, name]
+  const definitions: CodeSymbol[] = []
+
+  for (const [file, symbols] of Object.entries(codebase.symbols)) {
+    for (const symbol of symbols) {
+      if (symbol.name === member && (container === undefined || symbol.container === container)) {
+        definitions.push({ ...symbol, file })
+      }
+    }
+  }
+
+  return definitions.sort((a, b) => Number(b.exported) - Number(a.exported) || a.file.localeCompare(b.file))
+}
+
+/**
+ * Get the symbols declared in a file
+ * @param codebase The analyzed codebase
+ * @param filePath The path of the file, relative to the root directory
+ * @returns The symbols, in order of declaration
+ */
+export function getFileSymbols(codebase: SymbolTableSource, filePath: string): CodeSymbol[] {
+  return (codebase.symbols[filePath] || []).map((symbol) => ({ ...symbol, file: filePath }))
+}
+
+/**
+ * Find the symbol an imported name refers to, following re-exports
+ * @param codebase The analyzed codebase
+ * @param filePath The path of the importing file, relative to the root directory
+ * @param binding The import binding
+ * @returns The symbol, or null if it comes from a package, is a namespace or can't be found
+ */
+export function resolveImport(
+  codebase: SymbolTableSource,
+  filePath: string,
+  binding: IndexedImport,
+): CodeSymbol | null {
+  if (binding.imported === "*") {
+    return null
+  }
+
+  const target = resolveModulePath(binding.source, filePath, codebase.files, codebase.resolverOptions)
+  return target ? findExport(codebase, target, binding.imported, new Set()) : null
+}
+
+/**
+ * Find the symbol a module exports under a name
+ * @param codebase The analyzed codebase
+ * @param filePath The path of the module, relative to the root directory
+ * @param name The exported name
+ * @param visited The modules already searched, to stop at circular re-exports
+ * @returns The symbol, or null if the module doesn't export the name
+ */
+function findExport(
+  codebase: SymbolTableSource,
+  filePath: string,
+  name: string,
+  visited: Set<string>,
+): CodeSymbol | null {
+  const key = `${filePath}#${name}`
+  if (visited.has(key)) return null
+  visited.add(key)
+
+  const reexports = codebase.reexports[filePath] || []
+  const reexport = reexports.find((candidate) => candidate.exported === name)
+
+  if (reexport?.source) {
+    const target = resolveModulePath(reexport.source, filePath, codebase.files, codebase.resolverOptions)
+    return target ? findExport(codebase, target, reexport.local, visited) : null
+  }
+
+  if (reexport) {
+    return findLocal(codebase, filePath, reexport.local, visited)
+  }
+
+  const symbol = (codebase.symbols[filePath] || []).find(
+    (candidate) => candidate.name === name && candidate.exported && !candidate.container,
+  )
+  if (symbol) {
+    return { ...symbol, file: filePath }
+  }
+
+  // Names of "export * from" modules, except their default export
+  if (name !== "default") {
+    for (const { source } of reexports.filter((candidate) => candidate.exported === "*" && candidate.source)) {
+      const target = resolveModulePath(source!, filePath, codebase.files, codebase.resolverOptions)
+      const found = target ? findExport(codebase, target, name, visited) : null
+      if (found) return found
+    }
+  }
+
+  return null
+}
+
+/**
+ * Find the symbol a name refers to at the top level of a module, following imports
+ * @param codebase The analyzed codebase
+ * @param filePath The path of the module, relative to the root directory
+ * @param name The name
+ * @param visited The modules already searched, to stop at circular imports
+ * @returns The symbol, or null if it can't be found
+ */
+function findLocal(
+  codebase: SymbolTableSource,
+  filePath: string,
+  name: string,
+  visited: Set<string>,
+): CodeSymbol | null {
+  const symbol = (codebase.symbols[filePath] || []).find((candidate) => candidate.name === name && !candidate.container)
+  if (symbol) {
+    return { ...symbol, file: filePath }
+  }
+
+  const binding = (codebase.bindings[filePath] || []).find((candidate) => candidate.local === name)
+  if (!binding || binding.imported === "*") {
+    return null
+  }
+
+  const target = resolveModulePath(binding.source, filePath, codebase.files, codebase.resolverOptions)
+  return target ? findExport(codebase, target, binding.imported, visited) : null
+}
+
+/**
+ * Get the symbols a statement declares
+ * @param declaration The declaration
+ * @param statement The statement containing it, which the JSDoc comment precedes
+ * @param exported Whether the statement exports the declaration
+ * @returns The symbols; a class or interface is followed by its methods
+ */
+function getDeclaredSymbols(declaration: any, statement: any, exported: boolean): IndexedSymbol[] {
+  const jsdoc = getJsDoc(statement)
+
+  switch (declaration.type) {
+    case "FunctionDeclaration":
+    case "TSDeclareFunction":
+      return [createSymbol(declaration.id?.name || "default", "function", declaration, exported, jsdoc)]
+    case "ClassDeclaration": {
+      const name = declaration.id?.name || "default"
+      const methods = declaration.body.body
+        .filter(
+          (member: any) =>
+            !member.computed &&
+            (["ClassMethod", "ClassPrivateMethod", "TSDeclareMethod"].includes(member.type) ||
+              (member.type === "ClassProperty" && isFunction(member.value))),
+        )
+        .map((member: any) => createSymbol(getName(member.key), "method", member, exported, getJsDoc(member), name))
+      return [createSymbol(name, "class", declaration, exported, jsdoc), ...methods]
+    }
+    case "VariableDeclaration":
+      return declaration.declarations.flatMap((declarator: any) =>
+        getPatternNames(declarator.id).map((name) =>
+          createSymbol(
+            name,
+            isFunction(declarator.init) ? "function" : "variable",
+            // A single declarator spans the whole statement, including its keyword
+            declaration.declarations.length === 1 ? declaration : declarator,
+            exported,
+            jsdoc,
+          ),
+        ),
+      )
+    case "TSInterfaceDeclaration": {
+      const name = declaration.id.name
+      const methods = declaration.body.body
+        .filter((member: any) => member.type === "TSMethodSignature" && !member.computed)
+        .map((member: any) => createSymbol(getName(member.key), "method", member, exported, getJsDoc(member), name))
+      return [createSymbol(name, "interface", declaration, exported, jsdoc), ...methods]
+    }
+    case "TSTypeAliasDeclaration":
+      return [createSymbol(declaration.id.name, "type", declaration, exported, jsdoc)]
+    case "TSEnumDeclaration":
+      return [createSymbol(declaration.id.name, "enum", declaration, exported, jsdoc)]
+    default:
+      return []
+  }
+}
+
+/**
+ * Create a symbol for a node
+ * @param name The name of the symbol
+ * @param kind The kind of the symbol
+ * @param node The node spanning the declaration
+ * @param exported Whether the symbol is exported
+ * @param jsdoc The JSDoc comment of the declaration
+ * @param container The class or interface declaring a method
+ * @returns The symbol
+ */
+function createSymbol(
+  name: string,
+  kind: IndexedSymbol["kind"],
+  node: any,
+  exported: boolean,
+  jsdoc?: string,
+  container?: string,
+): IndexedSymbol {
+  return {
+    name,
+    kind,
+    line: node.loc.start.line,
+    column: node.loc.start.column,
+    endLine: node.loc.end.line,
+    endColumn: node.loc.end.column,
+    exported,
+    ...(container && { container }),
+    ...(jsdoc && { jsdoc }),
+  }
+}
+
+/**
+ * Get the JSDoc comment directly preceding a node
+ * @param node The node
+ * @returns The text of the comment without the comment markers, or undefined if there is none
+ */
+function getJsDoc(node: any): string | undefined {
+  const comment = node.leadingComments?.[node.leadingComments.length - 1]
+  if (comment?.type !== "CommentBlock" || !comment.value.startsWith("*")) {
+    return undefined
+  }
+
+  return comment.value
+    .slice(1)
+    .split("\n")
+    .map((line: string) => line.replace(/^\s*\*? ?/, "").trimEnd())
+    .join("\n")
+    .trim()
+}
+
+/**
+ * Get the names a binding pattern declares, e.g. a and c for const { a, b: [c] }
+ * @param pattern The pattern
+ * @returns The names
+ */
+function getPatternNames(pattern: any): string[] {
+  switch (pattern?.type) {
+    case "Identifier":
+      return [pattern.name]
+    case "ObjectPattern":
+      return pattern.properties.flatMap((property: any) =>
+        getPatternNames(property.type === "RestElement" ? property.argument : property.value),
+      )
+    case "ArrayPattern":
+      return pattern.elements.flatMap((element: any) => getPatternNames(element))
+    case "AssignmentPattern":
+      return getPatternNames(pattern.left)
+    case "RestElement":
+      return getPatternNames(pattern.argument)
+    default:
+      return []
+  }
+}
+
+/**
+ * Check whether an expression is a function
+ * @param node The expression
+ * @returns Whether it is an arrow function or function expression
+ */
+function isFunction(node: any): boolean {
+  return node?.type === "ArrowFunctionExpression" || node?.type === "FunctionExpression"
+}
+
+/**
+ * Get the name of an identifier, string literal or private name
+ * @param node The node
+ * @returns The name
+ */
+function getName(node: any): string {
+  if (node.type === "StringLiteral") return node.value
+  if (node.type === "PrivateName") return `#${node.id.name}`
+  return node.name
+}
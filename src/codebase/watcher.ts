@@ -0,0 +1,129 @@
+import { watch } from "fs"
+import type { FSWatcher } from "fs"
+import fs from "fs/promises"
+import path from "path"
+import { isAnalyzedFile, updateAnalyzedFiles } from "./analyzer"
+import type { CodebaseAnalysis } from "./analyzer"
+
+/**
+ * Interface for the files an analysis was updated with
+ */
+export interface CodebaseChanges {
+  added: string[]
+  changed: string[]
+  removed: string[]
+}
+
+// Editors save in bursts (temporary file, rename, touch), and branch switches change many files at once
+const DEBOUNCE_MS = 300
+
+/**
+ * Keep an analysis up to date while the codebase is being edited. Changes are
+ * collected until the files have been quiet for a moment, then applied together.
+ * @param analysis The analysis to update
+ * @param onUpdate Called after each update with the files that were added, changed and removed
+ * @returns A function that stops watching
+ */
+export function watchCodebase(analysis: CodebaseAnalysis, onUpdate: (changes: CodebaseChanges) => void): () => void {
+  const pending = new Set<string>()
+  let timer: NodeJS.Timeout | null = null
+  let updating: Promise<void> = Promise.resolve()
+  let watcher: FSWatcher
+
+  const flush = () => {
+    timer = null
+    const changedPaths = [...pending]
+    pending.clear()
+
+    // Updates run one after another, so that a slow update can't overwrite a later one
+    updating = updating.then(async () => {
+      try {
+        const filePaths = (
+          await Promise.all(changedPaths.map((changedPath) => expandDeletedDirectory(analysis, changedPath)))
+        ).flat()
+        const changes = await updateAnalyzedFiles(analysis, filePaths)
+        if (changes.added.length + changes.changed.length + changes.removed.length > 0) {
+          onUpdate(changes)
+        }
+      } catch (error) {
+        console.warn("Failed to update the codebase analysis:", error)
+      }
+    })
+  }
+
+  try {
+    watcher = watch(analysis.rootDir, { recursive: true }, (eventType, fileName) => {
+      // A path that isn't a code file may be a directory that was deleted or renamed
+      if (
+        !fileName ||
+        (!isAnalyzedFile(analysis, fileName.toString()) && getFilesUnder(analysis, fileName.toString()).length === 0)
+      ) {
+        return
+      }
+
+      pending.add(fileName.toString())
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(flush, DEBOUNCE_MS)
+    })
+  } catch (error) {
+    console.warn("Watching the codebase for changes is not supported here; use /analyze after editing files.")
+    return () => {}
+  }
+
+  watcher.on("error", (error) => {
+    console.warn("Stopped watching the codebase for changes:", error.message)
+    watcher.close()
+  })
+
+  return () => {
+    if (timer) clearTimeout(timer)
+    watcher.close()
+  }
+}
+
+/**
+ * Replace the path of a directory that no longer exists with the analyzed files that were in it,
+ * so that they are removed from the analysis
+ * @param analysis The analysis
+ * @param changedPath The path reported as changed, relative to the root directory
+ * @returns The paths to update the analysis with
+ */
+async function expandDeletedDirectory(analysis: CodebaseAnalysis, changedPath: string): Promise<string[]> {
+  const filesUnder = getFilesUnder(analysis, changedPath)
+  if (filesUnder.length === 0) {
+    return [changedPath]
+  }
+
+  try {
+    await fs.access(path.join(analysis.rootDir, changedPath))
+    // The directory still exists, so its files have events of their own
+    return isAnalyzedFile(analysis, changedPath) ? [changedPath] : []
+  } catch (error) {
+    return filesUnder
+  }
+}
+
+/**
+ * Get the analyzed files in a directory and its subdirectories
+ * @param analysis The analysis
+ * @param directory The path of the directory, relative to the root directory
+ * @returns The paths of the files
+ */
+function getFilesUnder(analysis: CodebaseAnalysis, directory: string): string[] {
+  return Object.keys(analysis.files).filter((filePath) => filePath.startsWith(`${directory}${path.sep}`))
+}
+
+/**
+ * Describe the files an analysis was updated with
+ * @param changes The added, changed and removed files
+ * @returns A short summary, e.g. "src/index.ts changed" or "3 changed, 1 added"
+ */
+export function describeChanges(changes: CodebaseChanges): string {
+  const parts = (["changed", "added", "removed"] as const).filter((verb) => changes[verb].length > 0)
+
+  if (parts.length === 1 && changes[parts[0]].length === 1) {
+    return `${changes[parts[0]][0]} ${parts[0]}`
+  }
+
+  return parts.map((verb) => `${changes[verb].length} ${verb}`).join(", ")
+}
@@ -2,6 +2,8 @@ import fs from "fs/promises"
 import path from "path"
 import os from "os"
 import { encrypt, decrypt } from "../utils/encryption"
+import type { RoutingRule } from "../models/router"
+import type { LayerRule } from "../codebase/architecture"
 
 // Default configuration
 const DEFAULT_CONFIG = {
@@ -14,8 +16,62 @@ const DEFAULT_CONFIG = {
     groq: {
       enabled: true,
       apiKey: "",
-      defaultModel: "llama2-70b-4096",
+      defaultModel: "llama-3.3-70b-versatile",
     },
+    local: {
+      enabled: false,
+      baseUrl: "http://localhost:11434/v1",
+      defaultModel: "llama3",
+    },
+    // Context windows in tokens by model name, overriding the model catalog
+    contextWindows: {} as Record<string, number>,
+    // Providers to try, in order, when the selected one fails
+    fallback: ["groq", "huggingface", "local"],
+    retry: {
+      maxRetries: 3,
+      initialDelayMs: 1000,
+      maxDelayMs: 30000,
+      backoffFactor: 2,
+      jitter: true,
+    },
+  },
+  routing: {
+    // Rules are tried in order and the first match picks the provider and model of a request.
+    // Requests that match no rule go to the first available provider in models.fallback.
+    rules: [
+      {
+        name: "code-generation",
+        match: { taskType: ["code-generation", "refactoring", "testing"] },
+        provider: "groq",
+      },
+    ] as RoutingRule[],
+  },
+  retrieval: {
+    // The provider computing embeddings for codebase retrieval: "auto" picks the first provider in
+    // models.fallback that supports embeddings and searches with BM25 if there is none, "bm25" always
+    // searches with BM25, and "hash" uses the built-in hashing embedder; neither needs an API
+    embeddingProvider: "auto",
+    // The embedding model, if not the provider's default
+    embeddingModel: "",
+    // The number of code chunks agents retrieve for a task
+    topK: 8,
+    // The maximum number of lines in a chunk
+    chunkLines: 60,
+  },
+  analysis: {
+    // Globs of the files to analyze, relative to the codebase root; empty analyzes every code file.
+    // Globs without a slash match file names at any depth, and a glob matching a directory includes all of it.
+    include: [] as string[],
+    // Patterns of files and directories to leave out, in .gitignore syntax, in addition to those
+    // in .gitignore and .codeforgeignore files
+    exclude: [] as string[],
+    // Files larger than this, in bytes, are not analyzed
+    maxFileSize: 512 * 1024,
+    // Layering rules checked by codeforge analyze, e.g. { "name": "models don't depend on agents",
+    // "from": "src/models", "disallow": ["src/agents"] }; paths are globs like those of include
+    layers: [] as LayerRule[],
+    // Whether codeforge analyze accepts circular imports instead of failing on them
+    allowCycles: false,
   },
   agents: {
     codeGeneration: { enabled: true },
@@ -36,6 +92,23 @@ const DEFAULT_CONFIG = {
     cacheResults: true,
     cacheExpiry: 3600, // 1 hour in seconds
   },
+  usage: {
+    trackUsage: true,
+    currency: "USD",
+    // Prices per million tokens, keyed by "provider:model" or "provider:*" for every model of a provider.
+    // Models without a price here are charged at the price listed in the model catalog.
+    prices: {
+      "local:*": { input: 0, output: 0 },
+    } as Record<string, { input: number; output: number }>,
+  },
+  budgets: {
+    // A limit of 0 means no limit
+    session: { maxTokens: 0, maxCost: 0 },
+    workflow: { maxTokens: 0, maxCost: 0 },
+    daily: { maxTokens: 0, maxCost: 0 },
+    // Fraction of a budget at which workflows ask for approval to continue
+    warnThreshold: 0.8,
+  },
 }
 
 // Global configuration object
@@ -58,7 +131,7 @@ export async function initializeConfig(customConfigPath?: string): Promise<void>
     // Check if the config file exists
     try {
       const configFile = await fs.readFile(configPath, "utf-8")
-      config = { ...DEFAULT_CONFIG, ...JSON.parse(configFile) }
+      config = mergeConfig(DEFAULT_CONFIG, JSON.parse(configFile))
     } catch (error) {
       // If the file doesn't exist, create it with default config
       await fs.writeFile(configPath, JSON.stringify(DEFAULT_CONFIG, null, 2))
@@ -74,8 +147,14 @@ export async function initializeConfig(customConfigPath?: string): Promise<void>
       config.models.groq.apiKey = process.env.GROQ_API_KEY
     }
 
-    // If no API keys are set, prompt the user to set them
-    if (!config.models.huggingface.apiKey && !config.models.groq.apiKey) {
+    // Point the local provider at a custom endpoint if provided in the environment
+    if (process.env.CODEFORGE_LOCAL_BASE_URL) {
+      config.models.local.baseUrl = process.env.CODEFORGE_LOCAL_BASE_URL
+      config.models.local.enabled = true
+    }
+
+    // If no API keys are set and no local model is enabled, prompt the user to set them
+    if (!config.models.huggingface.apiKey && !config.models.groq.apiKey && !config.models.local.enabled) {
       console.log("No API keys found. Please set them using the setApiKey command.")
     }
   } catch (error) {
@@ -84,6 +163,28 @@ export async function initializeConfig(customConfigPath?: string): Promise<void>
   }
 }
 
+/**
+ * Merge a user configuration over the defaults, section by section, so that
+ * config files written by older versions still pick up newly added settings
+ * @param defaults The default configuration values
+ * @param overrides The user configuration values
+ * @returns The merged configuration
+ */
+function mergeConfig(defaults: any, overrides: any): any {
+  const isObject = (value: any) => typeof value === "object" && value !== null && !Array.isArray(value)
+
+  if (!isObject(defaults) || !isObject(overrides)) {
+    return overrides === undefined ? defaults : overrides
+  }
+
+  const merged: Record<string, any> = { ...defaults }
+  for (const [key, value] of Object.entries(overrides)) {
+    merged[key] = mergeConfig(defaults[key], value)
+  }
+
+  return merged
+}
+
 /**
  * Get the current configuration
  */
@@ -91,6 +192,14 @@ export function getConfig(): typeof DEFAULT_CONFIG {
   return { ...config }
 }
 
+/**
+ * Get the directory holding the configuration file, where CodeForge also keeps its data
+ * @returns The configuration directory
+ */
+export function getConfigDir(): string {
+  return configPath ? path.dirname(configPath) : path.join(os.homedir(), ".codeforge")
+}
+
 /**
  * Update the configuration
  * @param newConfig The new configuration object
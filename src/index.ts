@@ -6,6 +6,7 @@ import { startChat } from "./ui/chat"
 import { initializeConfig } from "./config/config-manager"
 import { setupAgents } from "./agents/agent-manager"
 import { setupModelProviders } from "./models/model-manager"
+import { setCacheEnabled } from "./models/response-cache"
 import { setupPythonEnvironment } from "./utils/python-setup"
 
 // Initialize the CLI
@@ -21,13 +22,18 @@ program
   .option("-v, --verbose", "enable verbose logging")
   .option("-d, --directory <path>", "specify the codebase directory to analyze")
   .option("--skip-python-check", "skip Python environment check")
+  .option("--no-cache", "do not read or write cached model responses")
+  .option("--record <file>", "record every model request and response to a fixture file")
+  .option("--replay <file>", "answer model requests from a fixture file instead of calling any API")
   .action(async (options) => {
     try {
       // Initialize configuration
       await initializeConfig(options.config)
+      // Cached responses would bypass the recording, and replayed runs must not depend on the cache
+      setCacheEnabled(options.cache && !options.record && !options.replay)
 
       // Set up model providers
-      await setupModelProviders()
+      await setupModelProviders({ record: options.record, replay: options.replay })
 
       // Check Python environment for LangGraph support
       if (!options.skipPythonCheck) {
@@ -57,12 +63,21 @@ program
   .description("Analyze a codebase")
   .action(async (directory) => {
     try {
+      // Analysis needs no model providers, so that it runs in CI without API keys
       await initializeConfig()
-      await setupModelProviders()
       const { analyzeCodebase } = await import("./codebase/analyzer")
-      await analyzeCodebase(directory)
+      const { checkArchitecture } = await import("./codebase/architecture")
+      const { printArchitectureReport } = await import("./ui/architecture-report")
+
+      const report = checkArchitecture(await analyzeCodebase(directory))
+      printArchitectureReport(report)
+      // Fail the build when run in CI
+      if (report.cycles.length > 0 || report.violations.length > 0) {
+        process.exitCode = 1
+      }
     } catch (error) {
       console.error(chalk.red("Error analyzing codebase:"), error)
+      process.exitCode = 1
     }
   })
 
@@ -71,8 +86,10 @@ program
   .description("Run a predefined workflow")
   .action(async (name) => {
     try {
+      const { cache, record, replay } = program.opts()
       await initializeConfig()
-      await setupModelProviders()
+      setCacheEnabled(cache && !record && !replay)
+      await setupModelProviders({ record, replay })
       await setupAgents()
       const { runWorkflow } = await import("./workflow/workflow-manager")
       await runWorkflow(name)
@@ -81,4 +98,34 @@ program
     }
   })
 
+program
+  .command("usage")
+  .description("Show token usage and cost")
+  .option("--daily", "break usage down by day")
+  .option("--session", "break usage down by session")
+  .option("--days <n>", "only include the last n days", "30")
+  .action(async (options) => {
+    try {
+      await initializeConfig()
+      const { loadUsageRecords } = await import("./models/usage-tracker")
+      const { printUsageReport } = await import("./ui/usage-report")
+
+      const since = Date.now() - Number(options.days) * 24 * 60 * 60 * 1000
+      const records = (await loadUsageRecords()).filter((record) => Date.parse(record.timestamp) >= since)
+      const showAll = !options.daily && !options.session
+
+      if (options.daily || showAll) {
+        printUsageReport("Usage by day:", records, "daily")
+      }
+      if (options.session || showAll) {
+        printUsageReport("Usage by session:", records, "session")
+      }
+      if (showAll) {
+        printUsageReport("Usage by model:", records, "model")
+      }
+    } catch (error) {
+      console.error(chalk.red("Error reading usage:"), error)
+    }
+  })
+
 program.parse(process.argv)
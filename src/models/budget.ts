@@ -0,0 +1,88 @@
+import { getConfig } from "../config/config-manager"
+import { BudgetExceededError } from "./errors"
+import { getUsageTotals } from "./usage-tracker"
+
+/**
+ * Interface for the state of a budget
+ */
+export interface BudgetStatus {
+  scope: "session" | "workflow" | "daily"
+  usedTokens: number
+  usedCost: number
+  maxTokens: number
+  maxCost: number
+  /**
+   * The fraction of the budget used, taking the larger of the token and cost fractions
+   */
+  fraction: number
+}
+
+/**
+ * Get the state of every configured budget
+ * @returns The status of each budget that has a limit
+ */
+export async function getBudgetStatuses(): Promise<BudgetStatus[]> {
+  const { budgets } = getConfig()
+  const scopes = (["session", "workflow", "daily"] as const).filter(
+    (scope) => budgets[scope].maxTokens || budgets[scope].maxCost,
+  )
+
+  // Avoid reading the usage ledger when no budgets are configured
+  if (scopes.length === 0) {
+    return []
+  }
+
+  const totals = await getUsageTotals()
+  const statuses: BudgetStatus[] = []
+
+  for (const scope of scopes) {
+    const { maxTokens, maxCost } = budgets[scope]
+    const used = totals[scope]
+
+    // The workflow budget only applies inside a workflow run
+    if (!used) continue
+
+    statuses.push({
+      scope,
+      usedTokens: used.tokens,
+      usedCost: used.cost,
+      maxTokens,
+      maxCost,
+      fraction: Math.max(maxTokens ? used.tokens / maxTokens : 0, maxCost ? used.cost / maxCost : 0),
+    })
+  }
+
+  return statuses
+}
+
+/**
+ * Refuse a model call once a budget has been used up
+ * @throws BudgetExceededError if any budget is exhausted
+ */
+export async function checkBudget(): Promise<void> {
+  for (const status of await getBudgetStatuses()) {
+    if (status.fraction >= 1) {
+      throw new BudgetExceededError(
+        `${describeBudget(status)}. Raise budgets.${status.scope} to continue.`,
+        status.scope,
+      )
+    }
+  }
+}
+
+/**
+ * Describe the state of a budget for messages to the user
+ * @param status The budget status
+ * @returns The description
+ */
+export function describeBudget(status: BudgetStatus): string {
+  const limits = []
+  if (status.maxTokens) {
+    limits.push(`${status.usedTokens}/${status.maxTokens} tokens`)
+  }
+  if (status.maxCost) {
+    limits.push(`${status.usedCost.toFixed(4)}/${status.maxCost} ${getConfig().usage.currency}`)
+  }
+
+  return `The ${status.scope} budget is ${Math.round(status.fraction * 100)}% used (${limits.join(", ")})`
+}
@@ -0,0 +1,161 @@
+import type { Response } from "node-fetch"
+import type { ModelAttempt } from "./retry"
+
+/**
+ * Error thrown when a model provider's API returns an error response
+ */
+export class ModelProviderError extends Error {
+  provider: string
+  status?: number
+  retryAfterMs?: number
+
+  constructor(message: string, provider: string, status?: number, retryAfterMs?: number) {
+    super(message)
+    this.name = "ModelProviderError"
+    this.provider = provider
+    this.status = status
+    this.retryAfterMs = retryAfterMs
+  }
+
+  /**
+   * Whether the request may succeed if it is sent again: rate limits, timeouts and server errors
+   */
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 408 || this.status === 429 || this.status >= 500
+  }
+}
+
+/**
+ * Error thrown when every provider in the fallback chain failed
+ */
+export class ProviderChainError extends Error {
+  attempts: ModelAttempt[]
+
+  constructor(message: string, attempts: ModelAttempt[]) {
+    super(message)
+    this.name = "ProviderChainError"
+    this.attempts = attempts
+  }
+}
+
+/**
+ * Error thrown when a model call would exceed a configured budget
+ */
+export class BudgetExceededError extends Error {
+  scope: string
+
+  constructor(message: string, scope: string) {
+    super(message)
+    this.name = "BudgetExceededError"
+    this.scope = scope
+  }
+}
+
+/**
+ * Error thrown when a streamed response fails after part of it was already
+ * passed on. It is neither retried nor sent to another provider, since that
+ * would repeat the output the caller has already received.
+ */
+export class StreamInterruptedError extends Error {
+  provider: string
+  partialText: string
+  cause: unknown
+
+  constructor(message: string, provider: string, partialText: string, cause: unknown) {
+    super(message)
+    this.name = "StreamInterruptedError"
+    this.provider = provider
+    this.partialText = partialText
+    this.cause = cause
+  }
+}
+
+/**
+ * Error thrown when a model keeps replying with JSON that doesn't match the requested schema
+ */
+export class StructuredOutputError extends Error {
+  text: string
+  problems: string[]
+
+  constructor(message: string, text: string, problems: string[]) {
+    super(message)
+    this.name = "StructuredOutputError"
+    this.text = text
+    this.problems = problems
+  }
+}
+
+/**
+ * Error thrown when an operation is cancelled through its abort signal
+ */
+export class OperationCancelledError extends Error {
+  constructor(message = "Operation cancelled") {
+    super(message)
+    this.name = "OperationCancelledError"
+  }
+}
+
+/**
+ * Stop an operation whose abort signal has fired
+ * @param signal The abort signal of the operation
+ * @throws OperationCancelledError if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new OperationCancelledError()
+  }
+}
+
+/**
+ * Create an error from a failed API response
+ * @param provider The name of the provider
+ * @param label The label to prefix the error message with, e.g. "Groq API error"
+ * @param response The failed response
+ * @returns The error to throw
+ */
+export async function createProviderError(
+  provider: string,
+  label: string,
+  response: Response,
+): Promise<ModelProviderError> {
+  const error = await response.text()
+  return new ModelProviderError(
+    `${label}: ${error}`,
+    provider,
+    response.status,
+    parseRetryAfter(response.headers.get("retry-after")),
+  )
+}
+
+/**
+ * Parse a Retry-After header, which holds either a number of seconds or an HTTP date
+ * @param value The header value
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Check whether a failed model call is worth retrying with the same provider
+ * @param error The error thrown by the call
+ * @returns Whether the call should be retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ModelProviderError) {
+    return error.retryable
+  }
+
+  // Network failures (connection reset, DNS errors, ...) are usually transient
+  return error instanceof Error && error.name === "FetchError"
+}
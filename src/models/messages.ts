@@ -0,0 +1,157 @@
+import type { ChatMessage, ModelOptions, ToolCall } from "./types"
+import { formatEmulatedToolCalls } from "./tool-emulation"
+
+/**
+ * The system prompt used when the caller does not provide one
+ */
+export const DEFAULT_SYSTEM_PROMPT = "You are a helpful coding assistant."
+
+/**
+ * Convert a single prompt into a conversation
+ * @param prompt The prompt to send to the model
+ * @param systemPrompt Optional system prompt to use instead of the default
+ * @returns The conversation messages
+ */
+export function promptToMessages(prompt: string, systemPrompt?: string): ChatMessage[] {
+  return [
+    { role: "system", content: systemPrompt || DEFAULT_SYSTEM_PROMPT },
+    { role: "user", content: prompt },
+  ]
+}
+
+/**
+ * Convert a conversation into the message format of OpenAI-compatible APIs
+ * @param messages The conversation messages
+ * @returns The messages in the API format
+ */
+export function toOpenAIMessages(messages: ChatMessage[]): Array<Record<string, any>> {
+  return messages.map((message) => ({
+    role: message.role,
+    content: message.content,
+    ...(message.name ? { name: message.name } : {}),
+    ...(message.toolCallId ? { tool_call_id: message.toolCallId } : {}),
+    ...(message.toolCalls && message.toolCalls.length > 0
+      ? {
+          tool_calls: message.toolCalls.map((toolCall) => ({
+            id: toolCall.id,
+            type: "function",
+            function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments) },
+          })),
+        }
+      : {}),
+  }))
+}
+
+/**
+ * Convert the tool options into the request fields of OpenAI-compatible APIs
+ * @param options The generation options
+ * @returns The `tools` and `tool_choice` request fields, or an empty object if no tools are given
+ */
+export function toOpenAIToolFields(options?: ModelOptions): Record<string, any> {
+  if (!options?.tools || options.tools.length === 0) {
+    return {}
+  }
+
+  const toolChoice = options.toolChoice || "auto"
+
+  return {
+    tools: options.tools.map((tool) => ({
+      type: "function",
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    })),
+    tool_choice:
+      typeof toolChoice === "string" ? toolChoice : { type: "function", function: { name: toolChoice.name } },
+  }
+}
+
+/**
+ * Build the response format field of an OpenAI-compatible chat completion request
+ * @param options The generation options
+ * @returns The `response_format` request field, or an empty object for plain text
+ */
+export function toOpenAIResponseFormat(options?: ModelOptions): Record<string, any> {
+  return options?.responseFormat === "json" ? { response_format: { type: "json_object" } } : {}
+}
+
+/**
+ * Parse the tool calls from an OpenAI-compatible response message
+ * @param message The `message` of the first choice in the response
+ * @returns The tool calls, or undefined if the model did not call any tools
+ */
+export function parseOpenAIToolCalls(message: any): ToolCall[] | undefined {
+  if (!Array.isArray(message?.tool_calls) || message.tool_calls.length === 0) {
+    return undefined
+  }
+
+  return message.tool_calls.map((toolCall: any, index: number) => {
+    let args: Record<string, any> = {}
+    try {
+      // Arguments arrive as a JSON string, but some servers send an object
+      args =
+        typeof toolCall.function.arguments === "string"
+          ? JSON.parse(toolCall.function.arguments || "{}")
+          : toolCall.function.arguments || {}
+    } catch (error) {
+      args = { _raw: toolCall.function.arguments }
+    }
+
+    return {
+      id: toolCall.id || `call_${index}`,
+      name: toolCall.function.name,
+      arguments: args,
+    }
+  })
+}
+
+/**
+ * Render a conversation as a single instruction prompt for text-generation models
+ * that have no chat endpoint. Uses the [INST] template understood by Llama 2,
+ * Mistral/Mixtral and CodeLlama instruct models.
+ * @param messages The conversation messages
+ * @returns The rendered prompt
+ */
+export function formatChatPrompt(messages: ChatMessage[]): string {
+  const systemPrompt = messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content)
+    .join("\n\n")
+
+  let prompt = ""
+  let pendingUserContent: string[] = []
+  let systemPromptUsed = false
+
+  const flushUserTurn = () => {
+    let content = pendingUserContent.join("\n\n")
+    if (systemPrompt && !systemPromptUsed) {
+      content = `<<SYS>>\n${systemPrompt}\n<</SYS>>\n\n${content}`
+      systemPromptUsed = true
+    }
+    prompt += `<s>[INST] ${content} [/INST]`
+    pendingUserContent = []
+  }
+
+  for (const message of messages) {
+    switch (message.role) {
+      case "system":
+        break
+      case "user":
+        pendingUserContent.push(message.content)
+        break
+      case "tool":
+        pendingUserContent.push(`Result of tool ${message.name || message.toolCallId || ""}:\n${message.content}`)
+        break
+      case "assistant":
+        flushUserTurn()
+        // Replay earlier tool calls in the same JSON format the model was asked to use
+        prompt += ` ${message.toolCalls?.length ? formatEmulatedToolCalls(message.toolCalls) : message.content} </s>`
+        break
+    }
+  }
+
+  // The conversation normally ends with the user's turn, which the model completes
+  if (pendingUserContent.length > 0 || !prompt) {
+    flushUserTurn()
+  }
+
+  return prompt
+}
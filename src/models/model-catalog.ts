@@ -0,0 +1,165 @@
+import fs from "fs/promises"
+import path from "path"
+import { getConfigDir } from "../config/config-manager"
+import type { ModelInfo, ModelProvider } from "./types"
+
+/**
+ * Interface for the cached model catalog
+ */
+interface CachedCatalog {
+  fetchedAt: string
+  models: ModelInfo[]
+}
+
+// Known models, used offline and to fill in metadata the provider APIs don't report
+const STATIC_CATALOG: ModelInfo[] = [
+  {
+    id: "llama-3.3-70b-versatile",
+    provider: "groq",
+    contextLength: 131072,
+    supportsTools: true,
+    pricing: { input: 0.59, output: 0.79 },
+  },
+  {
+    id: "llama-3.1-8b-instant",
+    provider: "groq",
+    contextLength: 131072,
+    supportsTools: true,
+    pricing: { input: 0.05, output: 0.08 },
+  },
+  { id: "llama2-70b-4096", provider: "groq", contextLength: 4096, deprecated: true },
+  { id: "mixtral-8x7b-32768", provider: "groq", contextLength: 32768, deprecated: true },
+  { id: "gemma-7b-it", provider: "groq", contextLength: 8192, deprecated: true },
+  { id: "mistralai/Mixtral-8x7B-Instruct-v0.1", provider: "huggingface", contextLength: 32768, supportsTools: false },
+  { id: "meta-llama/Llama-2-70b-chat-hf", provider: "huggingface", contextLength: 4096, supportsTools: false },
+  { id: "codellama/CodeLlama-34b-Instruct-hf", provider: "huggingface", contextLength: 16384, supportsTools: false },
+  { id: "bigcode/starcoder2-15b", provider: "huggingface", contextLength: 16384, supportsTools: false },
+  { id: "llama3", provider: "local", contextLength: 8192, pricing: { input: 0, output: 0 } },
+]
+
+// How long a fetched catalog is used before it is fetched again
+const CATALOG_TTL_MS = 24 * 60 * 60 * 1000
+
+// The catalog loaded from the cache file or fetched in this session
+let catalog: CachedCatalog | null = null
+
+/**
+ * Load the cached model catalog, if there is one
+ */
+export async function loadModelCatalog(): Promise<void> {
+  try {
+    const data = await fs.readFile(getCatalogPath(), "utf-8")
+    catalog = JSON.parse(data)
+  } catch (error) {
+    // No catalog has been fetched yet
+    catalog = null
+  }
+}
+
+/**
+ * Get the models of the given providers. The catalog is fetched from the provider APIs
+ * when the cached copy is missing or older than a day; providers that can't be reached
+ * are described by their cached or static entries.
+ * @param providers The providers to list models for
+ * @param options Whether to fetch the catalog even if the cached copy is recent
+ * @returns The models, grouped by provider
+ */
+export async function getModelCatalog(
+  providers: ModelProvider[],
+  options: { refresh?: boolean } = {},
+): Promise<ModelInfo[]> {
+  const isStale = !catalog || Date.now() - new Date(catalog.fetchedAt).getTime() > CATALOG_TTL_MS
+
+  if (options.refresh || isStale) {
+    catalog = { fetchedAt: new Date().toISOString(), models: await fetchModels(providers) }
+
+    try {
+      await fs.mkdir(getConfigDir(), { recursive: true })
+      await fs.writeFile(getCatalogPath(), JSON.stringify(catalog, null, 2))
+    } catch (error) {
+      console.warn("Failed to save the model catalog:", error)
+    }
+  }
+
+  const providerNames = providers.map((provider) => provider.name)
+  return (catalog?.models || STATIC_CATALOG).filter((model) => providerNames.includes(model.provider))
+}
+
+/**
+ * Get the models in the catalog without fetching it
+ * @returns The models of the last fetch, or the known models if the catalog was never fetched
+ */
+export function getKnownModels(): ModelInfo[] {
+  return catalog?.models || STATIC_CATALOG
+}
+
+/**
+ * Look up a model in the catalog
+ * @param model The name of the model
+ * @param provider The name of the provider, if known
+ * @returns The description of the model, or undefined if it is not in the catalog
+ */
+export function findModelInfo(model: string, provider?: string): ModelInfo | undefined {
+  const matches = (info: ModelInfo) => info.id === model && (!provider || info.provider === provider)
+  return catalog?.models.find(matches) || STATIC_CATALOG.find(matches)
+}
+
+/**
+ * Fetch the models of each provider, falling back to the known models of providers that fail
+ * @param providers The providers to list models for
+ * @returns The models of all providers
+ */
+async function fetchModels(providers: ModelProvider[]): Promise<ModelInfo[]> {
+  const models: ModelInfo[] = []
+
+  for (const provider of providers) {
+    const known = [...(catalog?.models || []), ...STATIC_CATALOG].filter((model) => model.provider === provider.name)
+
+    if (!provider.listModels) {
+      models.push(...uniqueById(known))
+      continue
+    }
+
+    try {
+      const fetched = await provider.listModels()
+      // The APIs report less than we know about some models, e.g. pricing
+      models.push(
+        ...fetched.map((model) => ({
+          ...STATIC_CATALOG.find((info) => info.provider === model.provider && info.id === model.id),
+          ...withoutUndefined(model),
+        })),
+      )
+    } catch (error) {
+      console.warn(`Failed to list models of ${provider.name}, using the known models:`, (error as Error).message)
+      models.push(...uniqueById(known))
+    }
+  }
+
+  return models
+}
+
+/**
+ * Remove duplicate models, keeping the first of each
+ * @param models The models
+ * @returns The models with distinct IDs
+ */
+function uniqueById(models: ModelInfo[]): ModelInfo[] {
+  return models.filter((model, index) => models.findIndex((other) => other.id === model.id) === index)
+}
+
+/**
+ * Remove the fields of a model description that are undefined, so they don't hide known values
+ * @param model The model description
+ * @returns The model description without undefined fields
+ */
+function withoutUndefined(model: ModelInfo): ModelInfo {
+  return Object.fromEntries(Object.entries(model).filter(([, value]) => value !== undefined)) as unknown as ModelInfo
+}
+
+/**
+ * Get the path of the cached catalog
+ * @returns The path of the catalog file
+ */
+function getCatalogPath(): string {
+  return path.join(getConfigDir(), "models.json")
+}
@@ -1,17 +1,55 @@
 import { getConfig, getApiKey } from "../config/config-manager"
 import { HuggingFaceProvider } from "./providers/huggingface"
 import { GroqProvider } from "./providers/groq"
-import type { ModelProvider, ModelResponse } from "./types"
+import { OpenAICompatibleProvider } from "./providers/openai-compatible"
+import { ReplayProvider, createFixtureFile } from "./providers/replay"
+import { checkBudget } from "./budget"
+import { ProviderChainError, StreamInterruptedError, StructuredOutputError, throwIfCancelled } from "./errors"
+import { promptToMessages } from "./messages"
+import { getCachedResponse, isCacheEnabled, setCachedResponse } from "./response-cache"
+import { estimateMessagesTokens, estimateTokens } from "./tokenizer"
+import { recordUsage } from "./usage-tracker"
+import { matchRoutingRule } from "./router"
+import { getKnownModels, getModelCatalog, loadModelCatalog } from "./model-catalog"
+import type { RoutingRule } from "./router"
+import { withRetry } from "./retry"
+import type { ModelAttempt } from "./retry"
+import { buildSchemaInstructions, formatValidationErrors, parseJsonReply } from "./structured-output"
+import type { z, ZodTypeAny } from "zod"
+import type {
+  ChatMessage,
+  GenerateOptions,
+  ModelInfo,
+  ModelOptions,
+  ModelProvider,
+  ModelResponse,
+  StructuredGenerateOptions,
+  StructuredResponse,
+  ToolHandler,
+} from "./types"
 
 // Map of model providers
 const modelProviders: Record<string, ModelProvider> = {}
 
 /**
  * Set up the model providers based on the configuration
+ * @param options A fixture file to record the responses of the providers to, or to replay responses from instead
  */
-export async function setupModelProviders(): Promise<void> {
+export async function setupModelProviders(options: { record?: string; replay?: string } = {}): Promise<void> {
   const config = getConfig()
 
+  // Replayed runs make no API calls, so no keys are needed
+  if (options.replay) {
+    for (const provider of await ReplayProvider.replay(options.replay)) {
+      modelProviders[provider.name] = provider
+    }
+
+    if (Object.keys(modelProviders).length === 0) {
+      throw new Error(`No recorded responses in ${options.replay}`)
+    }
+    return
+  }
+
   // Set up Hugging Face provider if enabled
   if (config.models.huggingface.enabled) {
     const apiKey = getApiKey("huggingface")
@@ -32,9 +70,53 @@ export async function setupModelProviders(): Promise<void> {
     }
   }
 
+  // Set up the local OpenAI-compatible provider if enabled (no API key required)
+  if (config.models.local.enabled) {
+    modelProviders.local = new OpenAICompatibleProvider(config.models.local.baseUrl, config.models.local.defaultModel)
+  }
+
   // Check if at least one provider is available
   if (Object.keys(modelProviders).length === 0) {
-    throw new Error("No model providers available. Please set up at least one API key.")
+    throw new Error("No model providers available. Please set up at least one API key or enable the local provider.")
+  }
+
+  if (options.record) {
+    // Each run records a fresh fixture file
+    await createFixtureFile(options.record)
+    for (const [name, provider] of Object.entries(modelProviders)) {
+      modelProviders[name] = ReplayProvider.record(provider, options.record)
+    }
+  }
+
+  // Use the models listed by the last catalog fetch, without fetching it again at startup
+  await loadModelCatalog()
+  applyModelCatalog(getKnownModels())
+}
+
+/**
+ * List the models of the available providers from the model catalog
+ * @param options Whether to fetch the catalog from the provider APIs even if the cached copy is recent
+ * @returns The models, grouped by provider
+ */
+export async function listModels(options: { refresh?: boolean } = {}): Promise<ModelInfo[]> {
+  const models = await getModelCatalog(Object.values(modelProviders), options)
+  applyModelCatalog(models)
+  return models
+}
+
+/**
+ * Update the available models of each provider from the model catalog
+ * @param models The models in the catalog
+ */
+function applyModelCatalog(models: ModelInfo[]): void {
+  for (const provider of Object.values(modelProviders)) {
+    const available = models
+      .filter((model) => model.provider === provider.name && !model.deprecated)
+      .map((model) => model.id)
+
+    if (available.length > 0) {
+      provider.availableModels = available
+    }
   }
 }
 
@@ -69,62 +151,487 @@ export function selectModelProvider(
   task: string,
   options?: {
     preferredProvider?: string
-    requireCodeGeneration?: boolean
-    requireFastResponse?: boolean
+    agent?: string
+    taskType?: string
+    language?: string
+    promptTokens?: number
+    exclude?: string[]
   },
 ): ModelProvider {
+  return routeRequest(task, options).provider
+}
+
+/**
+ * Select the provider for a request, applying the configured routing rules
+ * @param task The task description, used as the prompt the rules match on
+ * @param options Optional parameters for model selection
+ * @returns The selected provider and the routing rule that selected it, if any
+ */
+function routeRequest(
+  task: string,
+  options?: {
+    preferredProvider?: string
+    agent?: string
+    taskType?: string
+    language?: string
+    promptTokens?: number
+    exclude?: string[]
+  },
+): { provider: ModelProvider; rule: RoutingRule | null } {
   const config = getConfig()
+  const exclude = options?.exclude || []
+  const isCandidate = (name: string) => Boolean(modelProviders[name]) && !exclude.includes(name)
 
-  // If a preferred provider is specified and available, use it
-  if (options?.preferredProvider && modelProviders[options.preferredProvider]) {
-    return modelProviders[options.preferredProvider]
+  // Once a provider has been exhausted, move down the configured fallback chain
+  if (exclude.length > 0) {
+    const fallbackProvider = config.models.fallback.find(isCandidate)
+    if (fallbackProvider) {
+      return { provider: modelProviders[fallbackProvider], rule: null }
+    }
+
+    throw new Error("No model providers available")
   }
 
-  // For code generation tasks, prefer models with better coding capabilities
-  if (options?.requireCodeGeneration) {
-    // This is a simplified logic; in a real implementation, you would have more sophisticated selection criteria
-    if (modelProviders.groq) {
-      return modelProviders.groq
-    }
+  // If a preferred provider is specified and available, use it
+  if (options?.preferredProvider && isCandidate(options.preferredProvider)) {
+    return { provider: modelProviders[options.preferredProvider], rule: null }
   }
 
-  // For tasks requiring fast response, prefer faster models
-  if (options?.requireFastResponse) {
-    // This is a simplified logic; in a real implementation, you would have more sophisticated selection criteria
-    if (modelProviders.huggingface) {
-      return modelProviders.huggingface
-    }
+  const rule = matchRoutingRule(
+    {
+      prompt: task,
+      promptTokens: options?.promptTokens ?? estimateTokens(task),
+      agent: options?.agent,
+      taskType: options?.taskType,
+      language: options?.language,
+    },
+    isCandidate,
+  )
+  if (rule) {
+    return { provider: modelProviders[rule.provider], rule }
   }
 
-  // Default to the first available provider
-  const availableProviders = Object.keys(modelProviders)
+  // Default to the first available provider, in fallback order
+  const availableProviders = [...config.models.fallback, ...Object.keys(modelProviders)].filter(isCandidate)
   if (availableProviders.length > 0) {
-    return modelProviders[availableProviders[0]]
+    return { provider: modelProviders[availableProviders[0]], rule: null }
   }
 
   throw new Error("No model providers available")
 }
 
 /**
- * Generate a response using the best model for the task
- * @param prompt The prompt to send to the model
+ * Get the model a request would be routed to, so that its prompt can be sized
+ * before it is built. Rules on the prompt's length or content are evaluated
+ * against an empty prompt.
+ * @param options The parameters for model selection
+ * @returns The name of the model, or undefined if no provider is available
+ */
+export function getRoutedModel(options?: GenerateOptions): string | undefined {
+  try {
+    const { provider, rule } = routeRequest("", { ...options, promptTokens: 0 })
+    return rule?.model || provider.getCurrentModel()
+  } catch (error) {
+    return undefined
+  }
+}
+
+/**
+ * Check whether a provider is set up and can be used
+ * @param providerName The name of the provider
+ * @returns Whether the provider is available
+ */
+export function isProviderAvailable(providerName: string): boolean {
+  return Boolean(modelProviders[providerName])
+}
+
+/**
+ * Call the selected provider, retrying transient failures and falling back to
+ * the next provider in the configured chain once a provider is exhausted.
+ * Responses are served from and stored in the response cache when it is enabled,
+ * and calls are refused once a budget is exhausted.
+ * Every attempt is recorded in the response metadata.
+ * @param task The task description used for provider selection
+ * @param request The conversation and generation options, used as the cache key
  * @param options Optional parameters for model selection
+ * @param call The model call to make with the selected provider
+ * @returns The model's response
+ */
+async function callWithFallback(
+  task: string,
+  request: { messages: ChatMessage[]; options: ModelOptions },
+  options: GenerateOptions | undefined,
+  call: (provider: ModelProvider, options: ModelOptions) => Promise<ModelResponse>,
+): Promise<ModelResponse> {
+  const config = getConfig()
+  const attempts: ModelAttempt[] = []
+  const exhausted: string[] = []
+  const promptTokens = estimateMessagesTokens(request.messages)
+  let lastError: unknown
+  let budgetChecked = false
+
+  while (true) {
+    throwIfCancelled(options?.signal)
+
+    let provider: ModelProvider
+    let rule: RoutingRule | null
+    try {
+      ;({ provider, rule } = routeRequest(task, { ...options, promptTokens, exclude: exhausted }))
+    } catch (error) {
+      // No providers left to fall back to
+      break
+    }
+
+    // The rule that picked the provider also picks the model and default settings
+    const modelOptions: ModelOptions = {
+      ...request.options,
+      model: rule?.model,
+      temperature: request.options.temperature ?? rule?.temperature,
+      maxTokens: request.options.maxTokens ?? rule?.maxTokens,
+    }
+    const model = modelOptions.model || provider.getCurrentModel()
+    const cacheRequest = { provider: provider.name, model, messages: request.messages, options: modelOptions }
+    const useCache = isCacheEnabled() && !options?.noCache
+
+    if (useCache) {
+      const cachedResponse = await getCachedResponse(cacheRequest)
+      if (cachedResponse) {
+        return cachedResponse
+      }
+    }
+
+    // Cached responses cost nothing, so the budget only stops calls that reach a provider
+    if (!budgetChecked) {
+      await checkBudget()
+      budgetChecked = true
+    }
+
+    try {
+      const response = await withRetry(
+        () => call(provider, { ...modelOptions, signal: options?.signal }),
+        config.models.retry,
+        (attempt) => attempts.push({ provider: provider.name, model, ...attempt }),
+        options?.signal,
+      )
+
+      await trackUsage(provider, request.messages, response, options?.agent)
+
+      if (useCache) {
+        await setCachedResponse(cacheRequest, response)
+      }
+
+      response.metadata = { ...response.metadata, attempts, ...(rule && { route: rule.name }) }
+      return response
+    } catch (error) {
+      // Part of the answer has already been shown, so another attempt would repeat it.
+      // A cancelled call must not move on to the next provider either.
+      if (error instanceof StreamInterruptedError || options?.signal?.aborted) {
+        throw error
+      }
+
+      lastError = error
+      exhausted.push(provider.name)
+    }
+  }
+
+  if (attempts.length === 0) {
+    throw lastError || new Error("No model providers available")
+  }
+
+  const message = lastError instanceof Error ? lastError.message : String(lastError)
+  throw new ProviderChainError(`All model providers failed (${exhausted.join(", ")}): ${message}`, attempts)
+}
+
+/**
+ * Record the usage of a successful call in the usage ledger, filling in an
+ * estimate when the provider reports no token usage
+ * @param provider The provider that answered
+ * @param messages The conversation sent to the model
+ * @param response The model's response, updated with the estimated usage if needed
+ * @param agent The name of the agent that made the call
+ */
+async function trackUsage(
+  provider: ModelProvider,
+  messages: ChatMessage[],
+  response: ModelResponse,
+  agent?: string,
+): Promise<void> {
+  const estimated = !response.usage
+
+  if (!response.usage) {
+    const promptTokens = estimateMessagesTokens(messages)
+    const completionTokens =
+      estimateTokens(response.text) + (response.toolCalls ? estimateTokens(JSON.stringify(response.toolCalls)) : 0)
+
+    response.usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    response.metadata = { ...response.metadata, usageEstimated: true }
+  }
+
+  await recordUsage({
+    provider: provider.name,
+    model: response.metadata?.model || provider.getCurrentModel(),
+    agent,
+    promptTokens: response.usage.promptTokens,
+    completionTokens: response.usage.completionTokens,
+    estimated,
+  })
+}
+
+/**
+ * Generate a response using the best model for the task. When a schema is
+ * given, the model is asked for JSON matching it and the validated value is
+ * returned in the `data` field of the response.
+ * @param prompt The prompt to send to the model
+ * @param options Optional parameters for model selection and generation
  * @returns The model's response
  */
+export async function generateResponse(prompt: string, options?: GenerateOptions): Promise<ModelResponse>
+export async function generateResponse<T extends ZodTypeAny>(
+  prompt: string,
+  options: StructuredGenerateOptions<T>,
+): Promise<StructuredResponse<z.infer<T>>>
 export async function generateResponse(
   prompt: string,
-  options?: {
-    preferredProvider?: string
-    requireCodeGeneration?: boolean
-    requireFastResponse?: boolean
-    temperature?: number
-    maxTokens?: number
-  },
+  options?: GenerateOptions | StructuredGenerateOptions<ZodTypeAny>,
 ): Promise<ModelResponse> {
-  const provider = selectModelProvider(prompt, options)
+  if (options && "schema" in options) {
+    return await generateStructuredResponse(prompt, options)
+  }
 
-  return await provider.generateResponse(prompt, {
+  const modelOptions: ModelOptions = {
     temperature: options?.temperature,
     maxTokens: options?.maxTokens,
-  })
+    systemPrompt: options?.systemPrompt,
+    tools: options?.tools,
+    toolChoice: options?.toolChoice,
+    responseFormat: options?.responseFormat,
+  }
+  const request = { messages: promptToMessages(prompt, options?.systemPrompt), options: modelOptions }
+
+  return await callWithFallback(prompt, request, options, (provider, routedOptions) =>
+    provider.generateResponse(prompt, routedOptions),
+  )
+}
+
+/**
+ * Generate a reply matching a schema. Replies that are not valid JSON or don't
+ * match the schema are sent back to the model with the problems found, until
+ * it gets them right or runs out of attempts.
+ * @param prompt The prompt to send to the model
+ * @param options Parameters for model selection and generation, including the schema
+ * @returns The model's response with the validated value
+ * @throws StructuredOutputError if no valid reply was received
+ */
+async function generateStructuredResponse<T extends ZodTypeAny>(
+  prompt: string,
+  options: StructuredGenerateOptions<T>,
+): Promise<StructuredResponse<z.infer<T>>> {
+  const { schema, maxRepairAttempts = 2, ...generateOptions } = options
+  const messages = promptToMessages(`${prompt}\n\n${buildSchemaInstructions(schema)}`, options.systemPrompt)
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await chat(messages, { ...generateOptions, responseFormat: "json" })
+    let problems: string[]
+
+    try {
+      const result = schema.safeParse(parseJsonReply(response.text))
+      if (result.success) {
+        return { ...response, data: result.data, metadata: { ...response.metadata, repairAttempts: attempt } }
+      }
+      problems = formatValidationErrors(result.error)
+    } catch (error) {
+      problems = [error instanceof Error ? error.message : String(error)]
+    }
+
+    if (attempt >= maxRepairAttempts) {
+      throw new StructuredOutputError(
+        `The model's reply did not match the schema after ${attempt + 1} attempt(s): ${problems.join("; ")}`,
+        response.text,
+        problems,
+      )
+    }
+
+    messages.push(
+      { role: "assistant", content: response.text },
+      {
+        role: "user",
+        content: `Your reply is not valid:\n${problems.map((problem) => `- ${problem}`).join("\n")}\n\nReply again with ONLY the corrected JSON.`,
+      },
+    )
+  }
+}
+
+/**
+ * Continue a conversation using the best model for the task
+ * @param messages The conversation so far, including any system message
+ * @param options Optional parameters for model selection and generation
+ * @returns The model's response
+ */
+export async function chat(messages: ChatMessage[], options?: GenerateOptions): Promise<ModelResponse> {
+  const lastUserMessage = [...messages].reverse().find((message) => message.role === "user")
+
+  const modelOptions: ModelOptions = {
+    temperature: options?.temperature,
+    maxTokens: options?.maxTokens,
+    tools: options?.tools,
+    toolChoice: options?.toolChoice,
+    responseFormat: options?.responseFormat,
+  }
+
+  return await callWithFallback(
+    lastUserMessage?.content || "",
+    { messages, options: modelOptions },
+    options,
+    (provider, routedOptions) => provider.chat(messages, routedOptions),
+  )
+}
+
+/**
+ * Continue a conversation using the best model for the task, passing the answer
+ * on in chunks as it is generated. Providers that cannot stream, and cached
+ * responses, deliver the whole answer in a single chunk.
+ * @param messages The conversation so far, including any system message
+ * @param onChunk The callback to receive chunks of the response
+ * @param options Optional parameters for model selection and generation
+ * @returns The complete model response when finished
+ */
+export async function streamChat(
+  messages: ChatMessage[],
+  onChunk: (chunk: string) => void,
+  options?: GenerateOptions,
+): Promise<ModelResponse> {
+  const lastUserMessage = [...messages].reverse().find((message) => message.role === "user")
+
+  const modelOptions: ModelOptions = {
+    temperature: options?.temperature,
+    maxTokens: options?.maxTokens,
+    tools: options?.tools,
+    toolChoice: options?.toolChoice,
+    responseFormat: options?.responseFormat,
+  }
+
+  const response = await callWithFallback(
+    lastUserMessage?.content || "",
+    { messages, options: modelOptions },
+    options,
+    (provider, routedOptions) => streamFromProvider(provider, messages, onChunk, routedOptions),
+  )
+
+  if (response.metadata?.cached && response.text) {
+    onChunk(response.text)
+  }
+
+  return response
+}
+
+/**
+ * Generate a response using the best model for the task, passing the answer
+ * on in chunks as it is generated
+ * @param prompt The prompt to send to the model
+ * @param onChunk The callback to receive chunks of the response
+ * @param options Optional parameters for model selection and generation
+ * @returns The complete model response when finished
+ */
+export async function streamResponse(
+  prompt: string,
+  onChunk: (chunk: string) => void,
+  options?: GenerateOptions,
+): Promise<ModelResponse> {
+  return await streamChat(promptToMessages(prompt, options?.systemPrompt), onChunk, options)
+}
+
+/**
+ * Stream a response from a single provider
+ * @param provider The provider to call
+ * @param messages The conversation messages
+ * @param onChunk The callback to receive chunks of the response
+ * @param options Optional parameters for generation
+ * @returns The complete model response when finished
+ * @throws StreamInterruptedError if the stream fails after a chunk was passed on
+ */
+async function streamFromProvider(
+  provider: ModelProvider,
+  messages: ChatMessage[],
+  onChunk: (chunk: string) => void,
+  options: ModelOptions,
+): Promise<ModelResponse> {
+  if (!provider.streamChat) {
+    const response = await provider.chat(messages, options)
+    if (response.text) {
+      onChunk(response.text)
+    }
+    return response
+  }
+
+  let partialText = ""
+
+  try {
+    return await provider.streamChat(
+      messages,
+      (chunk) => {
+        partialText += chunk
+        onChunk(chunk)
+      },
+      options,
+    )
+  } catch (error) {
+    if (!partialText || options.signal?.aborted) {
+      throw error
+    }
+
+    const message = error instanceof Error ? error.message : String(error)
+    throw new StreamInterruptedError(
+      `Response from ${provider.name} was interrupted: ${message}`,
+      provider.name,
+      partialText,
+      error,
+    )
+  }
+}
+
+/**
+ * Run a conversation in which the model may call tools. Each round the requested
+ * tool calls are executed and their results sent back, until the model answers
+ * without calling a tool or the round limit is reached.
+ * @param messages The conversation so far, including any system message
+ * @param handlers The functions executing each tool, keyed by tool name
+ * @param options Optional parameters for model selection and generation, including the tool definitions
+ * @returns The final response and the full conversation including tool calls and results
+ */
+export async function chatWithTools(
+  messages: ChatMessage[],
+  handlers: Record<string, ToolHandler>,
+  options?: GenerateOptions & { maxToolRounds?: number },
+): Promise<{ response: ModelResponse; messages: ChatMessage[] }> {
+  const conversation = [...messages]
+  const maxToolRounds = options?.maxToolRounds || 5
+
+  for (let round = 0; ; round++) {
+    throwIfCancelled(options?.signal)
+
+    // On the last round, force a final answer
+    const toolChoice = round < maxToolRounds ? options?.toolChoice : "none"
+    const response = await chat(conversation, { ...options, toolChoice })
+
+    if (!response.toolCalls || response.toolCalls.length === 0 || toolChoice === "none") {
+      conversation.push({ role: "assistant", content: response.text })
+      return { response, messages: conversation }
+    }
+
+    conversation.push({ role: "assistant", content: response.text, toolCalls: response.toolCalls })
+
+    for (const toolCall of response.toolCalls) {
+      const handler = handlers[toolCall.name]
+      let result: string
+
+      try {
+        result = handler ? await handler(toolCall.arguments) : `Error: unknown tool ${toolCall.name}`
+      } catch (error) {
+        // Report tool failures to the model so it can recover
+        result = `Error: ${error instanceof Error ? error.message : String(error)}`
+      }
+
+      conversation.push({ role: "tool", content: result, name: toolCall.name, toolCallId: toolCall.id })
+    }
+  }
 }
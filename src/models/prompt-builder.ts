@@ -0,0 +1,179 @@
+import { getConfig } from "../config/config-manager"
+import { estimateTokens } from "./tokenizer"
+import { findModelInfo } from "./model-catalog"
+
+/**
+ * Interface for a piece of a prompt
+ */
+export interface PromptSection {
+  /**
+   * Identifies the section in reports, e.g. "file:src/index.ts"
+   */
+  name: string
+  content: string
+  /**
+   * Sections with a higher priority get their share of the context window first
+   */
+  priority: number
+  /**
+   * Text around the content that is kept whenever the section is, such as code fences
+   */
+  prefix?: string
+  suffix?: string
+  /**
+   * How the section may be shortened when it doesn't fit: "truncate" keeps the
+   * beginning, "outline" keeps only the declarations and then truncates.
+   * Sections without a strategy are either kept whole or dropped.
+   */
+  shrink?: "truncate" | "outline"
+  /**
+   * Required sections are never dropped, even if the prompt then exceeds the context window
+   */
+  required?: boolean
+}
+
+/**
+ * Interface for an assembled prompt
+ */
+export interface BuiltPrompt {
+  prompt: string
+  promptTokens: number
+  contextWindow: number
+  /**
+   * The names of the sections left out
+   */
+  dropped: string[]
+  /**
+   * The names of the sections that were truncated or outlined
+   */
+  trimmed: string[]
+}
+
+// Assumed for models we know nothing about; small enough to be safe with any of them
+const DEFAULT_CONTEXT_WINDOW = 4096
+
+// Kept free to absorb errors of the token estimate and the chat template
+const SAFETY_MARGIN = 0.05
+
+// A shortened section smaller than this is not worth including
+const MIN_SHRUNK_SECTION_TOKENS = 64
+
+// Lines kept in an outline: declarations and imports in common languages
+const DECLARATION_LINE =
+  /^\s*(?:export|import|from|module|package|function|async|class|interface|type|enum|struct|impl|trait|fn|func|def|public|private|protected|static|abstract|const|let|var)\b/
+
+/**
+ * Get the context window of a model
+ * @param model The name of the model
+ * @returns The context window in tokens, from the configuration, the model catalog or a safe default
+ */
+export function getContextWindow(model?: string): number {
+  if (!model) {
+    return DEFAULT_CONTEXT_WINDOW
+  }
+
+  return getConfig().models.contextWindows[model] || findModelInfo(model)?.contextLength || DEFAULT_CONTEXT_WINDOW
+}
+
+/**
+ * Assemble a prompt that fits the model's context window. Sections are given
+ * room in order of priority, shortened or dropped when there is none left, and
+ * the kept sections are joined in their original order.
+ * @param sections The sections of the prompt, in the order they should appear
+ * @param options The target model, the tokens to reserve for the answer and the system prompt sent alongside
+ * @returns The prompt and what had to be left out
+ */
+export function buildPrompt(
+  sections: PromptSection[],
+  options: { model?: string; maxTokens?: number; systemPrompt?: string },
+): BuiltPrompt {
+  const contextWindow = getContextWindow(options.model)
+  const reserved =
+    (options.maxTokens || 1024) + estimateTokens(options.systemPrompt || "") + Math.ceil(contextWindow * SAFETY_MARGIN)
+  let remaining = contextWindow - reserved
+
+  const kept = new Map<PromptSection, string>()
+  const dropped: string[] = []
+  const trimmed: string[] = []
+
+  // Required sections first, then by descending priority; the sort is stable for equal priorities
+  const byPriority = [...sections].sort(
+    (a, b) => Number(Boolean(b.required)) - Number(Boolean(a.required)) || b.priority - a.priority,
+  )
+
+  for (const section of byPriority) {
+    const frameTokens = estimateTokens(`${section.prefix || ""}${section.suffix || ""}`)
+    const tokens = frameTokens + estimateTokens(section.content)
+
+    if (tokens <= remaining) {
+      kept.set(section, section.content)
+      remaining -= tokens
+      continue
+    }
+
+    const available = remaining - frameTokens
+    if (section.shrink && available >= MIN_SHRUNK_SECTION_TOKENS) {
+      const content = shrinkSection(section.content, section.shrink, available)
+      kept.set(section, content)
+      trimmed.push(section.name)
+      remaining -= frameTokens + estimateTokens(content)
+    } else if (section.required) {
+      // Better to let the model truncate than to send a prompt without its task
+      kept.set(section, section.content)
+      remaining -= tokens
+    } else {
+      dropped.push(section.name)
+    }
+  }
+
+  const prompt = sections
+    .filter((section) => kept.has(section))
+    .map((section) => `${section.prefix || ""}${kept.get(section)}${section.suffix || ""}`)
+    .join("")
+
+  return { prompt, promptTokens: estimateTokens(prompt), contextWindow, dropped, trimmed }
+}
+
+/**
+ * Check whether a prompt leaves room for the answer in the model's context window
+ * @param prompt The assembled prompt
+ * @param maxTokens The tokens reserved for the answer
+ * @returns Whether the prompt and the answer fit
+ */
+export function fitsContextWindow(prompt: BuiltPrompt, maxTokens: number): boolean {
+  return prompt.promptTokens + maxTokens <= prompt.contextWindow
+}
+
+/**
+ * Shorten the content of a section to a token budget
+ * @param content The content
+ * @param strategy How to shorten it
+ * @param maxTokens The token budget
+ * @returns The shortened content, with a note of what was left out
+ */
+function shrinkSection(content: string, strategy: "truncate" | "outline", maxTokens: number): string {
+  let lines = content.split("\n")
+
+  if (strategy === "outline") {
+    const outline = lines.filter((line) => DECLARATION_LINE.test(line))
+    if (outline.length > 0) {
+      lines = [`// Outline of ${lines.length} lines; bodies omitted`, ...outline]
+    }
+  }
+
+  // Leave room for the note about the omitted lines
+  const budget = maxTokens - 16
+  const keptLines: string[] = []
+  let tokens = 0
+
+  for (const line of lines) {
+    const lineTokens = estimateTokens(`${line}\n`)
+    if (tokens + lineTokens > budget) break
+
+    keptLines.push(line)
+    tokens += lineTokens
+  }
+
+  const omitted = lines.length - keptLines.length
+  return omitted > 0 ? `${keptLines.join("\n")}\n... (${omitted} more lines omitted)` : keptLines.join("\n")
+}
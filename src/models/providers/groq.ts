@@ -1,13 +1,22 @@
 import fetch from "node-fetch"
-import type { ModelProvider, ModelResponse, ModelOptions } from "../types"
+import { createProviderError } from "../errors"
+import type { ModelProvider, ModelResponse, ModelOptions, ChatMessage, ModelInfo } from "../types"
+import {
+  parseOpenAIToolCalls,
+  promptToMessages,
+  toOpenAIMessages,
+  toOpenAIResponseFormat,
+  toOpenAIToolFields,
+} from "../messages"
+import { readOpenAIChatStream } from "../sse"
 
 /**
  * Groq model provider
  */
 export class GroqProvider implements ModelProvider {
   name = "groq"
-  availableModels = ["llama2-70b-4096", "mixtral-8x7b-32768", "gemma-7b-it"]
-  defaultModel = "llama2-70b-4096"
+  availableModels = ["llama-3.3-70b-versatile", "llama-3.1-8b-instant"]
+  defaultModel = "llama-3.3-70b-versatile"
   private currentModel: string
   private apiKey: string
 
@@ -23,41 +32,52 @@ export class GroqProvider implements ModelProvider {
    * @returns The model's response
    */
   async generateResponse(prompt: string, options?: ModelOptions): Promise<ModelResponse> {
+    return this.chat(promptToMessages(prompt, options?.systemPrompt), options)
+  }
+
+  /**
+   * Generate a response from the Groq model for a conversation
+   * @param messages The conversation messages
+   * @param options Optional parameters for generation
+   * @returns The model's response
+   */
+  async chat(messages: ChatMessage[], options?: ModelOptions): Promise<ModelResponse> {
     const url = "https://api.groq.com/openai/v1/chat/completions"
+    const model = options?.model || this.currentModel
 
     const response = await fetch(url, {
+      signal: options?.signal,
       method: "POST",
       headers: {
         Authorization: `Bearer ${this.apiKey}`,
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
-        model: this.currentModel,
-        messages: [
-          { role: "system", content: "You are a helpful coding assistant." },
-          { role: "user", content: prompt },
-        ],
-        temperature: options?.temperature || 0.7,
-        max_tokens: options?.maxTokens || 1024,
+        model,
+        messages: toOpenAIMessages(messages),
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens ?? 1024,
+        ...toOpenAIToolFields(options),
+        ...toOpenAIResponseFormat(options),
       }),
     })
 
     if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Groq API error: ${error}`)
+      throw await createProviderError(this.name, "Groq API error", response)
     }
 
     const data = (await response.json()) as any
 
     return {
-      text: data.choices[0].message.content,
+      text: data.choices[0].message.content || "",
+      toolCalls: parseOpenAIToolCalls(data.choices[0].message),
       usage: {
         promptTokens: data.usage.prompt_tokens,
         completionTokens: data.usage.completion_tokens,
         totalTokens: data.usage.total_tokens,
       },
       metadata: {
-        model: this.currentModel,
+        model,
         provider: this.name,
       },
     }
@@ -74,96 +94,92 @@ export class GroqProvider implements ModelProvider {
     prompt: string,
     callback: (chunk: string) => void,
     options?: ModelOptions,
+  ): Promise<ModelResponse> {
+    return this.streamChat(promptToMessages(prompt, options?.systemPrompt), callback, options)
+  }
+
+  /**
+   * Stream a response from the Groq model for a conversation
+   * @param messages The conversation messages
+   * @param callback The callback to receive chunks of the response
+   * @param options Optional parameters for generation
+   * @returns The complete model response when finished
+   */
+  async streamChat(
+    messages: ChatMessage[],
+    callback: (chunk: string) => void,
+    options?: ModelOptions,
   ): Promise<ModelResponse> {
     const url = "https://api.groq.com/openai/v1/chat/completions"
+    const model = options?.model || this.currentModel
 
     const response = await fetch(url, {
+      signal: options?.signal,
       method: "POST",
       headers: {
         Authorization: `Bearer ${this.apiKey}`,
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
-        model: this.currentModel,
-        messages: [
-          { role: "system", content: "You are a helpful coding assistant." },
-          { role: "user", content: prompt },
-        ],
-        temperature: options?.temperature || 0.7,
-        max_tokens: options?.maxTokens || 1024,
+        model,
+        messages: toOpenAIMessages(messages),
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens ?? 1024,
+        ...toOpenAIToolFields(options),
+        ...toOpenAIResponseFormat(options),
         stream: true,
       }),
     })
 
     if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Groq API error: ${error}`)
-    }
-
-    const reader = response.body?.getReader()
-    if (!reader) {
-      throw new Error("Failed to get response reader")
+      throw await createProviderError(this.name, "Groq API error", response)
     }
 
-    let fullText = ""
-    let usage = {
-      promptTokens: 0,
-      completionTokens: 0,
-      totalTokens: 0,
+    if (!response.body) {
+      throw new Error("Failed to get response body")
     }
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        const chunk = new TextDecoder().decode(value)
-        const lines = chunk.split("\n").filter((line) => line.trim() !== "" && line.trim() !== "data: [DONE]")
-
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            try {
-              const data = JSON.parse(line.substring(6))
-              if (data.choices && data.choices[0].delta.content) {
-                const content = data.choices[0].delta.content
-                fullText += content
-                callback(content)
-              }
-
-              if (data.usage) {
-                usage = {
-                  promptTokens: data.usage.prompt_tokens,
-                  completionTokens: data.usage.completion_tokens,
-                  totalTokens: data.usage.total_tokens,
-                }
-              }
-            } catch (error) {
-              // Ignore parsing errors for incomplete JSON
-            }
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock()
-    }
+    const { text, toolCalls, usage } = await readOpenAIChatStream(response.body, callback)
 
     return {
-      text: fullText,
+      text,
+      toolCalls,
       usage,
       metadata: {
-        model: this.currentModel,
+        model,
         provider: this.name,
       },
     }
   }
 
+  /**
+   * List the chat models offered by the Groq API
+   * @returns The models, with their context windows
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    const response = await fetch("https://api.groq.com/openai/v1/models", {
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+    })
+
+    if (!response.ok) {
+      throw await createProviderError(this.name, "Groq API error", response)
+    }
+
+    const data = (await response.json()) as any
+
+    return (data.data || [])
+      .filter((model: any) => model.active !== false && !/whisper|tts|guard/i.test(model.id))
+      .map((model: any) => ({ id: model.id, provider: this.name, contextLength: model.context_window }))
+  }
+
   /**
    * Set the model to use for generation
    * @param modelName The name of the model
    */
   setModel(modelName: string): void {
+    // Groq adds and retires models faster than the catalog is refreshed, so any name is accepted
     if (!this.availableModels.includes(modelName)) {
-      throw new Error(`Model ${modelName} not available for Groq provider`)
+      this.availableModels.push(modelName)
     }
     this.currentModel = modelName
   }
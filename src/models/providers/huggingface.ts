@@ -1,5 +1,12 @@
 import fetch from "node-fetch"
-import type { ModelProvider, ModelResponse, ModelOptions } from "../types"
+import { createProviderError } from "../errors"
+import type { ModelProvider, ModelResponse, ModelOptions, ChatMessage, ModelInfo } from "../types"
+import { formatChatPrompt, promptToMessages } from "../messages"
+import { parseEmulatedToolCalls, withToolInstructions } from "../tool-emulation"
+import { readServerSentEvents } from "../sse"
+
+// A small sentence embedding model that returns one pooled vector per text
+const DEFAULT_EMBEDDING_MODEL = "sentence-transformers/all-MiniLM-L6-v2"
 
 /**
  * Hugging Face model provider
@@ -13,6 +20,7 @@ export class HuggingFaceProvider implements ModelProvider {
     "bigcode/starcoder2-15b",
   ]
   defaultModel = "mistralai/Mixtral-8x7B-Instruct-v0.1"
+  defaultEmbeddingModel = DEFAULT_EMBEDDING_MODEL
   private currentModel: string
   private apiKey: string
 
@@ -28,27 +36,41 @@ export class HuggingFaceProvider implements ModelProvider {
    * @returns The model's response
    */
   async generateResponse(prompt: string, options?: ModelOptions): Promise<ModelResponse> {
-    const url = `https://api-inference.huggingface.co/models/${this.currentModel}`
+    return this.chat(promptToMessages(prompt, options?.systemPrompt), options)
+  }
+
+  /**
+   * Generate a response from the Hugging Face model for a conversation.
+   * The Inference API only accepts plain text, so the conversation is rendered
+   * with the instruct template before it is sent, and tool calling is emulated
+   * through the prompt.
+   * @param messages The conversation messages
+   * @param options Optional parameters for generation
+   * @returns The model's response
+   */
+  async chat(messages: ChatMessage[], options?: ModelOptions): Promise<ModelResponse> {
+    const model = options?.model || this.currentModel
+    const url = `https://api-inference.huggingface.co/models/${model}`
 
     const response = await fetch(url, {
+      signal: options?.signal,
       method: "POST",
       headers: {
         Authorization: `Bearer ${this.apiKey}`,
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
-        inputs: prompt,
+        inputs: formatChatPrompt(withToolInstructions(messages, options)),
         parameters: {
-          temperature: options?.temperature || 0.7,
-          max_new_tokens: options?.maxTokens || 512,
+          temperature: options?.temperature ?? 0.7,
+          max_new_tokens: options?.maxTokens ?? 512,
           return_full_text: false,
         },
       }),
     })
 
     if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Hugging Face API error: ${error}`)
+      throw await createProviderError(this.name, "Hugging Face API error", response)
     }
 
     const data = (await response.json()) as any
@@ -56,22 +78,179 @@ export class HuggingFaceProvider implements ModelProvider {
     // Hugging Face API returns an array of generated texts
     const generatedText = Array.isArray(data) && data.length > 0 ? data[0].generated_text : ""
 
+    const toolCalls = parseEmulatedToolCalls(generatedText, options)
+
+    return {
+      text: toolCalls ? "" : generatedText,
+      toolCalls,
+      metadata: {
+        model,
+        provider: this.name,
+      },
+    }
+  }
+
+  /**
+   * Stream a response from the Hugging Face model
+   * @param prompt The prompt to send to the model
+   * @param callback The callback to receive chunks of the response
+   * @param options Optional parameters for generation
+   * @returns The complete model response when finished
+   */
+  async streamResponse(
+    prompt: string,
+    callback: (chunk: string) => void,
+    options?: ModelOptions,
+  ): Promise<ModelResponse> {
+    return this.streamChat(promptToMessages(prompt, options?.systemPrompt), callback, options)
+  }
+
+  /**
+   * Stream a response from the Hugging Face model for a conversation.
+   * When tools are offered the reply might be an emulated tool call, so it is
+   * only passed to the callback once it is known to be a normal answer.
+   * @param messages The conversation messages
+   * @param callback The callback to receive chunks of the response
+   * @param options Optional parameters for generation
+   * @returns The complete model response when finished
+   */
+  async streamChat(
+    messages: ChatMessage[],
+    callback: (chunk: string) => void,
+    options?: ModelOptions,
+  ): Promise<ModelResponse> {
+    const model = options?.model || this.currentModel
+    const url = `https://api-inference.huggingface.co/models/${model}`
+
+    const response = await fetch(url, {
+      signal: options?.signal,
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        inputs: formatChatPrompt(withToolInstructions(messages, options)),
+        parameters: {
+          temperature: options?.temperature ?? 0.7,
+          max_new_tokens: options?.maxTokens ?? 512,
+          return_full_text: false,
+        },
+        stream: true,
+      }),
+    })
+
+    if (!response.ok) {
+      throw await createProviderError(this.name, "Hugging Face API error", response)
+    }
+
+    if (!response.body) {
+      throw new Error("Failed to get response body")
+    }
+
+    const bufferOutput = !!options?.tools && options.tools.length > 0
+    let generatedText = ""
+    let generatedTokens: number | undefined
+
+    for await (const data of readServerSentEvents(response.body)) {
+      let event: any
+      try {
+        event = JSON.parse(data)
+      } catch (error) {
+        // Ignore malformed events
+        continue
+      }
+
+      // Special tokens such as </s> are not part of the answer
+      const token = event.token
+      if (token?.text && !token.special) {
+        generatedText += token.text
+        if (!bufferOutput) callback(token.text)
+      }
+
+      // The last event carries the details of the generation
+      if (event.details?.generated_tokens !== undefined) {
+        generatedTokens = event.details.generated_tokens
+      }
+    }
+
+    const toolCalls = parseEmulatedToolCalls(generatedText, options)
+
+    if (bufferOutput && !toolCalls && generatedText) {
+      callback(generatedText)
+    }
+
     return {
-      text: generatedText,
+      text: toolCalls ? "" : generatedText,
+      toolCalls,
       metadata: {
-        model: this.currentModel,
+        model,
         provider: this.name,
+        ...(generatedTokens !== undefined && { generatedTokens }),
       },
     }
   }
 
+  /**
+   * Compute embeddings with the feature extraction pipeline of the Inference API
+   * @param texts The texts to embed
+   * @param options The embedding model and a signal to cancel the request
+   * @returns One vector per text
+   */
+  async embed(texts: string[], options?: { model?: string; signal?: AbortSignal }): Promise<number[][]> {
+    const model = options?.model || this.defaultEmbeddingModel
+    const url = `https://api-inference.huggingface.co/pipeline/feature-extraction/${model}`
+
+    const response = await fetch(url, {
+      signal: options?.signal,
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ inputs: texts, options: { wait_for_model: true } }),
+    })
+
+    if (!response.ok) {
+      throw await createProviderError(this.name, "Hugging Face API error", response)
+    }
+
+    return (await response.json()) as number[][]
+  }
+
+  /**
+   * List the configured models, followed by the most used text generation models
+   * of the Hugging Face Hub that the Inference API serves
+   * @returns The models
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    // inference=warm leaves out the models the Inference API doesn't serve
+    const url =
+      "https://huggingface.co/api/models?pipeline_tag=text-generation&inference=warm&sort=downloads&direction=-1&limit=50"
+    const response = await fetch(url, {
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+    })
+
+    if (!response.ok) {
+      throw await createProviderError(this.name, "Hugging Face API error", response)
+    }
+
+    const data = (await response.json()) as any[]
+    const hubModels = data.map((model) => model.id || model.modelId)
+    const ids = [...this.availableModels, ...hubModels.filter((id) => !this.availableModels.includes(id))]
+
+    // Tool calls are emulated through the prompt, whatever the model
+    return ids.map((id) => ({ id, provider: this.name, supportsTools: false }))
+  }
+
   /**
    * Set the model to use for generation
    * @param modelName The name of the model
    */
   setModel(modelName: string): void {
+    // Any model on the Hub may be served, so names outside the catalog are accepted
     if (!this.availableModels.includes(modelName)) {
-      throw new Error(`Model ${modelName} not available for Hugging Face provider`)
+      this.availableModels.push(modelName)
     }
     this.currentModel = modelName
   }
@@ -0,0 +1,221 @@
+import fetch from "node-fetch"
+import { createProviderError } from "../errors"
+import type { ModelProvider, ModelResponse, ModelOptions, ChatMessage, ModelInfo } from "../types"
+import {
+  parseOpenAIToolCalls,
+  promptToMessages,
+  toOpenAIMessages,
+  toOpenAIResponseFormat,
+  toOpenAIToolFields,
+} from "../messages"
+import { readOpenAIChatStream } from "../sse"
+
+// Served by Ollama out of the box
+const DEFAULT_EMBEDDING_MODEL = "nomic-embed-text"
+
+/**
+ * Provider for local servers exposing an OpenAI-compatible chat completions API
+ * (Ollama, llama.cpp server, vLLM)
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+  name = "local"
+  availableModels: string[]
+  defaultModel: string
+  defaultEmbeddingModel = DEFAULT_EMBEDDING_MODEL
+  private currentModel: string
+  private baseUrl: string
+
+  constructor(baseUrl: string, defaultModel: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "")
+    this.defaultModel = defaultModel
+    this.availableModels = [defaultModel]
+    this.currentModel = this.defaultModel
+  }
+
+  /**
+   * Generate a response from the local model
+   * @param prompt The prompt to send to the model
+   * @param options Optional parameters for generation
+   * @returns The model's response
+   */
+  async generateResponse(prompt: string, options?: ModelOptions): Promise<ModelResponse> {
+    return this.chat(promptToMessages(prompt, options?.systemPrompt), options)
+  }
+
+  /**
+   * Generate a response from the local model for a conversation
+   * @param messages The conversation messages
+   * @param options Optional parameters for generation
+   * @returns The model's response
+   */
+  async chat(messages: ChatMessage[], options?: ModelOptions): Promise<ModelResponse> {
+    const url = `${this.baseUrl}/chat/completions`
+    const model = options?.model || this.currentModel
+
+    const response = await fetch(url, {
+      signal: options?.signal,
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        messages: toOpenAIMessages(messages),
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens ?? 1024,
+        stop: options?.stopSequences,
+        top_p: options?.topP,
+        ...toOpenAIToolFields(options),
+        ...toOpenAIResponseFormat(options),
+      }),
+    })
+
+    if (!response.ok) {
+      throw await createProviderError(this.name, "Local model API error", response)
+    }
+
+    const data = (await response.json()) as any
+
+    return {
+      text: data.choices[0].message.content || "",
+      toolCalls: parseOpenAIToolCalls(data.choices[0].message),
+      // Not every local server reports token usage
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens,
+            completionTokens: data.usage.completion_tokens,
+            totalTokens: data.usage.total_tokens,
+          }
+        : undefined,
+      metadata: {
+        model,
+        provider: this.name,
+        baseUrl: this.baseUrl,
+      },
+    }
+  }
+
+  /**
+   * Stream a response from the local model for a conversation
+   * @param messages The conversation messages
+   * @param callback The callback to receive chunks of the response
+   * @param options Optional parameters for generation
+   * @returns The complete model response when finished
+   */
+  async streamChat(
+    messages: ChatMessage[],
+    callback: (chunk: string) => void,
+    options?: ModelOptions,
+  ): Promise<ModelResponse> {
+    const url = `${this.baseUrl}/chat/completions`
+    const model = options?.model || this.currentModel
+
+    const response = await fetch(url, {
+      signal: options?.signal,
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        messages: toOpenAIMessages(messages),
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens ?? 1024,
+        stop: options?.stopSequences,
+        top_p: options?.topP,
+        ...toOpenAIToolFields(options),
+        ...toOpenAIResponseFormat(options),
+        stream: true,
+        // Ask for usage in the final event; servers that don't support it ignore the option
+        stream_options: { include_usage: true },
+      }),
+    })
+
+    if (!response.ok) {
+      throw await createProviderError(this.name, "Local model API error", response)
+    }
+
+    if (!response.body) {
+      throw new Error("Failed to get response body")
+    }
+
+    const { text, toolCalls, usage } = await readOpenAIChatStream(response.body, callback)
+
+    return {
+      text,
+      toolCalls,
+      usage,
+      metadata: {
+        model,
+        provider: this.name,
+        baseUrl: this.baseUrl,
+      },
+    }
+  }
+
+  /**
+   * Compute embeddings with the server's embeddings endpoint
+   * @param texts The texts to embed
+   * @param options The embedding model and a signal to cancel the request
+   * @returns One vector per text
+   */
+  async embed(texts: string[], options?: { model?: string; signal?: AbortSignal }): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      signal: options?.signal,
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: options?.model || this.defaultEmbeddingModel, input: texts }),
+    })
+
+    if (!response.ok) {
+      throw await createProviderError(this.name, "Local model API error", response)
+    }
+
+    const data = (await response.json()) as any
+
+    // The vectors may come back in any order
+    return [...data.data].sort((a: any, b: any) => a.index - b.index).map((item: any) => item.embedding)
+  }
+
+  /**
+   * List the models served by the local server
+   * @returns The models, with their context windows if the server reports them
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    const response = await fetch(`${this.baseUrl}/models`)
+
+    if (!response.ok) {
+      throw await createProviderError(this.name, "Local model API error", response)
+    }
+
+    const data = (await response.json()) as any
+
+    // vLLM reports max_model_len, some other servers context_length
+    return (data.data || []).map((model: any) => ({
+      id: model.id,
+      provider: this.name,
+      contextLength: model.context_length || model.max_model_len,
+      pricing: { input: 0, output: 0 },
+    }))
+  }
+
+  /**
+   * Set the model to use for generation
+   * @param modelName The name of the model
+   */
+  setModel(modelName: string): void {
+    // Local servers decide which models they serve, so any name is accepted
+    if (!this.availableModels.includes(modelName)) {
+      this.availableModels.push(modelName)
+    }
+    this.currentModel = modelName
+  }
+
+  /**
+   * Get the current model being used
+   * @returns The name of the current model
+   */
+  getCurrentModel(): string {
+    return this.currentModel
+  }
+}
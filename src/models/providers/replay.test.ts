@@ -0,0 +1,160 @@
+import fs from "fs/promises"
+import os from "os"
+import path from "path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { ModelProviderError } from "../errors"
+import { ReplayProvider, createFixtureFile, createFixtureKey } from "./replay"
+import { parseEmulatedToolCalls } from "../tool-emulation"
+import type { ChatMessage, ModelOptions, ModelProvider, ModelResponse } from "../types"
+
+/**
+ * Create a provider answering each conversation with a numbered echo of its last message
+ * @param name The name of the provider
+ * @returns The provider and the conversations it was called with
+ */
+function createEchoProvider(name = "echo"): ModelProvider & { calls: ChatMessage[][] } {
+  let currentModel = "echo-1"
+  const calls: ChatMessage[][] = []
+
+  const chat = async (messages: ChatMessage[], options?: ModelOptions): Promise<ModelResponse> => {
+    calls.push(messages)
+    return {
+      text: `${calls.length}: ${messages[messages.length - 1].content}`,
+      usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 },
+      metadata: { model: options?.model || currentModel },
+    }
+  }
+
+  return {
+    name,
+    availableModels: ["echo-1", "echo-2"],
+    defaultModel: "echo-1",
+    calls,
+    chat,
+    generateResponse: (prompt, options) => chat([{ role: "user", content: prompt }], options),
+    setModel: (model) => {
+      currentModel = model
+    },
+    getCurrentModel: () => currentModel,
+  }
+}
+
+describe("ReplayProvider", () => {
+  let fixturePath: string
+
+  beforeEach(async () => {
+    fixturePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "codeforge-replay-")), "fixtures.jsonl")
+    await createFixtureFile(fixturePath)
+  })
+
+  afterEach(async () => {
+    await fs.rm(path.dirname(fixturePath), { recursive: true, force: true })
+  })
+
+  it("replays recorded responses without calling the recorded provider", async () => {
+    const echo = createEchoProvider()
+    const recorder = ReplayProvider.record(echo, fixturePath)
+    const recorded = await recorder.chat([{ role: "user", content: "Review this" }])
+
+    const [replayer] = await ReplayProvider.replay(fixturePath)
+    const replayed = await replayer.chat([{ role: "user", content: "Review this" }])
+
+    expect(echo.calls).toHaveLength(1)
+    expect(replayed.text).toBe(recorded.text)
+    expect(replayed.usage).toEqual(recorded.usage)
+    expect(replayed.metadata).toMatchObject({ model: "echo-1", provider: "echo", replayed: true })
+  })
+
+  it("matches requests regardless of trailing whitespace and line endings", async () => {
+    const recorder = ReplayProvider.record(createEchoProvider(), fixturePath)
+    await recorder.chat([{ role: "user", content: "line one\nline two" }])
+
+    const [replayer] = await ReplayProvider.replay(fixturePath)
+    const replayed = await replayer.chat([{ role: "user", content: "line one   \r\nline two\n" }])
+
+    expect(replayed.text).toBe("1: line one\nline two")
+    expect(createFixtureKey([{ role: "user", content: " a \n" }])).toBe(
+      createFixtureKey([{ role: "user", content: " a" }]),
+    )
+  })
+
+  it("answers repeated requests in recorded order, then with the last response", async () => {
+    const recorder = ReplayProvider.record(createEchoProvider(), fixturePath)
+    const messages: ChatMessage[] = [{ role: "user", content: "again" }]
+    await recorder.chat(messages)
+    await recorder.chat(messages)
+
+    const [replayer] = await ReplayProvider.replay(fixturePath)
+
+    expect((await replayer.chat(messages)).text).toBe("1: again")
+    expect((await replayer.chat(messages)).text).toBe("2: again")
+    expect((await replayer.chat(messages)).text).toBe("2: again")
+  })
+
+  it("replays conversations continuing emulated tool calls", async () => {
+    const options = { tools: [{ name: "read_file", description: "Read a file", parameters: {} }] }
+    const reply = JSON.stringify({ tool_calls: [{ name: "read_file", arguments: { path: "a.ts" } }] })
+    const continueConversation = (): ChatMessage[] => {
+      const toolCalls = parseEmulatedToolCalls(reply, options)!
+      return [
+        { role: "user", content: "Read a.ts" },
+        { role: "assistant", content: reply, toolCalls },
+        { role: "tool", content: "export {}", toolCallId: toolCalls[0].id },
+      ]
+    }
+
+    const recorder = ReplayProvider.record(createEchoProvider(), fixturePath)
+    await recorder.chat(continueConversation())
+
+    vi.useFakeTimers({ now: Date.now() + 60_000 })
+    try {
+      const [replayer] = await ReplayProvider.replay(fixturePath)
+      expect((await replayer.chat(continueConversation())).text).toBe("1: export {}")
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it("refuses requests that were not recorded, without retrying", async () => {
+    const recorder = ReplayProvider.record(createEchoProvider(), fixturePath)
+    await recorder.chat([{ role: "user", content: "recorded" }])
+
+    const [replayer] = await ReplayProvider.replay(fixturePath)
+    const error = await replayer.chat([{ role: "user", content: "not recorded" }]).catch((error) => error)
+
+    expect(error).toBeInstanceOf(ModelProviderError)
+    expect(error.status).toBe(404)
+  })
+
+  it("creates a provider for each recorded provider, with its recorded models", async () => {
+    const echo = createEchoProvider("echo")
+    await ReplayProvider.record(echo, fixturePath).chat([{ role: "user", content: "first" }])
+    echo.setModel("echo-2")
+    await ReplayProvider.record(echo, fixturePath).generateResponse("second")
+    await ReplayProvider.record(createEchoProvider("other"), fixturePath).generateResponse("third")
+
+    const providers = await ReplayProvider.replay(fixturePath)
+
+    expect(providers.map((provider) => provider.name)).toEqual(["echo", "other"])
+    expect(providers[0].availableModels).toEqual(["echo-1", "echo-2"])
+    expect(providers[0].getCurrentModel()).toBe("echo-1")
+    expect((await providers[0].generateResponse("second")).metadata?.model).toBe("echo-2")
+  })
+
+  it("streams a replayed response as a single chunk", async () => {
+    await ReplayProvider.record(createEchoProvider(), fixturePath).chat([{ role: "user", content: "stream me" }])
+
+    const [replayer] = await ReplayProvider.replay(fixturePath)
+    const chunks: string[] = []
+    const response = await replayer.streamChat([{ role: "user", content: "stream me" }], (chunk) => chunks.push(chunk))
+
+    expect(chunks).toEqual(["1: stream me"])
+    expect(response.text).toBe("1: stream me")
+  })
+
+  it("reports the line of an invalid fixture", async () => {
+    await fs.writeFile(fixturePath, `${JSON.stringify({ key: "k", provider: "echo" })}\nnot json\n`)
+
+    await expect(ReplayProvider.replay(fixturePath)).rejects.toThrow("Invalid fixture on line 2")
+  })
+})
@@ -0,0 +1,262 @@
+import fs from "fs/promises"
+import path from "path"
+import crypto from "crypto"
+import { ModelProviderError } from "../errors"
+import { promptToMessages } from "../messages"
+import { normalizePrompt } from "../response-cache"
+import type { ModelProvider, ModelResponse, ModelOptions, ChatMessage, ModelInfo } from "../types"
+
+/**
+ * Interface for a recorded request and its response, one per line of a fixture file
+ */
+export interface ReplayFixture {
+  key: string
+  provider: string
+  model: string
+  messages: ChatMessage[]
+  response: ModelResponse
+}
+
+/**
+ * Provider that records the responses of another provider to a fixture file, or
+ * replays them from one. Requests are matched on a hash of their normalized messages,
+ * so a replayed run gets the same answers without calling any API.
+ *
+ * In replay mode one provider is created for each provider in the fixture file, under
+ * its name and with its model, so requests are routed and prompts built as when recording.
+ */
+export class ReplayProvider implements ModelProvider {
+  name: string
+  availableModels: string[]
+  defaultModel: string
+  private currentModel: string
+  private fixturePath: string
+  private recorded?: ModelProvider
+  private fixtures: ReplayFixture[]
+  // How many times each request has been answered, so repeated requests get the responses in recorded order
+  private replayCounts = new Map<string, number>()
+
+  /**
+   * Create a provider that records the responses of another provider
+   * @param provider The provider to record
+   * @param fixturePath The fixture file to append to
+   * @returns The recording provider
+   */
+  static record(provider: ModelProvider, fixturePath: string): ReplayProvider {
+    return new ReplayProvider(provider.name, provider.getCurrentModel(), fixturePath, [], provider)
+  }
+
+  /**
+   * Create the providers that replay the responses in a fixture file
+   * @param fixturePath The fixture file to replay
+   * @returns One provider for each provider in the fixture file
+   */
+  static async replay(fixturePath: string): Promise<ReplayProvider[]> {
+    const fixtures = await loadFixtures(fixturePath)
+    const providerNames = [...new Set(fixtures.map((fixture) => fixture.provider))]
+
+    return providerNames.map((name) => {
+      const models = fixtures.filter((fixture) => fixture.provider === name).map((fixture) => fixture.model)
+      const provider = new ReplayProvider(name, models[0], fixturePath, fixtures)
+      provider.availableModels = [...new Set(models)]
+      return provider
+    })
+  }
+
+  private constructor(
+    name: string,
+    model: string,
+    fixturePath: string,
+    fixtures: ReplayFixture[],
+    recorded?: ModelProvider,
+  ) {
+    this.name = name
+    this.defaultModel = model
+    this.availableModels = recorded ? recorded.availableModels : [model]
+    this.currentModel = model
+    this.fixturePath = fixturePath
+    this.fixtures = fixtures
+    this.recorded = recorded
+  }
+
+  /**
+   * Generate a response, recorded from or replayed to the wrapped provider
+   * @param prompt The prompt to send to the model
+   * @param options Optional parameters for generation
+   * @returns The model's response
+   */
+  async generateResponse(prompt: string, options?: ModelOptions): Promise<ModelResponse> {
+    return this.chat(promptToMessages(prompt, options?.systemPrompt), options)
+  }
+
+  /**
+   * Generate a response for a conversation, recorded from or replayed to the wrapped provider
+   * @param messages The conversation messages
+   * @param options Optional parameters for generation
+   * @returns The model's response
+   */
+  async chat(messages: ChatMessage[], options?: ModelOptions): Promise<ModelResponse> {
+    if (!this.recorded) {
+      return this.replayResponse(messages)
+    }
+
+    const response = await this.recorded.chat(messages, { ...options, model: options?.model || this.currentModel })
+    await this.recordResponse(messages, options, response)
+    return response
+  }
+
+  /**
+   * Stream a response for a conversation. Replayed responses arrive in a single chunk.
+   * @param messages The conversation messages
+   * @param callback The callback to receive chunks of the response
+   * @param options Optional parameters for generation
+   * @returns The complete model response when finished
+   */
+  async streamChat(
+    messages: ChatMessage[],
+    callback: (chunk: string) => void,
+    options?: ModelOptions,
+  ): Promise<ModelResponse> {
+    if (!this.recorded) {
+      const response = this.replayResponse(messages)
+      if (response.text) callback(response.text)
+      return response
+    }
+
+    const recordedOptions = { ...options, model: options?.model || this.currentModel }
+    let response: ModelResponse
+    if (this.recorded.streamChat) {
+      response = await this.recorded.streamChat(messages, callback, recordedOptions)
+    } else {
+      response = await this.recorded.chat(messages, recordedOptions)
+      if (response.text) callback(response.text)
+    }
+
+    await this.recordResponse(messages, options, response)
+    return response
+  }
+
+  /**
+   * List the models of the wrapped provider, or the models in the fixture file
+   * @returns The models
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    if (this.recorded?.listModels) {
+      return this.recorded.listModels()
+    }
+
+    return this.availableModels.map((id) => ({ id, provider: this.name }))
+  }
+
+  /**
+   * Set the model to use for generation
+   * @param modelName The name of the model
+   */
+  setModel(modelName: string): void {
+    this.recorded?.setModel(modelName)
+    if (!this.availableModels.includes(modelName)) {
+      this.availableModels.push(modelName)
+    }
+    this.currentModel = modelName
+  }
+
+  /**
+   * Get the current model being used
+   * @returns The name of the current model
+   */
+  getCurrentModel(): string {
+    return this.currentModel
+  }
+
+  /**
+   * Find the recorded response to a conversation
+   * @param messages The conversation messages
+   * @returns The recorded response
+   * @throws ModelProviderError if the fixture file has no response to the conversation
+   */
+  private replayResponse(messages: ChatMessage[]): ModelResponse {
+    const key = createFixtureKey(messages)
+    const matches = this.fixtures.filter((fixture) => fixture.key === key)
+
+    if (matches.length === 0) {
+      // Not retryable: asking again won't make the response appear
+      throw new ModelProviderError(
+        `No recorded response in ${this.fixturePath} for this request (prompt hash ${key.slice(0, 12)})`,
+        this.name,
+        404,
+      )
+    }
+
+    // Repeated requests get the responses in recorded order, and the last one once they run out
+    const count = this.replayCounts.get(key) || 0
+    this.replayCounts.set(key, count + 1)
+    const { response, model } = matches[Math.min(count, matches.length - 1)]
+
+    return { ...response, metadata: { ...response.metadata, model, provider: this.name, replayed: true } }
+  }
+
+  /**
+   * Append a request and its response to the fixture file
+   * @param messages The conversation messages
+   * @param options The options of the request
+   * @param response The model's response
+   */
+  private async recordResponse(
+    messages: ChatMessage[],
+    options: ModelOptions | undefined,
+    response: ModelResponse,
+  ): Promise<void> {
+    const fixture: ReplayFixture = {
+      key: createFixtureKey(messages),
+      provider: this.name,
+      model: response.metadata?.model || options?.model || this.currentModel,
+      messages,
+      response,
+    }
+
+    try {
+      await fs.appendFile(this.fixturePath, `${JSON.stringify(fixture)}\n`)
+    } catch (error) {
+      console.warn(`Failed to record response to ${this.fixturePath}:`, error)
+    }
+  }
+}
+
+/**
+ * Create the key a request is matched on
+ * @param messages The conversation messages
+ * @returns A hash of the messages, insensitive to insignificant whitespace
+ */
+export function createFixtureKey(messages: ChatMessage[]): string {
+  const normalized = messages.map((message) => ({ ...message, content: normalizePrompt(message.content) }))
+  return crypto.createHash("sha256").update(JSON.stringify(normalized)).digest("hex")
+}
+
+/**
+ * Create an empty fixture file, replacing any previous recording
+ * @param fixturePath The fixture file
+ */
+export async function createFixtureFile(fixturePath: string): Promise<void> {
+  await fs.mkdir(path.dirname(fixturePath), { recursive: true })
+  await fs.writeFile(fixturePath, "")
+}
+
+/**
+ * Read the recorded requests of a fixture file
+ * @param fixturePath The fixture file
+ * @returns The recorded requests
+ */
+async function loadFixtures(fixturePath: string): Promise<ReplayFixture[]> {
+  const data = await fs.readFile(fixturePath, "utf-8")
+
+  return data
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as ReplayFixture
+      } catch (error) {
+        throw new Error(`Invalid fixture on line ${index + 1} of ${fixturePath}`)
+      }
+    })
+}
@@ -0,0 +1,183 @@
+import fs from "fs/promises"
+import path from "path"
+import crypto from "crypto"
+import { getConfig, getConfigDir } from "../config/config-manager"
+import type { ChatMessage, ModelOptions, ModelResponse } from "./types"
+
+// Set to false by the --no-cache flag
+let cacheEnabled = true
+
+/**
+ * Interface for a request whose response can be cached
+ */
+export interface CacheableRequest {
+  provider: string
+  model: string
+  messages: ChatMessage[]
+  options: ModelOptions
+}
+
+/**
+ * Enable or disable the response cache for this session
+ * @param enabled Whether the cache should be used
+ */
+export function setCacheEnabled(enabled: boolean): void {
+  cacheEnabled = enabled
+}
+
+/**
+ * Check whether the response cache is in use
+ * @returns Whether the cache is enabled both for this session and in the configuration
+ */
+export function isCacheEnabled(): boolean {
+  return cacheEnabled && getConfig().performance.cacheResults
+}
+
+/**
+ * Normalize a prompt so insignificant whitespace differences map to the same cache entry
+ * @param text The prompt text
+ * @returns The normalized text
+ */
+export function normalizePrompt(text: string): string {
+  return text
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .trim()
+}
+
+/**
+ * Create the cache key for a request
+ * @param request The request
+ * @returns The cache key
+ */
+export function createCacheKey(request: CacheableRequest): string {
+  const keyMaterial = stableStringify({
+    provider: request.provider,
+    model: request.model,
+    messages: request.messages.map((message) => ({ ...message, content: normalizePrompt(message.content) })),
+    options: request.options,
+  })
+
+  return crypto.createHash("sha256").update(keyMaterial).digest("hex")
+}
+
+/**
+ * Look up a cached response
+ * @param request The request
+ * @returns The cached response, or null if there is no fresh entry
+ */
+export async function getCachedResponse(request: CacheableRequest): Promise<ModelResponse | null> {
+  const filePath = getCacheFilePath(createCacheKey(request))
+
+  try {
+    const entry = JSON.parse(await fs.readFile(filePath, "utf-8"))
+    const expiryMs = getConfig().performance.cacheExpiry * 1000
+
+    if (Date.now() - entry.createdAt > expiryMs) {
+      await fs.rm(filePath, { force: true })
+      return null
+    }
+
+    return {
+      ...entry.response,
+      metadata: { ...entry.response.metadata, cached: true, cachedAt: new Date(entry.createdAt).toISOString() },
+    }
+  } catch (error) {
+    // Missing or unreadable entries are cache misses
+    return null
+  }
+}
+
+/**
+ * Store a response in the cache
+ * @param request The request
+ * @param response The model's response
+ */
+export async function setCachedResponse(request: CacheableRequest, response: ModelResponse): Promise<void> {
+  try {
+    const cacheDir = getCacheDir()
+    await fs.mkdir(cacheDir, { recursive: true })
+
+    // Attempt records describe this call only, so they are not cached
+    const { attempts, ...metadata } = response.metadata || {}
+
+    await fs.writeFile(
+      getCacheFilePath(createCacheKey(request)),
+      JSON.stringify({ createdAt: Date.now(), response: { ...response, metadata } }),
+    )
+  } catch (error) {
+    console.warn("Failed to write response cache entry:", error)
+  }
+}
+
+/**
+ * Remove all cached responses
+ * @returns The number of entries removed
+ */
+export async function clearCache(): Promise<number> {
+  const entries = await listCacheEntries()
+  await Promise.all(entries.map((entry) => fs.rm(path.join(getCacheDir(), entry), { force: true })))
+  return entries.length
+}
+
+/**
+ * Count the cached responses
+ * @returns The number of entries in the cache
+ */
+export async function getCacheSize(): Promise<number> {
+  return (await listCacheEntries()).length
+}
+
+/**
+ * List the cache entry files
+ * @returns The file names of the cache entries
+ */
+async function listCacheEntries(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(getCacheDir())
+    return files.filter((file) => file.endsWith(".json"))
+  } catch (error) {
+    // The cache directory might not exist yet
+    return []
+  }
+}
+
+/**
+ * Get the cache directory
+ * @returns The path of the cache directory
+ */
+function getCacheDir(): string {
+  return path.join(getConfigDir(), "cache")
+}
+
+/**
+ * Get the file path of a cache entry
+ * @param key The cache key
+ * @returns The path of the entry file
+ */
+function getCacheFilePath(key: string): string {
+  return path.join(getCacheDir(), `${key}.json`)
+}
+
+/**
+ * Serialize a value to JSON with object keys sorted, so equal values always give the same string
+ * @param value The value to serialize
+ * @returns The JSON string
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+    return `{${entries.join(",")}}`
+  }
+
+  return JSON.stringify(value)
+}
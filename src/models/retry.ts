@@ -0,0 +1,115 @@
+import { isRetryableError, ModelProviderError, OperationCancelledError, throwIfCancelled } from "./errors"
+
+/**
+ * Interface for the retry policy of model calls
+ */
+export interface RetryPolicy {
+  maxRetries: number
+  initialDelayMs: number
+  maxDelayMs: number
+  backoffFactor: number
+  jitter: boolean
+}
+
+/**
+ * Interface for the record of a single attempt at a model call
+ */
+export interface ModelAttempt {
+  provider: string
+  model: string
+  attempt: number
+  success: boolean
+  durationMs: number
+  status?: number
+  error?: string
+  delayMs?: number
+}
+
+/**
+ * Run a model call, retrying transient failures with exponential backoff
+ * @param operation The model call
+ * @param policy The retry policy
+ * @param onAttempt Callback receiving the record of each attempt (without provider and model)
+ * @param signal Cancels the call, including the wait before a retry
+ * @returns The result of the first successful attempt
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  onAttempt?: (attempt: Omit<ModelAttempt, "provider" | "model">) => void,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(signal)
+    const startTime = Date.now()
+
+    try {
+      const result = await operation()
+      onAttempt?.({ attempt, success: true, durationMs: Date.now() - startTime })
+      return result
+    } catch (error) {
+      const retryAfterMs = error instanceof ModelProviderError ? error.retryAfterMs : undefined
+      const canRetry =
+        !signal?.aborted &&
+        attempt <= policy.maxRetries &&
+        isRetryableError(error) &&
+        // A server asking us to wait longer than we are willing to counts as exhausted
+        (retryAfterMs === undefined || retryAfterMs <= policy.maxDelayMs)
+      const delayMs = canRetry ? computeBackoffDelay(attempt, policy, retryAfterMs) : undefined
+
+      onAttempt?.({
+        attempt,
+        success: false,
+        durationMs: Date.now() - startTime,
+        status: error instanceof ModelProviderError ? error.status : undefined,
+        error: error instanceof Error ? error.message : String(error),
+        delayMs,
+      })
+
+      if (delayMs === undefined) {
+        throw error
+      }
+
+      await sleep(delayMs, signal)
+    }
+  }
+}
+
+/**
+ * Wait before the next attempt
+ * @param ms The delay in milliseconds
+ * @param signal Ends the wait early when aborted
+ * @throws OperationCancelledError if the signal is aborted during the wait
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new OperationCancelledError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/**
+ * Compute the delay before the next attempt
+ * @param attempt The number of the attempt that just failed, starting at 1
+ * @param policy The retry policy
+ * @param retryAfterMs The delay requested by the server, if any
+ * @returns The delay in milliseconds
+ */
+export function computeBackoffDelay(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs
+  }
+
+  const delay = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt - 1))
+
+  // Full jitter spreads out retries from concurrent callers
+  return policy.jitter ? Math.round(Math.random() * delay) : delay
+}
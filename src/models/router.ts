@@ -0,0 +1,174 @@
+import { getConfig } from "../config/config-manager"
+
+/**
+ * Interface for a routing rule, which sends matching requests to a provider and model.
+ * Every condition of a rule must hold for it to match; a rule without conditions matches everything.
+ */
+export interface RoutingRule {
+  name: string
+  match?: {
+    /**
+     * The agent making the request, e.g. "CodeReviewAgent"
+     */
+    agent?: string | string[]
+    /**
+     * The type of the task, e.g. "code-review", or "chat" for chat queries
+     */
+    taskType?: string | string[]
+    /**
+     * The language of the file the request is about, e.g. "typescript"
+     */
+    language?: string | string[]
+    /**
+     * Bounds on the estimated number of prompt tokens
+     */
+    minPromptTokens?: number
+    maxPromptTokens?: number
+    /**
+     * A regular expression tested case-insensitively against the prompt
+     */
+    pattern?: string
+  }
+  provider: string
+  model?: string
+  /**
+   * Defaults for requests that don't set them
+   */
+  temperature?: number
+  maxTokens?: number
+}
+
+/**
+ * Interface for the facts about a request that rules match on
+ */
+export interface RoutingRequest {
+  prompt: string
+  promptTokens: number
+  agent?: string
+  taskType?: string
+  language?: string
+}
+
+/**
+ * Interface for the evaluation of a single rule against a request
+ */
+export interface RuleEvaluation {
+  rule: RoutingRule
+  matched: boolean
+  /**
+   * The conditions that failed, or why a matching rule was not used
+   */
+  reasons: string[]
+}
+
+/**
+ * Get the configured routing rules
+ * @returns The rules, in order of priority
+ */
+export function getRoutingRules(): RoutingRule[] {
+  return getConfig().routing.rules
+}
+
+/**
+ * Evaluate every routing rule against a request
+ * @param request The request to route
+ * @param isAvailable Function checking whether a provider can be used
+ * @returns The evaluation of each rule, in order of priority
+ */
+export function explainRoute(request: RoutingRequest, isAvailable: (provider: string) => boolean): RuleEvaluation[] {
+  return getRoutingRules().map((rule) => {
+    const reasons = getMismatches(rule, request)
+
+    if (reasons.length === 0 && !isAvailable(rule.provider)) {
+      reasons.push(`provider ${rule.provider} is not available`)
+    }
+
+    return { rule, matched: reasons.length === 0, reasons }
+  })
+}
+
+/**
+ * Find the rule that routes a request
+ * @param request The request to route
+ * @param isAvailable Function checking whether a provider can be used
+ * @returns The first matching rule whose provider is available, or null if no rule applies
+ */
+export function matchRoutingRule(
+  request: RoutingRequest,
+  isAvailable: (provider: string) => boolean,
+): RoutingRule | null {
+  for (const rule of getRoutingRules()) {
+    if (getMismatches(rule, request).length === 0 && isAvailable(rule.provider)) {
+      return rule
+    }
+  }
+
+  return null
+}
+
+/**
+ * Check the conditions of a rule against a request
+ * @param rule The routing rule
+ * @param request The request to route
+ * @returns A description of each condition that does not hold
+ */
+function getMismatches(rule: RoutingRule, request: RoutingRequest): string[] {
+  const match = rule.match || {}
+  const mismatches: string[] = []
+
+  if (match.agent !== undefined && !matchesAny(match.agent, request.agent)) {
+    mismatches.push(`agent is ${request.agent || "none"}, not ${formatList(match.agent)}`)
+  }
+
+  if (match.taskType !== undefined && !matchesAny(match.taskType, request.taskType)) {
+    mismatches.push(`task type is ${request.taskType || "none"}, not ${formatList(match.taskType)}`)
+  }
+
+  if (match.language !== undefined && !matchesAny(match.language, request.language)) {
+    mismatches.push(`language is ${request.language || "unknown"}, not ${formatList(match.language)}`)
+  }
+
+  if (match.minPromptTokens !== undefined && request.promptTokens < match.minPromptTokens) {
+    mismatches.push(`prompt has ${request.promptTokens} tokens, fewer than ${match.minPromptTokens}`)
+  }
+
+  if (match.maxPromptTokens !== undefined && request.promptTokens > match.maxPromptTokens) {
+    mismatches.push(`prompt has ${request.promptTokens} tokens, more than ${match.maxPromptTokens}`)
+  }
+
+  if (match.pattern !== undefined) {
+    try {
+      if (!new RegExp(match.pattern, "i").test(request.prompt)) {
+        mismatches.push(`prompt does not match /${match.pattern}/`)
+      }
+    } catch (error) {
+      mismatches.push(`pattern /${match.pattern}/ is not a valid regular expression`)
+    }
+  }
+
+  return mismatches
+}
+
+/**
+ * Check a value against one or more allowed values, ignoring case
+ * @param allowed The allowed value or values
+ * @param value The value to check
+ * @returns Whether the value is allowed
+ */
+function matchesAny(allowed: string | string[], value?: string): boolean {
+  if (!value) {
+    return false
+  }
+
+  const values = Array.isArray(allowed) ? allowed : [allowed]
+  return values.some((candidate) => candidate.toLowerCase() === value.toLowerCase())
+}
+
+/**
+ * Format the allowed values of a condition for messages to the user
+ * @param allowed The allowed value or values
+ * @returns The formatted values
+ */
+function formatList(allowed: string | string[]): string {
+  return Array.isArray(allowed) ? allowed.join(" or ") : allowed
+}
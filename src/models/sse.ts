@@ -0,0 +1,98 @@
+import type { ModelResponse, ToolCall } from "./types"
+import { parseOpenAIToolCalls } from "./messages"
+
+/**
+ * Read the data payloads of a server-sent events stream
+ * @param body The response body
+ * @returns The data payload of each event, until the stream ends or sends [DONE]
+ */
+export async function* readServerSentEvents(body: NodeJS.ReadableStream): AsyncGenerator<string> {
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  for await (const chunk of body) {
+    buffer += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true })
+
+    // Events are separated by blank lines and may be split across chunks
+    const events = buffer.split(/\r?\n\r?\n/)
+    buffer = events.pop() || ""
+
+    for (const event of events) {
+      const data = parseEventData(event)
+      if (data === "[DONE]") return
+      if (data !== null) yield data
+    }
+  }
+
+  const data = parseEventData(buffer)
+  if (data !== null && data !== "[DONE]") {
+    yield data
+  }
+}
+
+/**
+ * Extract the data of a single event
+ * @param event The raw event text
+ * @returns The data, or null if the event has no data lines
+ */
+function parseEventData(event: string): string | null {
+  const dataLines = event
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).replace(/^ /, ""))
+
+  return dataLines.length > 0 ? dataLines.join("\n") : null
+}
+
+/**
+ * Read a streamed chat completion from an OpenAI-compatible API
+ * @param body The response body
+ * @param callback The callback to receive chunks of the response text
+ * @returns The complete text, tool calls and usage, if the server reported it
+ */
+export async function readOpenAIChatStream(
+  body: NodeJS.ReadableStream,
+  callback: (chunk: string) => void,
+): Promise<Pick<ModelResponse, "text" | "toolCalls" | "usage">> {
+  let text = ""
+  let usage: ModelResponse["usage"]
+  // Tool calls arrive in fragments, keyed by their index
+  const toolCallFragments: Array<{ id?: string; function: { name: string; arguments: string } }> = []
+
+  for await (const data of readServerSentEvents(body)) {
+    let event: any
+    try {
+      event = JSON.parse(data)
+    } catch (error) {
+      // Ignore malformed events
+      continue
+    }
+
+    const delta = event.choices?.[0]?.delta
+    if (delta?.content) {
+      text += delta.content
+      callback(delta.content)
+    }
+
+    for (const fragment of delta?.tool_calls || []) {
+      const toolCall = (toolCallFragments[fragment.index ?? 0] ||= { function: { name: "", arguments: "" } })
+      if (fragment.id) toolCall.id = fragment.id
+      if (fragment.function?.name) toolCall.function.name += fragment.function.name
+      if (fragment.function?.arguments) toolCall.function.arguments += fragment.function.arguments
+    }
+
+    // Groq reports usage in an x_groq field of the last event
+    const eventUsage = event.usage || event.x_groq?.usage
+    if (eventUsage) {
+      usage = {
+        promptTokens: eventUsage.prompt_tokens,
+        completionTokens: eventUsage.completion_tokens,
+        totalTokens: eventUsage.total_tokens,
+      }
+    }
+  }
+
+  const toolCalls: ToolCall[] | undefined = parseOpenAIToolCalls({ tool_calls: toolCallFragments.filter(Boolean) })
+
+  return { text, toolCalls, usage }
+}
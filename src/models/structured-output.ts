@@ -0,0 +1,110 @@
+import { ZodFirstPartyTypeKind } from "zod"
+import type { ZodError, ZodTypeAny } from "zod"
+
+/**
+ * Convert a zod schema to a JSON Schema, so that it can be described to the model.
+ * Only the constructs that matter for describing the shape of a reply are supported;
+ * anything else is described as an unconstrained value.
+ * @param schema The zod schema
+ * @returns The JSON Schema
+ */
+export function toJsonSchema(schema: ZodTypeAny): Record<string, any> {
+  const def = schema._def
+  let jsonSchema: Record<string, any>
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, ZodTypeAny> = def.shape()
+      jsonSchema = {
+        type: "object",
+        properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+        required: Object.keys(shape).filter((key) => !shape[key].isOptional()),
+      }
+      break
+    }
+    case ZodFirstPartyTypeKind.ZodArray:
+      jsonSchema = { type: "array", items: toJsonSchema(def.type) }
+      break
+    case ZodFirstPartyTypeKind.ZodString:
+      jsonSchema = { type: "string" }
+      break
+    case ZodFirstPartyTypeKind.ZodNumber:
+      jsonSchema = { type: def.checks.some((check: any) => check.kind === "int") ? "integer" : "number" }
+      break
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      jsonSchema = { type: "boolean" }
+      break
+    case ZodFirstPartyTypeKind.ZodEnum:
+      jsonSchema = { type: "string", enum: def.values }
+      break
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      jsonSchema = { const: def.value }
+      break
+    case ZodFirstPartyTypeKind.ZodUnion:
+      jsonSchema = { anyOf: def.options.map((option: ZodTypeAny) => toJsonSchema(option)) }
+      break
+    case ZodFirstPartyTypeKind.ZodRecord:
+      jsonSchema = { type: "object", additionalProperties: toJsonSchema(def.valueType) }
+      break
+    case ZodFirstPartyTypeKind.ZodNullable:
+      jsonSchema = { anyOf: [toJsonSchema(def.innerType), { type: "null" }] }
+      break
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodDefault:
+      jsonSchema = toJsonSchema(def.innerType)
+      break
+    case ZodFirstPartyTypeKind.ZodEffects:
+      jsonSchema = toJsonSchema(def.schema)
+      break
+    default:
+      jsonSchema = {}
+  }
+
+  return schema.description ? { ...jsonSchema, description: schema.description } : jsonSchema
+}
+
+/**
+ * Build the instructions asking the model to answer with JSON matching a schema
+ * @param schema The zod schema of the reply
+ * @returns The instructions to add to the prompt
+ */
+export function buildSchemaInstructions(schema: ZodTypeAny): string {
+  return (
+    `Reply with ONLY a JSON value matching this JSON Schema, without any other text:\n` +
+    `${JSON.stringify(toJsonSchema(schema))}`
+  )
+}
+
+/**
+ * Extract the JSON value from a model reply
+ * @param text The text of the reply
+ * @returns The parsed value
+ * @throws SyntaxError if the reply contains no valid JSON
+ */
+export function parseJsonReply(text: string): unknown {
+  // The JSON may be wrapped in a code block or surrounded by a sentence or two
+  const codeBlockMatch = text.match(/```(?:json)?\s*\n?([\s\S]*?)```/)
+  const candidate = (codeBlockMatch ? codeBlockMatch[1] : text).trim()
+
+  try {
+    return JSON.parse(candidate)
+  } catch (error) {
+    const start = candidate.search(/[[{]/)
+    const end = Math.max(candidate.lastIndexOf("}"), candidate.lastIndexOf("]"))
+
+    if (start === -1 || end <= start) {
+      throw new SyntaxError("The reply contains no JSON value")
+    }
+
+    return JSON.parse(candidate.slice(start, end + 1))
+  }
+}
+
+/**
+ * Describe validation errors so that the model can correct its reply
+ * @param error The zod validation error
+ * @returns One line per problem, with the path of the offending value
+ */
+export function formatValidationErrors(error: ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.length > 0 ? issue.path.join(".") : "(root)"}: ${issue.message}`)
+}
@@ -0,0 +1,63 @@
+import type { ChatMessage } from "./types"
+
+// Splits text the way BPE tokenizers pre-tokenize it: words with their leading space,
+// numbers, runs of punctuation and whitespace
+const PRE_TOKENIZER = /'(?:s|t|re|ve|m|ll|d)| ?[A-Za-z\u00C0-\uFFFF]+| ?[0-9]+| ?[^\sA-Za-z0-9\u00C0-\uFFFF]+|\s+/g
+
+// Per-message overhead of chat formats (role markers and separators)
+const TOKENS_PER_MESSAGE = 4
+
+/**
+ * Estimate the number of tokens in a text, for calls where the API reports no usage.
+ * It stays close to BPE tokenizers for English and source code without depending
+ * on any particular model's vocabulary.
+ * @param text The text
+ * @returns The estimated number of tokens
+ */
+export function estimateTokens(text: string): number {
+  if (!text) {
+    return 0
+  }
+
+  let tokens = 0
+
+  for (const [piece] of text.matchAll(PRE_TOKENIZER)) {
+    const trimmed = piece.trim()
+
+    if (!trimmed) {
+      // Indentation and blank lines are usually merged into a few tokens
+      tokens += piece.includes("\n") ? piece.split("\n").length - 1 : 1
+    } else if (/^[0-9]+$/.test(trimmed)) {
+      // Numbers are split into groups of up to three digits
+      tokens += Math.ceil(trimmed.length / 3)
+    } else if (/^[A-Za-z\u00C0-\uFFFF]+$/.test(trimmed)) {
+      // Common words are a single token, long or rare words split into pieces
+      tokens += trimmed.length <= 6 ? 1 : Math.ceil(trimmed.length / 4)
+    } else {
+      // Punctuation merges into pairs at best
+      tokens += Math.ceil(trimmed.length / 2)
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Estimate the number of prompt tokens of a conversation
+ * @param messages The conversation messages
+ * @returns The estimated number of tokens
+ */
+export function estimateMessagesTokens(messages: ChatMessage[]): number {
+  // Every reply is primed with an assistant marker
+  let tokens = 3
+
+  for (const message of messages) {
+    tokens += TOKENS_PER_MESSAGE + estimateTokens(message.content)
+
+    if (message.toolCalls) {
+      tokens += estimateTokens(JSON.stringify(message.toolCalls))
+    }
+  }
+
+  return tokens
+}
@@ -0,0 +1,109 @@
+import type { ChatMessage, ModelOptions, ToolCall } from "./types"
+
+/**
+ * Prompt-based tool calling for models without native function calling support.
+ * The tool definitions are described in the system prompt and the model is asked
+ * to answer with a JSON object when it wants to call one.
+ */
+
+/**
+ * Add the tool instructions to a conversation
+ * @param messages The conversation messages
+ * @param options The generation options holding the tool definitions
+ * @returns The conversation with the tool instructions added to the system message
+ */
+export function withToolInstructions(messages: ChatMessage[], options?: ModelOptions): ChatMessage[] {
+  if (!options?.tools || options.tools.length === 0 || options.toolChoice === "none") {
+    return messages
+  }
+
+  const instructions = buildToolInstructions(options)
+  const systemIndex = messages.findIndex((message) => message.role === "system")
+
+  if (systemIndex === -1) {
+    return [{ role: "system", content: instructions }, ...messages]
+  }
+
+  return messages.map((message, index) =>
+    index === systemIndex ? { ...message, content: `${message.content}\n\n${instructions}` } : message,
+  )
+}
+
+/**
+ * Build the instructions describing the available tools
+ * @param options The generation options holding the tool definitions
+ * @returns The instructions to add to the system prompt
+ */
+function buildToolInstructions(options: ModelOptions): string {
+  const tools = options.tools || []
+  const toolDescriptions = tools
+    .map(
+      (tool) => `- ${tool.name}: ${tool.description}\n  Parameters (JSON Schema): ${JSON.stringify(tool.parameters)}`,
+    )
+    .join("\n")
+
+  let instructions = `You can call the following tools:\n${toolDescriptions}\n\n`
+  instructions += `To call one or more tools, reply with ONLY a JSON object of this form and nothing else:\n`
+  instructions += `{"tool_calls": [{"name": "<tool name>", "arguments": {<arguments matching the parameters>}}]}\n`
+  instructions += `The tool results will be sent back to you. When you no longer need a tool, answer normally.`
+
+  if (options.toolChoice === "required") {
+    instructions += `\nYou MUST call at least one tool in your reply.`
+  } else if (typeof options.toolChoice === "object") {
+    instructions += `\nYou MUST call the ${options.toolChoice.name} tool in your reply.`
+  }
+
+  return instructions
+}
+
+/**
+ * Serialize tool calls in the format the model was asked to use
+ * @param toolCalls The tool calls
+ * @returns The JSON text of the tool calls
+ */
+export function formatEmulatedToolCalls(toolCalls: ToolCall[]): string {
+  return JSON.stringify({
+    tool_calls: toolCalls.map((toolCall) => ({ name: toolCall.name, arguments: toolCall.arguments })),
+  })
+}
+
+/**
+ * Parse the tool calls from a model reply
+ * @param text The text of the model's reply
+ * @param options The generation options holding the tool definitions
+ * @returns The tool calls, or undefined if the reply is a normal answer
+ */
+export function parseEmulatedToolCalls(text: string, options?: ModelOptions): ToolCall[] | undefined {
+  if (!options?.tools || options.tools.length === 0) {
+    return undefined
+  }
+
+  // The JSON may be wrapped in a code block
+  const codeBlockMatch = text.match(/```(?:json)?\s*\n?([\s\S]*?)```/)
+  const candidate = (codeBlockMatch ? codeBlockMatch[1] : text).trim()
+
+  if (!candidate.startsWith("{") || !candidate.includes("tool_calls")) {
+    return undefined
+  }
+
+  try {
+    const parsed = JSON.parse(candidate)
+    if (!Array.isArray(parsed.tool_calls)) {
+      return undefined
+    }
+
+    const toolNames = new Set(options.tools.map((tool) => tool.name))
+    const toolCalls = parsed.tool_calls
+      .filter((toolCall: any) => toolCall && toolNames.has(toolCall.name))
+      .map((toolCall: any, index: number) => ({
+        id: `call_${index}`,
+        name: toolCall.name,
+        arguments: toolCall.arguments || {},
+      }))
+
+    return toolCalls.length > 0 ? toolCalls : undefined
+  } catch (error) {
+    // Not valid JSON, so treat it as a normal answer
+    return undefined
+  }
+}
@@ -1,8 +1,45 @@
+import type { ZodTypeAny } from "zod"
+
+/**
+ * Interface for a tool the model may call, with its parameters described as JSON Schema
+ */
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: Record<string, any>
+}
+
+/**
+ * Interface for a tool call requested by the model
+ */
+export interface ToolCall {
+  id: string
+  name: string
+  arguments: Record<string, any>
+}
+
+/**
+ * Function that executes a tool call and returns the result to show the model
+ */
+export type ToolHandler = (args: Record<string, any>) => Promise<string> | string
+
+/**
+ * Interface for a message in a chat conversation
+ */
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool"
+  content: string
+  name?: string
+  toolCallId?: string
+  toolCalls?: ToolCall[]
+}
+
 /**
  * Interface for model response
  */
 export interface ModelResponse {
   text: string
+  toolCalls?: ToolCall[]
   usage?: {
     promptTokens: number
     completionTokens: number
@@ -21,6 +58,77 @@ export interface ModelOptions {
   topP?: number
   frequencyPenalty?: number
   presencePenalty?: number
+  systemPrompt?: string
+  tools?: ToolDefinition[]
+  toolChoice?: "auto" | "none" | "required" | { name: string }
+  /**
+   * Aborts the request when signalled
+   */
+  signal?: AbortSignal
+  /**
+   * The model to use for this request instead of the provider's current model
+   */
+  model?: string
+  /**
+   * Ask for a JSON object instead of free text, where the API supports it
+   */
+  responseFormat?: "text" | "json"
+}
+
+/**
+ * Interface for the options accepted by the model manager, which selects a provider before generating
+ */
+export interface GenerateOptions extends ModelOptions {
+  preferredProvider?: string
+  /**
+   * The type of the task, e.g. "code-review", matched by the routing rules
+   */
+  taskType?: string
+  /**
+   * The language of the file the request is about, matched by the routing rules
+   */
+  language?: string
+  noCache?: boolean
+  agent?: string
+}
+
+/**
+ * Interface for the options of a request for a reply matching a schema
+ */
+export interface StructuredGenerateOptions<T extends ZodTypeAny> extends GenerateOptions {
+  schema: T
+  /**
+   * How many times to re-prompt with the validation errors before giving up (2 by default)
+   */
+  maxRepairAttempts?: number
+}
+
+/**
+ * Interface for a response whose reply was validated against a schema
+ */
+export interface StructuredResponse<T> extends ModelResponse {
+  data: T
+}
+
+/**
+ * Interface for the description of a model in the model catalog
+ */
+export interface ModelInfo {
+  id: string
+  provider: string
+  /**
+   * The context window in tokens
+   */
+  contextLength?: number
+  /**
+   * Whether the model supports native tool calling
+   */
+  supportsTools?: boolean
+  /**
+   * Prices per million tokens, in the configured currency
+   */
+  pricing?: { input: number; output: number }
+  deprecated?: boolean
 }
 
 /**
@@ -42,6 +150,11 @@ export interface ModelProvider {
    */
   defaultModel: string
 
+  /**
+   * The model embed uses when none is given, for providers that compute embeddings
+   */
+  defaultEmbeddingModel?: string
+
   /**
    * Generate a response from the model
    * @param prompt The prompt to send to the model
@@ -50,6 +163,14 @@ export interface ModelProvider {
    */
   generateResponse(prompt: string, options?: ModelOptions): Promise<ModelResponse>
 
+  /**
+   * Generate a response from the model for a conversation
+   * @param messages The conversation so far, including any system message
+   * @param options Optional parameters for generation
+   * @returns The model's response
+   */
+  chat(messages: ChatMessage[], options?: ModelOptions): Promise<ModelResponse>
+
   /**
    * Stream a response from the model
    * @param prompt The prompt to send to the model
@@ -59,6 +180,33 @@ export interface ModelProvider {
    */
   streamResponse?(prompt: string, callback: (chunk: string) => void, options?: ModelOptions): Promise<ModelResponse>
 
+  /**
+   * Stream a response from the model for a conversation
+   * @param messages The conversation so far, including any system message
+   * @param callback The callback to receive chunks of the response
+   * @param options Optional parameters for generation
+   * @returns The complete model response when finished
+   */
+  streamChat?(
+    messages: ChatMessage[],
+    callback: (chunk: string) => void,
+    options?: ModelOptions,
+  ): Promise<ModelResponse>
+
+  /**
+   * Compute embedding vectors for texts
+   * @param texts The texts to embed
+   * @param options The embedding model, if not the provider's default, and a signal to cancel the request
+   * @returns One vector per text, in the same order
+   */
+  embed?(texts: string[], options?: { model?: string; signal?: AbortSignal }): Promise<number[][]>
+
+  /**
+   * List the models offered by the provider's API
+   * @returns The models, with whatever metadata the API reports
+   */
+  listModels?(): Promise<ModelInfo[]>
+
   /**
    * Set the model to use for generation
    * @param modelName The name of the model
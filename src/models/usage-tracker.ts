@@ -0,0 +1,240 @@
+import fs from "fs/promises"
+import path from "path"
+import crypto from "crypto"
+import { getConfig, getConfigDir } from "../config/config-manager"
+import { findModelInfo } from "./model-catalog"
+
+/**
+ * Interface for the usage of a single model call
+ */
+export interface UsageRecord {
+  timestamp: string
+  sessionId: string
+  provider: string
+  model: string
+  agent?: string
+  workflow?: string
+  workflowRunId?: string
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  estimated: boolean
+  cost: number
+}
+
+/**
+ * Interface for aggregated usage
+ */
+export interface UsageSummary {
+  key: string
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  cost: number
+  estimatedCalls: number
+}
+
+// Identifies the records of this process
+const sessionId = `${new Date().toISOString().slice(0, 10)}-${crypto.randomBytes(4).toString("hex")}`
+
+// Records of this session, kept in memory for quick reporting
+const sessionRecords: UsageRecord[] = []
+
+// The workflow run that model calls are currently attributed to
+let usageContext: { workflow?: string; workflowRunId?: string } = {}
+
+// Today's usage by other sessions, loaded from the ledger once per day
+let otherSessionsToday: { date: string; tokens: number; cost: number } | null = null
+
+/**
+ * Get the ID of the current session
+ * @returns The session ID
+ */
+export function getSessionId(): string {
+  return sessionId
+}
+
+/**
+ * Attribute the following model calls to a workflow run
+ * @param context The workflow and run ID, or an empty object to clear the attribution
+ */
+export function setUsageContext(context: { workflow?: string; workflowRunId?: string }): void {
+  usageContext = { ...context }
+}
+
+/**
+ * Calculate the cost of a model call from the configured price table, or the model catalog
+ * for models without a configured price
+ * @param provider The name of the provider
+ * @param model The name of the model
+ * @param promptTokens The number of prompt tokens
+ * @param completionTokens The number of completion tokens
+ * @returns The cost, or 0 if the model has no known price
+ */
+export function calculateCost(provider: string, model: string, promptTokens: number, completionTokens: number): number {
+  const prices = getConfig().usage.prices
+  const price = prices[`${provider}:${model}`] || prices[`${provider}:*`] || findModelInfo(model, provider)?.pricing
+
+  if (!price) {
+    return 0
+  }
+
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+}
+
+/**
+ * Record the usage of a model call in the session and in the persistent ledger
+ * @param usage The provider, model, agent and token counts of the call
+ * @returns The usage record
+ */
+export async function recordUsage(usage: {
+  provider: string
+  model: string
+  agent?: string
+  promptTokens: number
+  completionTokens: number
+  estimated: boolean
+}): Promise<UsageRecord> {
+  const record: UsageRecord = {
+    timestamp: new Date().toISOString(),
+    sessionId,
+    ...usageContext,
+    ...usage,
+    totalTokens: usage.promptTokens + usage.completionTokens,
+    cost: calculateCost(usage.provider, usage.model, usage.promptTokens, usage.completionTokens),
+  }
+
+  sessionRecords.push(record)
+
+  if (getConfig().usage.trackUsage) {
+    try {
+      await fs.mkdir(getConfigDir(), { recursive: true })
+      await fs.appendFile(getLedgerPath(), `${JSON.stringify(record)}\n`)
+    } catch (error) {
+      console.warn("Failed to write usage ledger:", error)
+    }
+  }
+
+  return record
+}
+
+/**
+ * Get the usage records of the current session
+ * @returns The usage records
+ */
+export function getSessionUsage(): UsageRecord[] {
+  return [...sessionRecords]
+}
+
+/**
+ * Get the total usage of the current session, the current workflow run and today
+ * @returns The token and cost totals per scope; the workflow totals are null outside a workflow run
+ */
+export async function getUsageTotals(): Promise<{
+  session: { tokens: number; cost: number }
+  workflow: { tokens: number; cost: number } | null
+  daily: { tokens: number; cost: number }
+}> {
+  const today = new Date().toISOString().slice(0, 10)
+
+  if (!otherSessionsToday || otherSessionsToday.date !== today) {
+    const records = (await loadUsageRecords()).filter(
+      (record) => record.timestamp.startsWith(today) && record.sessionId !== sessionId,
+    )
+    otherSessionsToday = { date: today, ...sumUsage(records) }
+  }
+
+  const todaysSessionUsage = sumUsage(sessionRecords.filter((record) => record.timestamp.startsWith(today)))
+
+  return {
+    session: sumUsage(sessionRecords),
+    workflow: usageContext.workflowRunId
+      ? sumUsage(sessionRecords.filter((record) => record.workflowRunId === usageContext.workflowRunId))
+      : null,
+    daily: {
+      tokens: otherSessionsToday.tokens + todaysSessionUsage.tokens,
+      cost: otherSessionsToday.cost + todaysSessionUsage.cost,
+    },
+  }
+}
+
+/**
+ * Sum the tokens and cost of usage records
+ * @param records The usage records
+ * @returns The totals
+ */
+function sumUsage(records: UsageRecord[]): { tokens: number; cost: number } {
+  return records.reduce(
+    (totals, record) => ({ tokens: totals.tokens + record.totalTokens, cost: totals.cost + record.cost }),
+    { tokens: 0, cost: 0 },
+  )
+}
+
+/**
+ * Load all usage records from the persistent ledger
+ * @returns The usage records, oldest first
+ */
+export async function loadUsageRecords(): Promise<UsageRecord[]> {
+  try {
+    const content = await fs.readFile(getLedgerPath(), "utf-8")
+    const records: UsageRecord[] = []
+
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue
+
+      try {
+        records.push(JSON.parse(line))
+      } catch (error) {
+        // Skip lines damaged by an interrupted write
+      }
+    }
+
+    return records
+  } catch (error) {
+    // The ledger might not exist yet
+    return []
+  }
+}
+
+/**
+ * Aggregate usage records
+ * @param records The usage records
+ * @param getKey Function returning the group of a record
+ * @returns The summaries, one per group, in order of first appearance
+ */
+export function summarizeUsage(records: UsageRecord[], getKey: (record: UsageRecord) => string): UsageSummary[] {
+  const summaries = new Map<string, UsageSummary>()
+
+  for (const record of records) {
+    const key = getKey(record)
+    const summary = summaries.get(key) || {
+      key,
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      cost: 0,
+      estimatedCalls: 0,
+    }
+
+    summary.calls++
+    summary.promptTokens += record.promptTokens
+    summary.completionTokens += record.completionTokens
+    summary.totalTokens += record.totalTokens
+    summary.cost += record.cost
+    if (record.estimated) summary.estimatedCalls++
+
+    summaries.set(key, summary)
+  }
+
+  return [...summaries.values()]
+}
+
+/**
+ * Get the path of the persistent usage ledger
+ * @returns The path of the ledger file
+ */
+function getLedgerPath(): string {
+  return path.join(getConfigDir(), "usage.jsonl")
+}
@@ -0,0 +1,194 @@
+import { getConfig } from "../config/config-manager"
+import { chunkFile } from "./chunker"
+import type { CodeChunk, RetrievedChunk } from "./chunker"
+import { splitWords } from "./embeddings"
+
+/**
+ * Interface for an inverted index of the chunks of a codebase
+ */
+interface LexicalIndex {
+  chunks: CodeChunk[]
+  /**
+   * The chunks containing each term, with the number of occurrences
+   */
+  postings: Map<string, Array<{ chunk: number; count: number }>>
+  /**
+   * The terms containing each trigram, to find terms similar to a query term that isn't indexed
+   */
+  trigrams: Map<string, Set<string>>
+  lengths: number[]
+  averageLength: number
+}
+
+// BM25 parameters: saturation of repeated terms and normalization of chunk length
+const K1 = 1.2
+const B = 0.75
+
+// Indexed terms at least this similar to an unknown query term stand in for it
+const MIN_TRIGRAM_SIMILARITY = 0.5
+const MAX_SIMILAR_TERMS = 3
+
+// Identifiers, which are indexed whole and by their words
+const IDENTIFIER = /[A-Za-z_$][A-Za-z0-9_$]*/g
+
+// Indexes built in this session, by the files of the analyzed codebase
+const indexes = new WeakMap<Record<string, string>, LexicalIndex>()
+
+/**
+ * Search the code of a codebase with BM25, matching identifiers by their words,
+ * so that "user id" finds getUserId and user_id. Query terms that occur nowhere
+ * are replaced by similarly spelled terms.
+ * @param codebase The files of the codebase
+ * @param query The search query
+ * @param options The number of chunks to return and files to leave out
+ * @returns The matching chunks, best first
+ */
+export function searchCodebase(
+  codebase: { files: Record<string, string> },
+  query: string,
+  options: { topK?: number; exclude?: string[] } = {},
+): RetrievedChunk[] {
+  const index = getIndex(codebase.files)
+  const exclude = options.exclude || []
+  const scores = new Map<number, number>()
+
+  for (const queryTerm of new Set(tokenize(query))) {
+    for (const { term, weight } of expandTerm(queryTerm, index)) {
+      const postings = index.postings.get(term) || []
+      const idf = Math.log(1 + (index.chunks.length - postings.length + 0.5) / (postings.length + 0.5))
+
+      for (const { chunk, count } of postings) {
+        const lengthNorm = 1 - B + (B * index.lengths[chunk]) / index.averageLength
+        const score = (weight * idf * count * (K1 + 1)) / (count + K1 * lengthNorm)
+        scores.set(chunk, (scores.get(chunk) || 0) + score)
+      }
+    }
+  }
+
+  return [...scores.entries()]
+    .filter(([chunk]) => !exclude.includes(index.chunks[chunk].path))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, options.topK ?? getConfig().retrieval.topK)
+    .map(([chunk, score]) => ({ ...index.chunks[chunk], score }))
+}
+
+/**
+ * Split a text into search terms: the words of identifiers, and identifiers made of several words as a whole
+ * @param text The text
+ * @returns The terms, in order of occurrence
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = []
+
+  for (const [identifier] of text.matchAll(IDENTIFIER)) {
+    const words = splitWords(identifier)
+    terms.push(...words)
+
+    if (words.length > 1) {
+      terms.push(words.join(""))
+    }
+  }
+
+  return terms
+}
+
+/**
+ * Get the index of a codebase, building it on first use
+ * @param files The files of the codebase
+ * @returns The index
+ */
+function getIndex(files: Record<string, string>): LexicalIndex {
+  let index = indexes.get(files)
+
+  if (!index) {
+    index = buildIndex(files)
+    indexes.set(files, index)
+  }
+
+  return index
+}
+
+/**
+ * Build the inverted index of the chunks of a codebase
+ * @param files The files of the codebase
+ * @returns The index
+ */
+function buildIndex(files: Record<string, string>): LexicalIndex {
+  const { chunkLines } = getConfig().retrieval
+  const chunks = Object.entries(files).flatMap(([filePath, content]) => chunkFile(filePath, content, chunkLines))
+  const postings = new Map<string, Array<{ chunk: number; count: number }>>()
+  const trigrams = new Map<string, Set<string>>()
+  const lengths: number[] = []
+
+  chunks.forEach((chunk, chunkIndex) => {
+    const terms = tokenize(`${chunk.path}\n${chunk.content}`)
+    const counts = new Map<string, number>()
+    for (const term of terms) {
+      counts.set(term, (counts.get(term) || 0) + 1)
+    }
+
+    for (const [term, count] of counts) {
+      if (!postings.has(term)) {
+        postings.set(term, [])
+        for (const trigram of getTrigrams(term)) {
+          if (!trigrams.has(trigram)) trigrams.set(trigram, new Set())
+          trigrams.get(trigram)!.add(term)
+        }
+      }
+      postings.get(term)!.push({ chunk: chunkIndex, count })
+    }
+
+    lengths.push(terms.length)
+  })
+
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / Math.max(lengths.length, 1) || 1
+
+  return { chunks, postings, trigrams, lengths, averageLength }
+}
+
+/**
+ * Find the indexed terms to search for a query term
+ * @param term The query term
+ * @param index The index
+ * @returns The term itself if it is indexed, otherwise the most similar indexed terms, weighted by similarity
+ */
+function expandTerm(term: string, index: LexicalIndex): Array<{ term: string; weight: number }> {
+  if (index.postings.has(term)) {
+    return [{ term, weight: 1 }]
+  }
+
+  const queryTrigrams = getTrigrams(term)
+  const shared = new Map<string, number>()
+
+  for (const trigram of queryTrigrams) {
+    for (const candidate of index.trigrams.get(trigram) || []) {
+      shared.set(candidate, (shared.get(candidate) || 0) + 1)
+    }
+  }
+
+  return [...shared.entries()]
+    .map(([candidate, count]) => ({
+      term: candidate,
+      // Jaccard similarity of the trigram sets
+      weight: count / (queryTrigrams.size + getTrigrams(candidate).size - count),
+    }))
+    .filter(({ weight }) => weight >= MIN_TRIGRAM_SIMILARITY)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_SIMILAR_TERMS)
+}
+
+/**
+ * Get the trigrams of a term, padded so that its beginning and end count
+ * @param term The term
+ * @returns The set of trigrams
+ */
+function getTrigrams(term: string): Set<string> {
+  const padded = ` ${term} `
+  const trigrams = new Set<string>()
+
+  for (let index = 0; index < padded.length - 2; index++) {
+    trigrams.add(padded.slice(index, index + 3))
+  }
+
+  return trigrams
+}
@@ -0,0 +1,81 @@
+/**
+ * Interface for a piece of a file that is embedded and retrieved on its own
+ */
+export interface CodeChunk {
+  path: string
+  /**
+   * The first and last line of the chunk, starting at 1
+   */
+  startLine: number
+  endLine: number
+  content: string
+}
+
+/**
+ * Interface for a chunk found for a query
+ */
+export interface RetrievedChunk extends CodeChunk {
+  /**
+   * How relevant the chunk is to the query, higher is better: the cosine similarity
+   * for embeddings, the BM25 score for lexical search
+   */
+  score: number
+}
+
+// Top-level declarations in common languages, with their doc comments and decorators; chunks preferably start at one
+const TOP_LEVEL_DECLARATION =
+  /^(?:export|function|async|class|interface|type|enum|struct|impl|trait|fn|func|def|public|private|protected|static|abstract|const|let|var|@|\/\*\*)/
+
+// Lines repeated at the start of a chunk that had to be cut in the middle of a declaration
+const OVERLAP_LINES = 5
+
+/**
+ * Split a file into chunks of at most maxLines lines. Chunks end before a top-level
+ * declaration once they are half full, so that most declarations are kept together;
+ * declarations longer than a chunk are cut, with a few lines of overlap.
+ * @param path The path of the file
+ * @param content The content of the file
+ * @param maxLines The maximum number of lines in a chunk
+ * @returns The chunks, in order; blank chunks are left out
+ */
+export function chunkFile(path: string, content: string, maxLines: number): CodeChunk[] {
+  const lines = content.split("\n")
+  const chunks: CodeChunk[] = []
+  let start = 0
+
+  while (start < lines.length) {
+    let end = Math.min(start + maxLines, lines.length)
+    let cut = end < lines.length
+
+    for (let index = start + Math.ceil(maxLines / 2); index < end; index++) {
+      if (TOP_LEVEL_DECLARATION.test(lines[index])) {
+        end = index
+        cut = false
+        break
+      }
+    }
+
+    const chunkContent = lines.slice(start, end).join("\n")
+    if (chunkContent.trim()) {
+      chunks.push({ path, startLine: start + 1, endLine: end, content: chunkContent })
+    }
+
+    start = cut ? Math.max(end - OVERLAP_LINES, start + 1) : end
+  }
+
+  return chunks
+}
+
+/**
+ * Get the lines of a chunk from the content of its file
+ * @param content The content of the file
+ * @param startLine The first line of the chunk
+ * @param endLine The last line of the chunk
+ * @returns The content of the chunk
+ */
+export function sliceLines(content: string, startLine: number, endLine: number): string {
+  return content
+    .split("\n")
+    .slice(startLine - 1, endLine)
+    .join("\n")
+}
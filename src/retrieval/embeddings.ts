@@ -0,0 +1,139 @@
+import crypto from "crypto"
+import { getConfig } from "../config/config-manager"
+import { checkBudget } from "../models/budget"
+import { getAllModelProviders } from "../models/model-manager"
+import { estimateTokens } from "../models/tokenizer"
+import { recordUsage } from "../models/usage-tracker"
+
+/**
+ * Interface for a source of embedding vectors
+ */
+export interface Embedder {
+  /**
+   * Identifies the provider and model, so that vectors of different embedders are never compared
+   */
+  id: string
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>
+}
+
+// Dimensions of the hashing embedder
+const HASH_DIMENSIONS = 512
+
+// Identifiers and words, split into their parts below
+const WORD = /[A-Za-z_$][A-Za-z0-9_$]*|[0-9]+/g
+
+/**
+ * Get the embedder configured for codebase retrieval. Embedding requests count against
+ * the budgets and are recorded in the usage ledger like other model calls.
+ * @returns The embedder of the configured provider, or null if retrieval should use lexical search
+ */
+export function getEmbedder(): Embedder | null {
+  const { embeddingProvider, embeddingModel } = getConfig().retrieval
+  if (embeddingProvider === "hash") {
+    return hashEmbedder
+  }
+  if (embeddingProvider === "bm25") {
+    return null
+  }
+
+  const providers = getAllModelProviders()
+  const candidates = embeddingProvider === "auto" ? getConfig().models.fallback : [embeddingProvider]
+  const name = candidates.find((candidate) => providers[candidate]?.embed)
+
+  if (!name) {
+    if (embeddingProvider !== "auto") {
+      console.warn(`Provider ${embeddingProvider} does not support embeddings; using lexical search.`)
+    }
+    return null
+  }
+
+  const provider = providers[name]
+  return {
+    id: `${name}:${embeddingModel || "default"}`,
+    embed: async (texts, signal) => {
+      await checkBudget()
+      const vectors = await provider.embed!(texts, { model: embeddingModel || undefined, signal })
+
+      // Embedding APIs don't all report usage, so the tokens are estimated
+      await recordUsage({
+        provider: name,
+        model: embeddingModel || provider.defaultEmbeddingModel || "default",
+        promptTokens: texts.reduce((total, text) => total + estimateTokens(text), 0),
+        completionTokens: 0,
+        estimated: true,
+      })
+      return vectors
+    },
+  }
+}
+
+/**
+ * Embedder that needs no model: identifiers are split into their words, and the words
+ * and pairs of adjacent words are hashed into a fixed number of dimensions. It finds
+ * code sharing vocabulary with the query, but knows nothing about synonyms.
+ */
+export const hashEmbedder: Embedder = {
+  id: `hash:${HASH_DIMENSIONS}`,
+  embed: async (texts) => texts.map(hashEmbed),
+}
+
+/**
+ * Compute the hashing embedding of a text
+ * @param text The text
+ * @returns The normalized vector
+ */
+function hashEmbed(text: string): number[] {
+  const vector = new Array<number>(HASH_DIMENSIONS).fill(0)
+  const words = splitWords(text)
+  const counts = new Map<string, number>()
+
+  words.forEach((word, index) => {
+    counts.set(word, (counts.get(word) || 0) + 1)
+    if (index > 0) {
+      const pair = `${words[index - 1]} ${word}`
+      counts.set(pair, (counts.get(pair) || 0) + 1)
+    }
+  })
+
+  for (const [feature, count] of counts) {
+    const hash = crypto.createHash("md5").update(feature).digest()
+    const dimension = hash.readUInt32LE(0) % HASH_DIMENSIONS
+    // The sign spreads collisions out instead of letting them add up
+    const sign = hash[4] & 1 ? 1 : -1
+    // Repeated words count, but less and less
+    vector[dimension] += sign * (1 + Math.log(count))
+  }
+
+  return normalize(vector)
+}
+
+/**
+ * Split a text into lower-case words, splitting identifiers at camel case and underscores
+ * @param text The text
+ * @returns The words
+ */
+export function splitWords(text: string): string[] {
+  const words: string[] = []
+
+  for (const [identifier] of text.matchAll(WORD)) {
+    const parts = identifier
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .split(/[\s_$]+/)
+      .filter((part) => part.length > 1)
+
+    words.push(...parts.map((part) => part.toLowerCase()))
+  }
+
+  return words
+}
+
+/**
+ * Scale a vector to unit length, so that the dot product of two vectors is their cosine similarity
+ * @param vector The vector
+ * @returns The normalized vector
+ */
+export function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return length > 0 ? vector.map((value) => value / length) : vector
+}
@@ -0,0 +1,93 @@
+import fs from "fs/promises"
+import http from "http"
+import os from "os"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { getConfig, initializeConfig, updateConfig } from "../config/config-manager"
+import { setupModelProviders } from "../models/model-manager"
+import { getSessionUsage } from "../models/usage-tracker"
+import { retrieveChunks } from "./vector-index"
+
+/**
+ * Create a codebase of small files, one chunk each
+ * @param rootDir The root directory of the codebase
+ * @param count The number of files
+ * @returns The codebase
+ */
+function createCodebase(rootDir: string, count: number): { rootDir: string; files: Record<string, string> } {
+  const files: Record<string, string> = {}
+  for (let index = 0; index < count; index++) {
+    files[`src/module${index}.ts`] = `export function handler${index}() {\n  return ${index}\n}\n`
+  }
+  return { rootDir, files }
+}
+
+describe("retrieveChunks with an embedding provider", () => {
+  let dataDir: string
+  let server: http.Server
+  let requests = 0
+
+  beforeAll(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "codeforge-retrieval-"))
+
+    // A local OpenAI-compatible server returning the same vector for every text
+    server = http.createServer((request, response) => {
+      let body = ""
+      request.on("data", (chunk) => (body += chunk))
+      request.on("end", () => {
+        requests++
+        const { input } = JSON.parse(body)
+        response.setHeader("Content-Type", "application/json")
+        response.end(JSON.stringify({ data: input.map((_: string, index: number) => ({ index, embedding: [1, 0] })) }))
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    const { port } = server.address() as { port: number }
+
+    vi.stubEnv("HUGGINGFACE_API_KEY", "")
+    vi.stubEnv("GROQ_API_KEY", "")
+    vi.stubEnv("CODEFORGE_LOCAL_BASE_URL", `http://127.0.0.1:${port}/v1`)
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+
+    await initializeConfig(path.join(dataDir, "config.json"))
+    await updateConfig({ retrieval: { ...getConfig().retrieval, embeddingProvider: "local" } })
+    await setupModelProviders()
+  })
+
+  afterAll(async () => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    server.close()
+    await fs.rm(dataDir, { recursive: true, force: true })
+  })
+
+  it("records the usage of embedding requests", async () => {
+    const before = getSessionUsage().length
+    requests = 0
+
+    await retrieveChunks(createCodebase(path.join(dataDir, "recorded"), 3), "handler")
+
+    const records = getSessionUsage().slice(before)
+    expect(requests).toBe(2)
+    expect(records).toHaveLength(2)
+    expect(records[0]).toMatchObject({ provider: "local", model: "nomic-embed-text", completionTokens: 0 })
+    expect(records[0].promptTokens).toBeGreaterThan(0)
+    expect(records[0].estimated).toBe(true)
+  })
+
+  it("stops indexing once the budget is used up", async () => {
+    const used = getSessionUsage().reduce((total, record) => total + record.totalTokens, 0)
+    await updateConfig({ budgets: { ...getConfig().budgets, session: { maxTokens: used + 1, maxCost: 0 } } })
+    requests = 0
+
+    // Two batches of embeddings: the first one uses up the budget
+    const chunks = await retrieveChunks(createCodebase(path.join(dataDir, "budget"), 40), "handler", { topK: 3 })
+
+    expect(requests).toBe(1)
+    expect(chunks).toHaveLength(3)
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining("using lexical search"),
+      expect.stringContaining("budget"),
+    )
+  })
+})
@@ -0,0 +1,211 @@
+import fs from "fs/promises"
+import path from "path"
+import crypto from "crypto"
+import { getConfig } from "../config/config-manager"
+import { chunkFile, sliceLines } from "./chunker"
+import type { CodeChunk, RetrievedChunk } from "./chunker"
+import { getEmbedder, normalize } from "./embeddings"
+import { searchCodebase } from "./bm25-index"
+import { createIndexDirectory } from "../codebase/index-store"
+import type { Embedder } from "./embeddings"
+
+/**
+ * Interface for the persisted index of a codebase
+ */
+interface StoredIndex {
+  embedder: string
+  chunkLines: number
+  files: Record<
+    string,
+    {
+      hash: string
+      chunks: Array<{ startLine: number; endLine: number; vector: number[] }>
+    }
+  >
+}
+
+// Texts sent to the embedder per request
+const EMBEDDING_BATCH_SIZE = 32
+
+// Indexes loaded in this session, by codebase root
+const loadedIndexes: Record<string, StoredIndex> = {}
+
+/**
+ * Find the chunks of a codebase most relevant to a query. The index is brought up to
+ * date first: only new and changed files are embedded again. Without an embedder,
+ * or if it fails, the codebase is searched with BM25 instead.
+ * @param codebase The root directory and files of the codebase
+ * @param query The text to find relevant code for
+ * @param options The number of chunks to return, files to leave out and a signal to cancel embedding requests
+ * @returns The chunks, most relevant first
+ */
+export async function retrieveChunks(
+  codebase: { rootDir: string; files: Record<string, string> },
+  query: string,
+  options: { topK?: number; exclude?: string[]; signal?: AbortSignal } = {},
+): Promise<RetrievedChunk[]> {
+  const embedder = getEmbedder()
+  if (!embedder) {
+    return searchCodebase(codebase, query, options)
+  }
+
+  try {
+    return await searchIndex(codebase, query, embedder, options)
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw error
+    }
+
+    console.warn(`Embedding with ${embedder.id} failed, using lexical search:`, (error as Error).message)
+    return searchCodebase(codebase, query, options)
+  }
+}
+
+/**
+ * Update the index of a codebase and search it
+ * @param codebase The root directory and files of the codebase
+ * @param query The text to find relevant code for
+ * @param embedder The embedder to use
+ * @param options The number of chunks to return, files to leave out and a signal to cancel embedding requests
+ * @returns The chunks, most relevant first
+ */
+async function searchIndex(
+  codebase: { rootDir: string; files: Record<string, string> },
+  query: string,
+  embedder: Embedder,
+  options: { topK?: number; exclude?: string[]; signal?: AbortSignal },
+): Promise<RetrievedChunk[]> {
+  const index = await updateIndex(codebase, embedder, options.signal)
+  const queryVector = normalize((await embedder.embed([query], options.signal))[0])
+  const exclude = options.exclude || []
+  const results: RetrievedChunk[] = []
+
+  for (const [filePath, entry] of Object.entries(index.files)) {
+    if (exclude.includes(filePath)) continue
+
+    for (const chunk of entry.chunks) {
+      results.push({
+        path: filePath,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        content: sliceLines(codebase.files[filePath], chunk.startLine, chunk.endLine),
+        score: dot(queryVector, chunk.vector),
+      })
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, options.topK ?? getConfig().retrieval.topK)
+}
+
+/**
+ * Bring the index of a codebase up to date with its files
+ * @param codebase The root directory and files of the codebase
+ * @param embedder The embedder to use
+ * @param signal Cancels the embedding requests
+ * @returns The updated index
+ */
+async function updateIndex(
+  codebase: { rootDir: string; files: Record<string, string> },
+  embedder: Embedder,
+  signal?: AbortSignal,
+): Promise<StoredIndex> {
+  const { chunkLines } = getConfig().retrieval
+  let index = loadedIndexes[codebase.rootDir] || (await loadIndex(codebase.rootDir))
+
+  // Vectors of another embedder, or chunks of another size, can't be reused
+  if (!index || index.embedder !== embedder.id || index.chunkLines !== chunkLines) {
+    index = { embedder: embedder.id, chunkLines, files: {} }
+  }
+
+  // New and changed files; the index is only updated once all of them are embedded
+  const updated: StoredIndex["files"] = {}
+  const pending: CodeChunk[] = []
+
+  for (const [filePath, content] of Object.entries(codebase.files)) {
+    const hash = crypto.createHash("sha1").update(content).digest("hex")
+    if (index.files[filePath]?.hash === hash) continue
+
+    updated[filePath] = { hash, chunks: [] }
+    pending.push(...chunkFile(filePath, content, chunkLines))
+  }
+
+  for (let start = 0; start < pending.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = pending.slice(start, start + EMBEDDING_BATCH_SIZE)
+    const vectors = await embedder.embed(
+      batch.map((chunk) => `${chunk.path}\n${chunk.content}`),
+      signal,
+    )
+
+    batch.forEach((chunk, offset) => {
+      updated[chunk.path].chunks.push({
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        vector: normalize(vectors[offset]),
+      })
+    })
+  }
+
+  const removed = Object.keys(index.files).filter((filePath) => !(filePath in codebase.files))
+  for (const filePath of removed) {
+    delete index.files[filePath]
+  }
+  Object.assign(index.files, updated)
+
+  loadedIndexes[codebase.rootDir] = index
+  if (removed.length > 0 || Object.keys(updated).length > 0) {
+    await saveIndex(codebase.rootDir, index)
+  }
+
+  return index
+}
+
+/**
+ * Load the persisted index of a codebase
+ * @param rootDir The root directory of the codebase
+ * @returns The index, or null if there is none
+ */
+async function loadIndex(rootDir: string): Promise<StoredIndex | null> {
+  try {
+    return JSON.parse(await fs.readFile(getIndexPath(rootDir), "utf-8"))
+  } catch (error) {
+    // The codebase has not been indexed yet
+    return null
+  }
+}
+
+/**
+ * Persist the index of a codebase
+ * @param rootDir The root directory of the codebase
+ * @param index The index
+ */
+async function saveIndex(rootDir: string, index: StoredIndex): Promise<void> {
+  try {
+    await createIndexDirectory(rootDir)
+    await fs.writeFile(getIndexPath(rootDir), JSON.stringify(index))
+  } catch (error) {
+    console.warn("Failed to save the codebase index:", error)
+  }
+}
+
+/**
+ * Get the path of the vector index of a codebase
+ * @param rootDir The root directory of the codebase
+ * @returns The path of the index file
+ */
+function getIndexPath(rootDir: string): string {
+  return path.join(rootDir, ".codeforge", "index", "vectors.json")
+}
+
+/**
+ * Compute the dot product of two vectors, which is their cosine similarity when both are normalized
+ * @param a The first vector
+ * @param b The second vector
+ * @returns The dot product
+ */
+function dot(a: number[], b: number[]): number {
+  let sum = 0
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    sum += a[index] * b[index]
+  }
+  return sum
+}
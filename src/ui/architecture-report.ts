@@ -0,0 +1,30 @@
+import chalk from "chalk"
+import type { ArchitectureReport } from "../codebase/architecture"
+
+/**
+ * Print the circular imports and layering violations of a codebase
+ * @param report The result of checking the codebase
+ */
+export function printArchitectureReport(report: ArchitectureReport): void {
+  const { cycles, violations } = report
+
+  if (cycles.length === 0 && violations.length === 0) {
+    console.log(chalk.green("No circular imports or layering violations found."))
+    return
+  }
+
+  if (cycles.length > 0) {
+    console.log(chalk.red(`${cycles.length} circular ${cycles.length === 1 ? "import" : "imports"}:`))
+    for (const cycle of cycles) {
+      console.log(`  ${cycle.join(chalk.gray(" -> "))}`)
+    }
+  }
+
+  if (violations.length > 0) {
+    console.log(chalk.red(`${violations.length} layering ${violations.length === 1 ? "violation" : "violations"}:`))
+    for (const { rule, file, dependency } of violations) {
+      const ruleName = rule.name || `${[rule.from].flat().join(", ")} must not import ${rule.disallow.join(", ")}`
+      console.log(`  ${file} ${chalk.gray("imports")} ${dependency} ${chalk.gray(`(${ruleName})`)}`)
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import chalk from "chalk"
+import { describeFunction } from "../codebase/call-graph"
+import type { CallGraph, CallSite } from "../codebase/call-graph"
+
+/**
+ * Print the calls to or from the functions with a name
+ * @param name The name that was looked up
+ * @param graph The call graph of the codebase
+ * @param functions The keys of the functions with the name
+ * @param direction "callers" for the calls to the functions, "callees" for the calls they make
+ */
+export function printCalls(
+  name: string,
+  graph: CallGraph,
+  functions: string[],
+  direction: "callers" | "callees",
+): void {
+  if (functions.length === 0) {
+    console.log(chalk.yellow(`No function named ${name} found.`))
+    return
+  }
+
+  for (const key of functions) {
+    const calls = (direction === "callers" ? graph.callers : graph.callees).get(key) || []
+
+    if (calls.length === 0) {
+      console.log(
+        chalk.yellow(`${describeFunction(key)} ${direction === "callers" ? "is never called" : "calls nothing"}.`),
+      )
+      continue
+    }
+
+    console.log(
+      chalk.blue(`${direction === "callers" ? "Callers of" : "Functions called by"} ${describeFunction(key)}:`),
+    )
+    for (const call of calls) {
+      console.log(`  ${formatCall(call, direction)}`)
+    }
+  }
+}
+
+/**
+ * Format a call for display
+ * @param call The call
+ * @param direction Whether the call is shown as a caller or a callee
+ * @returns The function on the other side of the call and where the call is
+ */
+function formatCall(call: CallSite, direction: "callers" | "callees"): string {
+  const other = describeFunction(direction === "callers" ? call.caller : call.callee)
+  const inferred = call.inferred ? chalk.gray(" (matched by method name)") : ""
+  return `${other} ${chalk.gray(`at ${call.file}:${call.line}`)}${inferred}`
+}
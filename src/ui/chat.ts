@@ -1,7 +1,29 @@
 import readline from "readline"
 import chalk from "chalk"
-import { analyzeCodebase } from "../codebase/analyzer"
-import { generateResponse } from "../models/model-manager"
+import { analyzeCodebase, updateAnalyzedFiles } from "../codebase/analyzer"
+import { describeChanges, watchCodebase } from "../codebase/watcher"
+import { findDefinitions, getFileSymbols, resolveImport } from "../codebase/symbols"
+import { getDependencyGraph } from "../codebase/dependency-graph"
+import { findFunctions, getCallGraph } from "../codebase/call-graph"
+import { findReferences, findReferencesAt } from "../codebase/references"
+import { applyRename, getRenameDiff, planRename } from "../codebase/rename"
+import { getModelProvider, isProviderAvailable, listModels, streamChat } from "../models/model-manager"
+import { findModelInfo } from "../models/model-catalog"
+import type { IndexedImport } from "../codebase/index-store"
+import type { ChatMessage } from "../models/types"
+import { clearCache, getCacheSize, isCacheEnabled } from "../models/response-cache"
+import { getSessionUsage, loadUsageRecords } from "../models/usage-tracker"
+import { isUsageBreakdown, printUsageReport } from "./usage-report"
+import { printRouteExplanation, printRoutingRules } from "./route-report"
+import { printModelCatalog } from "./model-report"
+import { printSearchResults } from "./search-report"
+import { printDefinitions, printFileSymbols } from "./symbol-report"
+import { printDependencies, printDependents } from "./dependency-report"
+import { printCalls } from "./call-report"
+import { printReferences } from "./reference-report"
+import { printDiff } from "./diff-report"
+import { searchCodebase } from "../retrieval/bm25-index"
+import { estimateMessagesTokens } from "../models/tokenizer"
 import { executeTask } from "../agents/agent-manager"
 import { runWorkflow, getAllWorkflows } from "../workflow/workflow-manager"
 import { setApiKey } from "../config/config-manager"
@@ -16,6 +38,17 @@ const rl = readline.createInterface({
 let codebaseDir = ""
 let codebaseAnalysis: any = null
 
+// Conversation history for natural language queries
+let chatHistory: ChatMessage[] = []
+const MAX_HISTORY_MESSAGES = 20
+const CHAT_SYSTEM_PROMPT = "You are CodeForge, an expert software developer helping the user work on their codebase."
+
+// The command or query currently running, which Ctrl+C cancels
+let currentOperation: AbortController | null = null
+
+// Stops the watcher keeping the codebase analysis up to date
+let stopWatching: (() => void) | null = null
+
 /**
  * Start the chat interface
  * @param directory The codebase directory
@@ -28,21 +61,57 @@ export async function startChat(directory: string): Promise<void> {
   try {
     codebaseAnalysis = await analyzeCodebase(directory)
     console.log(chalk.green(`Analyzed ${Object.keys(codebaseAnalysis.files).length} files in ${directory}`))
+    startWatching()
   } catch (error) {
     console.error(chalk.red("Error analyzing codebase:"), error)
   }
 
+  rl.on("close", () => stopWatching?.())
+
+  // Ctrl+C cancels the running operation, or exits at the prompt
+  rl.on("SIGINT", () => {
+    if (!currentOperation) {
+      console.log(chalk.blue("\nGoodbye!"))
+      rl.close()
+    } else if (!currentOperation.signal.aborted) {
+      console.log(chalk.yellow("\nCancelling..."))
+      currentOperation.abort()
+    }
+  })
+
   console.log(chalk.blue('Welcome to CodeForge! Type "help" to see available commands.'))
 
   // Start the chat loop
   chatLoop()
 }
 
+/**
+ * Watch the analyzed codebase, so that commands see the files as they are edited
+ */
+function startWatching(): void {
+  stopWatching?.()
+  stopWatching = watchCodebase(codebaseAnalysis, (changes) => {
+    const notice = chalk.gray(`Codebase updated: ${describeChanges(changes)}`)
+
+    if (currentOperation) {
+      console.log(notice)
+    } else {
+      // Print above the prompt, keeping what the user has typed so far
+      readline.clearLine(process.stdout, 0)
+      readline.cursorTo(process.stdout, 0)
+      console.log(notice)
+      rl.prompt(true)
+    }
+  })
+}
+
 /**
  * The main chat loop
  */
 function chatLoop(): void {
   rl.question(chalk.yellow("> "), async (input) => {
+    currentOperation = new AbortController()
+
     try {
       // Process the input
       const trimmedInput = input.trim()
@@ -62,6 +131,8 @@ function chatLoop(): void {
       }
     } catch (error) {
       console.error(chalk.red("Error:"), error)
+    } finally {
+      currentOperation = null
     }
 
     // Continue the chat loop
@@ -95,6 +166,7 @@ async function handleLangGraphCommand(args: string[]): Promise<void> {
           rootDir: codebaseDir,
           files: codebaseAnalysis.files,
         },
+        signal: currentOperation?.signal,
       },
     )
 
@@ -148,6 +220,49 @@ async function handleCommand(command: string): Promise<void> {
     case "langgraph":
       await handleLangGraphCommand(args)
       break
+    case "cache":
+      await handleCacheCommand(args)
+      break
+    case "usage":
+      await handleUsageCommand(args)
+      break
+    case "route":
+      handleRouteCommand(args)
+      break
+    case "models":
+      await handleModelsCommand(args)
+      break
+    case "search":
+      handleSearchCommand(args)
+      break
+    case "symbols":
+      handleSymbolsCommand(args)
+      break
+    case "def":
+      handleDefCommand(args)
+      break
+    case "deps":
+      handleDepsCommand(args, "deps")
+      break
+    case "rdeps":
+      handleDepsCommand(args, "rdeps")
+      break
+    case "callers":
+      handleCallsCommand(args, "callers")
+      break
+    case "callees":
+      handleCallsCommand(args, "callees")
+      break
+    case "refs":
+      handleRefsCommand(args)
+      break
+    case "rename":
+      await handleRenameCommand(args)
+      break
+    case "clear":
+      chatHistory = []
+      console.log(chalk.green("Conversation history cleared."))
+      break
     default:
       console.log(chalk.red(`Unknown command: ${cmd}`))
       showHelp()
@@ -163,12 +278,33 @@ function showHelp(): void {
   console.log(`  ${chalk.yellow("/analyze [directory]")} - Analyze a codebase`)
   console.log(`  ${chalk.yellow("/generate <file> <description>")} - Generate code`)
   console.log(`  ${chalk.yellow("/review <file>")} - Review code`)
-  console.log(`  ${chalk.yellow("/fix <file> [error description]")} - Fix code`)
-  console.log(`  ${chalk.yellow("/refactor <file> [refactoring type] [description]")} - Refactor code`)
+  console.log(`  ${chalk.yellow("/fix <file> [--symbol <name>] [error description]")} - Fix code`)
+  console.log(
+    `  ${chalk.yellow("/refactor <file> [--symbol <name>] [refactoring type] [description]")} - Refactor code`,
+  )
   console.log(`  ${chalk.yellow("/test <file> [test type] [test framework]")} - Generate tests`)
   console.log(`  ${chalk.yellow("/workflow [workflow_id] [input]")} - Run a workflow`)
   console.log(`  ${chalk.yellow("/langgraph <description>")} - Generate code using LangGraph workflow`)
   console.log(`  ${chalk.yellow("/setkey <provider> <api_key>")} - Set an API key`)
+  console.log(`  ${chalk.yellow("/cache [clear]")} - Show the response cache status or clear it`)
+  console.log(`  ${chalk.yellow("/usage [model|agent|workflow|daily|session]")} - Show token usage and cost`)
+  console.log(
+    `  ${chalk.yellow("/route [explain [--task <type>] [--agent <name>] [--language <lang>] <text>]")} - Show the routing rules or which one applies`,
+  )
+  console.log(`  ${chalk.yellow("/search <query>")} - Search the code of the codebase`)
+  console.log(`  ${chalk.yellow("/symbols <file>")} - List the symbols of a file and where its imports come from`)
+  console.log(`  ${chalk.yellow("/def <name>")} - Find the definitions of a symbol, e.g. a function or Class.method`)
+  console.log(`  ${chalk.yellow("/deps <file>")} - Show the files and packages a file imports`)
+  console.log(`  ${chalk.yellow("/rdeps <file>")} - Show the files importing a file, directly and indirectly`)
+  console.log(`  ${chalk.yellow("/callers <symbol> [file]")} - Show the functions calling a function or method`)
+  console.log(`  ${chalk.yellow("/callees <symbol> [file]")} - Show the functions a function or method calls`)
+  console.log(
+    `  ${chalk.yellow("/refs <file:line:column | name>")} - Show the definition, imports, reads and writes of a symbol`,
+  )
+  console.log(
+    `  ${chalk.yellow("/models [refresh | use <provider> <model>]")} - List the models or switch the current one`,
+  )
+  console.log(`  ${chalk.yellow("/clear")} - Clear the conversation history`)
   console.log(`  ${chalk.yellow("help")} - Show this help information`)
   console.log(`  ${chalk.yellow("exit")} or ${chalk.yellow("quit")} - Exit the application`)
   console.log(chalk.blue("You can also ask questions about your codebase in natural language."))
@@ -188,6 +324,7 @@ async function handleAnalyzeCommand(args: string[]): Promise<void> {
     codebaseDir = directory
 
     console.log(chalk.green(`Analyzed ${Object.keys(codebaseAnalysis.files).length} files in ${directory}`))
+    startWatching()
   } catch (error) {
     console.error(chalk.red("Error analyzing codebase:"), error)
   }
@@ -224,6 +361,7 @@ async function handleGenerateCommand(args: string[]): Promise<void> {
           rootDir: codebaseDir,
           files: codebaseAnalysis.files,
         },
+        signal: currentOperation?.signal,
       },
     )
 
@@ -268,12 +406,14 @@ async function handleReviewCommand(args: string[]): Promise<void> {
           rootDir: codebaseDir,
           files: codebaseAnalysis.files,
         },
+        onToken: writeChunk,
+        signal: currentOperation?.signal,
       },
     )
 
     if (result.success) {
-      console.log(chalk.green("Code review completed:"))
-      console.log(result.output)
+      // The review was printed as it streamed in
+      console.log(chalk.green("Code review completed."))
     } else {
       console.log(chalk.red("Failed to review code:"))
       console.log(result.error)
@@ -289,12 +429,13 @@ async function handleReviewCommand(args: string[]): Promise<void> {
  */
 async function handleFixCommand(args: string[]): Promise<void> {
   if (args.length < 1) {
-    console.log(chalk.red("Usage: /fix <file> [error description]"))
+    console.log(chalk.red("Usage: /fix <file> [--symbol <name>] [error description]"))
     return
   }
 
   const file = args[0]
-  const errorDescription = args.slice(1).join(" ")
+  const { symbol, rest } = parseSymbolOption(args.slice(1))
+  const errorDescription = rest.join(" ")
 
   console.log(chalk.blue(`Fixing code in ${file}...`))
 
@@ -306,14 +447,14 @@ async function handleFixCommand(args: string[]): Promise<void> {
         description: `Fix code in ${file}`,
         input: {
           file,
+          symbol,
           error: errorDescription,
         },
       },
       {
-        codebase: {
-          rootDir: codebaseDir,
-          files: codebaseAnalysis.files,
-        },
+        // The whole analysis, so that the agent can include the callers of the symbol
+        codebase: { ...codebaseAnalysis, rootDir: codebaseDir },
+        signal: currentOperation?.signal,
       },
     )
 
@@ -335,13 +476,14 @@ async function handleFixCommand(args: string[]): Promise<void> {
  */
 async function handleRefactorCommand(args: string[]): Promise<void> {
   if (args.length < 1) {
-    console.log(chalk.red("Usage: /refactor <file> [refactoring type] [description]"))
+    console.log(chalk.red("Usage: /refactor <file> [--symbol <name>] [refactoring type] [description]"))
     return
   }
 
   const file = args[0]
-  const refactoringType = args.length > 1 ? args[1] : undefined
-  const description = args.length > 2 ? args.slice(2).join(" ") : undefined
+  const { symbol, rest } = parseSymbolOption(args.slice(1))
+  const refactoringType = rest.length > 0 ? rest[0] : undefined
+  const description = rest.length > 1 ? rest.slice(1).join(" ") : undefined
 
   console.log(chalk.blue(`Refactoring code in ${file}...`))
 
@@ -353,15 +495,15 @@ async function handleRefactorCommand(args: string[]): Promise<void> {
         description: `Refactor code in ${file}`,
         input: {
           file,
+          symbol,
           refactoringType,
           description,
         },
       },
       {
-        codebase: {
-          rootDir: codebaseDir,
-          files: codebaseAnalysis.files,
-        },
+        // The whole analysis, so that the agent can include the callers of the symbol
+        codebase: { ...codebaseAnalysis, rootDir: codebaseDir },
+        signal: currentOperation?.signal,
       },
     )
 
@@ -410,6 +552,7 @@ async function handleTestCommand(args: string[]): Promise<void> {
           rootDir: codebaseDir,
           files: codebaseAnalysis.files,
         },
+        signal: currentOperation?.signal,
       },
     )
 
@@ -448,7 +591,11 @@ async function handleWorkflowCommand(args: string[]): Promise<void> {
   console.log(chalk.blue(`Running workflow ${workflowId}...`))
 
   try {
-    const results = await runWorkflow(workflowId, input, { codebaseDir })
+    const results = await runWorkflow(workflowId, input, {
+      codebaseDir,
+      askForApproval: confirm,
+      signal: currentOperation?.signal,
+    })
 
     console.log(chalk.green("Workflow completed:"))
 
@@ -462,6 +609,24 @@ async function handleWorkflowCommand(args: string[]): Promise<void> {
   }
 }
 
+/**
+ * Ask the user a yes/no question
+ * @param message The question to ask
+ * @returns Whether the user answered yes
+ */
+function confirm(message: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const signal = currentOperation?.signal
+
+    // Cancelling the operation withdraws the question and counts as a no
+    signal?.addEventListener("abort", () => resolve(false), { once: true })
+
+    rl.question(chalk.yellow(`${message} (y/N) `), { signal }, (answer) => {
+      resolve(/^y(es)?$/i.test(answer.trim()))
+    })
+  })
+}
+
 /**
  * Handle the setkey command
  * @param args The command arguments
@@ -488,6 +653,350 @@ async function handleSetKeyCommand(args: string[]): Promise<void> {
   }
 }
 
+/**
+ * Handle the cache command
+ * @param args The command arguments
+ */
+async function handleCacheCommand(args: string[]): Promise<void> {
+  try {
+    if (args[0] === "clear") {
+      const removed = await clearCache()
+      console.log(chalk.green(`Cleared ${removed} cached response(s).`))
+      return
+    }
+
+    if (args.length > 0) {
+      console.log(chalk.red("Usage: /cache [clear]"))
+      return
+    }
+
+    const status = isCacheEnabled() ? chalk.green("enabled") : chalk.yellow("disabled")
+    console.log(`Response cache is ${status} (${await getCacheSize()} cached response(s)).`)
+  } catch (error) {
+    console.error(chalk.red("Error accessing the response cache:"), error)
+  }
+}
+
+/**
+ * Handle the usage command
+ * @param args The command arguments
+ */
+async function handleUsageCommand(args: string[]): Promise<void> {
+  const breakdown = args[0] || "model"
+
+  if (!isUsageBreakdown(breakdown)) {
+    console.log(chalk.red("Usage: /usage [model|agent|workflow|daily|session]"))
+    return
+  }
+
+  try {
+    // Daily and per-session breakdowns cover the whole ledger, the others this session
+    if (breakdown === "daily" || breakdown === "session") {
+      printUsageReport(`Usage by ${breakdown === "daily" ? "day" : "session"}:`, await loadUsageRecords(), breakdown)
+    } else {
+      printUsageReport(`Usage in this session by ${breakdown}:`, getSessionUsage(), breakdown)
+    }
+  } catch (error) {
+    console.error(chalk.red("Error reading usage:"), error)
+  }
+}
+
+/**
+ * Handle the route command
+ * @param args The command arguments
+ */
+function handleRouteCommand(args: string[]): void {
+  if (args.length === 0) {
+    printRoutingRules()
+    return
+  }
+
+  if (args[0] !== "explain") {
+    console.log(chalk.red("Usage: /route [explain [--task <type>] [--agent <name>] [--language <lang>] <text>]"))
+    return
+  }
+
+  // Explain a chat query unless the options describe an agent task
+  const request = {
+    taskType: "chat",
+    agent: undefined as string | undefined,
+    language: undefined as string | undefined,
+  }
+  const words = args.slice(1)
+
+  while (words.length >= 2 && ["--task", "--agent", "--language"].includes(words[0])) {
+    const [option, value] = words.splice(0, 2)
+    if (option === "--task") request.taskType = value
+    else if (option === "--agent") request.agent = value
+    else request.language = value
+  }
+
+  // Without text, explain the routing of the last question
+  const lastQuery = [...chatHistory].reverse().find((message) => message.role === "user")
+  const text = words.join(" ") || lastQuery?.content || ""
+  const messages =
+    request.taskType === "chat"
+      ? buildConversation(CHAT_SYSTEM_PROMPT, text)
+      : [{ role: "user" as const, content: text }]
+
+  printRouteExplanation({ ...request, prompt: text, promptTokens: estimateMessagesTokens(messages) })
+}
+
+/**
+ * Handle the models command
+ * @param args The command arguments
+ */
+async function handleModelsCommand(args: string[]): Promise<void> {
+  if (args[0] === "use") {
+    const [, providerName, model] = args
+
+    if (!providerName || !model) {
+      console.log(chalk.red("Usage: /models use <provider> <model>"))
+      return
+    }
+
+    if (!isProviderAvailable(providerName)) {
+      console.log(chalk.red(`Provider ${providerName} is not available.`))
+      return
+    }
+
+    const info = findModelInfo(model, providerName)
+    if (!info) {
+      console.log(chalk.yellow(`${model} is not in the model catalog of ${providerName}; requests may fail.`))
+    } else if (info.deprecated) {
+      console.log(chalk.yellow(`${model} is deprecated and may no longer be served by ${providerName}.`))
+    }
+
+    getModelProvider(providerName).setModel(model)
+    console.log(chalk.green(`Now using ${model} for ${providerName}.`))
+    return
+  }
+
+  if (args.length > 0 && args[0] !== "refresh") {
+    console.log(chalk.red("Usage: /models [refresh | use <provider> <model>]"))
+    return
+  }
+
+  try {
+    printModelCatalog(await listModels({ refresh: args[0] === "refresh" }))
+  } catch (error) {
+    console.error(chalk.red("Error listing models:"), error)
+  }
+}
+
+/**
+ * Handle the search command
+ * @param args The command arguments
+ */
+function handleSearchCommand(args: string[]): void {
+  const query = args.join(" ")
+
+  if (!query) {
+    console.log(chalk.red("Usage: /search <query>"))
+    return
+  }
+
+  if (!codebaseAnalysis) {
+    console.log(chalk.red("No codebase has been analyzed. Use /analyze first."))
+    return
+  }
+
+  printSearchResults(query, searchCodebase(codebaseAnalysis, query, { topK: 10 }))
+}
+
+/**
+ * Handle the symbols command
+ * @param args The command arguments
+ */
+function handleSymbolsCommand(args: string[]): void {
+  if (args.length < 1) {
+    console.log(chalk.red("Usage: /symbols <file>"))
+    return
+  }
+
+  if (!codebaseAnalysis) {
+    console.log(chalk.red("No codebase has been analyzed. Use /analyze first."))
+    return
+  }
+
+  const file = args[0].replace(/^\.\//, "")
+  if (!(file in codebaseAnalysis.files)) {
+    console.log(chalk.red(`File not found in the analyzed codebase: ${file}`))
+    return
+  }
+
+  const imports = (codebaseAnalysis.bindings[file] || []).map((binding: IndexedImport) => ({
+    binding,
+    target: resolveImport(codebaseAnalysis, file, binding),
+  }))
+  printFileSymbols(file, getFileSymbols(codebaseAnalysis, file), imports)
+}
+
+/**
+ * Handle the def command
+ * @param args The command arguments
+ */
+function handleDefCommand(args: string[]): void {
+  if (args.length < 1) {
+    console.log(chalk.red("Usage: /def <name>"))
+    return
+  }
+
+  if (!codebaseAnalysis) {
+    console.log(chalk.red("No codebase has been analyzed. Use /analyze first."))
+    return
+  }
+
+  printDefinitions(args[0], findDefinitions(codebaseAnalysis, args[0]), codebaseAnalysis.files)
+}
+
+/**
+ * Handle the deps and rdeps commands
+ * @param args The command arguments
+ * @param direction "deps" for the files a file imports, "rdeps" for the files importing it
+ */
+function handleDepsCommand(args: string[], direction: "deps" | "rdeps"): void {
+  if (args.length < 1) {
+    console.log(chalk.red(`Usage: /${direction} <file>`))
+    return
+  }
+
+  if (!codebaseAnalysis) {
+    console.log(chalk.red("No codebase has been analyzed. Use /analyze first."))
+    return
+  }
+
+  const file = args[0].replace(/^\.\//, "")
+  if (!(file in codebaseAnalysis.files)) {
+    console.log(chalk.red(`File not found in the analyzed codebase: ${file}`))
+    return
+  }
+
+  const graph = getDependencyGraph(codebaseAnalysis)
+  if (direction === "deps") {
+    printDependencies(file, graph)
+  } else {
+    printDependents(file, graph)
+  }
+}
+
+/**
+ * Handle the callers and callees commands
+ * @param args The command arguments
+ * @param direction "callers" for the functions calling a function, "callees" for the functions it calls
+ */
+function handleCallsCommand(args: string[], direction: "callers" | "callees"): void {
+  if (args.length < 1) {
+    console.log(chalk.red(`Usage: /${direction} <symbol> [file]`))
+    return
+  }
+
+  if (!codebaseAnalysis) {
+    console.log(chalk.red("No codebase has been analyzed. Use /analyze first."))
+    return
+  }
+
+  const graph = getCallGraph(codebaseAnalysis)
+  const file = args[1]?.replace(/^\.\//, "")
+  printCalls(args[0], graph, findFunctions(graph, args[0], file), direction)
+}
+
+/**
+ * Handle the refs command
+ * @param args The command arguments
+ */
+function handleRefsCommand(args: string[]): void {
+  if (args.length < 1) {
+    console.log(chalk.red("Usage: /refs <file:line:column | name>"))
+    return
+  }
+
+  if (!codebaseAnalysis) {
+    console.log(chalk.red("No codebase has been analyzed. Use /analyze first."))
+    return
+  }
+
+  const position = args[0].match(/^(.+):(\d+):(\d+)$/)
+  if (!position) {
+    printReferences(args[0], findReferences(args[0], codebaseAnalysis))
+    return
+  }
+
+  const file = position[1].replace(/^\.\//, "")
+  if (!(file in codebaseAnalysis.files)) {
+    console.log(chalk.red(`File not found in the analyzed codebase: ${file}`))
+    return
+  }
+
+  const result = findReferencesAt(codebaseAnalysis, file, Number(position[2]), Number(position[3]))
+  if (!result) {
+    console.log(chalk.yellow(`No variable, function, class or type at ${args[0]}.`))
+    return
+  }
+  printReferences(result.name, result.references)
+}
+
+/**
+ * Handle the rename command
+ * @param args The command arguments
+ */
+async function handleRenameCommand(args: string[]): Promise<void> {
+  const position = args[0]?.match(/^(.+):(\d+):(\d+)$/)
+  if (!position || args.length < 2) {
+    console.log(chalk.red("Usage: /rename <file:line:column> <new name>"))
+    return
+  }
+
+  if (!codebaseAnalysis) {
+    console.log(chalk.red("No codebase has been analyzed. Use /analyze first."))
+    return
+  }
+
+  const file = position[1].replace(/^\.\//, "")
+  if (!(file in codebaseAnalysis.files)) {
+    console.log(chalk.red(`File not found in the analyzed codebase: ${file}`))
+    return
+  }
+
+  try {
+    const plan = planRename(codebaseAnalysis, file, Number(position[2]), Number(position[3]), args[1])
+
+    console.log(
+      chalk.blue(
+        `Renaming ${plan.oldName} to ${plan.newName}: ${plan.edits.length} ${plan.edits.length === 1 ? "change" : "changes"} in ${plan.files.length} ${plan.files.length === 1 ? "file" : "files"}`,
+      ),
+    )
+    printDiff(getRenameDiff(plan))
+
+    if (!(await confirm("Apply the rename?"))) {
+      console.log(chalk.yellow("Rename cancelled."))
+      return
+    }
+
+    await applyRename(codebaseDir, plan)
+    // Update the analysis right away rather than waiting for the watcher
+    await updateAnalyzedFiles(
+      codebaseAnalysis,
+      plan.files.map(({ file }) => file),
+    )
+    console.log(chalk.green(`Renamed ${plan.oldName} to ${plan.newName}.`))
+  } catch (error) {
+    console.log(chalk.red(`Cannot rename: ${error instanceof Error ? error.message : String(error)}`))
+  }
+}
+
+/**
+ * Split the --symbol option off the arguments of a command
+ * @param args The command arguments after the file
+ * @returns The symbol, if given, and the remaining arguments
+ */
+function parseSymbolOption(args: string[]): { symbol?: string; rest: string[] } {
+  if (args[0] === "--symbol" && args.length >= 2) {
+    return { symbol: args[1], rest: args.slice(2) }
+  }
+  return { rest: args }
+}
+
 /**
  * Handle a natural language query
  * @param query The query to handle
@@ -500,12 +1009,20 @@ async function handleQuery(query: string): Promise<void> {
     if (isCodebaseQuestion(query)) {
       await handleCodebaseQuestion(query)
     } else {
-      // Generate a response using the LLM
-      const response = await generateResponse(query)
-      console.log(response.text)
+      // Generate a response using the LLM, continuing the conversation
+      const response = await streamChat(buildConversation(CHAT_SYSTEM_PROMPT, query), writeChunk, {
+        taskType: "chat",
+        signal: currentOperation?.signal,
+      })
+      process.stdout.write("\n")
+      rememberExchange(query, response.text)
     }
   } catch (error) {
-    console.error(chalk.red("Error processing query:"), error)
+    if (currentOperation?.signal.aborted) {
+      console.log(chalk.yellow("\nQuery cancelled."))
+    } else {
+      console.error(chalk.red("Error processing query:"), error)
+    }
   }
 }
 
@@ -535,19 +1052,51 @@ async function handleCodebaseQuestion(query: string): Promise<void> {
   // This is a simplified implementation
   // A real implementation would use more sophisticated techniques to understand the question
 
-  // Generate a prompt for the model
-  const prompt = `You are an expert software developer. Answer the following question about the codebase:
-  
-${query}
+  // Describe the codebase in the system prompt so follow-up questions keep the context
+  const systemPrompt = `You are an expert software developer. Answer questions about the codebase concisely and accurately.
 
 Here's some information about the codebase:
 - Root directory: ${codebaseDir}
 - Number of files: ${Object.keys(codebaseAnalysis.files).length}
-- Files: ${Object.keys(codebaseAnalysis.files).slice(0, 10).join(", ")}${Object.keys(codebaseAnalysis.files).length > 10 ? "..." : ""}
-
-Please provide a concise and accurate answer based on the information provided.`
+- Files: ${Object.keys(codebaseAnalysis.files).slice(0, 10).join(", ")}${Object.keys(codebaseAnalysis.files).length > 10 ? "..." : ""}`
 
   // Generate a response
-  const response = await generateResponse(prompt)
-  console.log(response.text)
+  const response = await streamChat(buildConversation(systemPrompt, query), writeChunk, {
+    taskType: "chat",
+    signal: currentOperation?.signal,
+  })
+  process.stdout.write("\n")
+  rememberExchange(query, response.text)
+}
+
+/**
+ * Print a chunk of a streamed response as it arrives
+ * @param chunk The chunk of text
+ */
+function writeChunk(chunk: string): void {
+  process.stdout.write(chunk)
+}
+
+/**
+ * Build the messages for the next turn of the conversation
+ * @param systemPrompt The system prompt for this turn
+ * @param query The user's query
+ * @returns The conversation messages
+ */
+function buildConversation(systemPrompt: string, query: string): ChatMessage[] {
+  return [{ role: "system", content: systemPrompt }, ...chatHistory, { role: "user", content: query }]
+}
+
+/**
+ * Record a completed exchange in the conversation history
+ * @param query The user's query
+ * @param answer The model's answer
+ */
+function rememberExchange(query: string, answer: string): void {
+  chatHistory.push({ role: "user", content: query }, { role: "assistant", content: answer })
+
+  // Keep the history bounded so long sessions don't overflow the model's context
+  if (chatHistory.length > MAX_HISTORY_MESSAGES) {
+    chatHistory = chatHistory.slice(-MAX_HISTORY_MESSAGES)
+  }
 }
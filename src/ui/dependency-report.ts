@@ -0,0 +1,66 @@
+import chalk from "chalk"
+import { getTransitiveDependencies, getTransitiveDependents } from "../codebase/dependency-graph"
+import type { DependencyGraph } from "../codebase/dependency-graph"
+
+/**
+ * Print the files and packages a file imports, and how many files it depends on in total
+ * @param filePath The path of the file
+ * @param graph The dependency graph of the codebase
+ */
+export function printDependencies(filePath: string, graph: DependencyGraph): void {
+  const dependencies = graph.dependencies[filePath] || []
+  const external = graph.external[filePath] || []
+
+  if (dependencies.length === 0 && external.length === 0) {
+    console.log(chalk.yellow(`${filePath} imports nothing.`))
+    return
+  }
+
+  if (dependencies.length > 0) {
+    console.log(chalk.blue(`Files imported by ${filePath}:`))
+    for (const dependency of [...dependencies].sort()) {
+      console.log(`  ${dependency}`)
+    }
+  }
+
+  if (external.length > 0) {
+    console.log(chalk.blue("Packages and unresolved imports:"))
+    console.log(`  ${chalk.gray([...external].sort().join(", "))}`)
+  }
+
+  const transitive = getTransitiveDependencies(graph, filePath)
+  if (transitive.length > dependencies.length) {
+    console.log(chalk.gray(`${transitive.length} files in total, including indirect dependencies.`))
+  }
+}
+
+/**
+ * Print the files importing a file, directly and indirectly: those a change to it may affect
+ * @param filePath The path of the file
+ * @param graph The dependency graph of the codebase
+ */
+export function printDependents(filePath: string, graph: DependencyGraph): void {
+  const dependents = getTransitiveDependents(graph, filePath)
+
+  if (dependents.length === 0) {
+    console.log(chalk.yellow(`No file imports ${filePath}.`))
+    return
+  }
+
+  const direct = dependents.filter(({ depth }) => depth === 1)
+  const indirect = dependents.filter(({ depth }) => depth > 1)
+
+  console.log(chalk.blue(`Files importing ${filePath}:`))
+  for (const { file } of direct.sort((a, b) => a.file.localeCompare(b.file))) {
+    console.log(`  ${file}`)
+  }
+
+  if (indirect.length > 0) {
+    console.log(chalk.blue("Importing it indirectly:"))
+    for (const { file, depth } of indirect) {
+      console.log(`  ${file} ${chalk.gray(`(${depth} imports away)`)}`)
+    }
+  }
+
+  console.log(chalk.gray(`A change to ${filePath} may affect ${dependents.length} files.`))
+}
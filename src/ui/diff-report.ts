@@ -0,0 +1,21 @@
+import chalk from "chalk"
+
+/**
+ * Print a unified diff, with removed lines in red and added lines in green
+ * @param diff The diff
+ */
+export function printDiff(diff: string): void {
+  for (const line of diff.replace(/\n$/, "").split("\n")) {
+    if (line.startsWith("---") || line.startsWith("+++")) {
+      console.log(chalk.bold(line))
+    } else if (line.startsWith("@@")) {
+      console.log(chalk.cyan(line))
+    } else if (line.startsWith("-")) {
+      console.log(chalk.red(line))
+    } else if (line.startsWith("+")) {
+      console.log(chalk.green(line))
+    } else {
+      console.log(line)
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import chalk from "chalk"
+import { getConfig } from "../config/config-manager"
+import { getAllModelProviders } from "../models/model-manager"
+import type { ModelInfo } from "../models/types"
+
+/**
+ * Print the models of each provider, marking the current one
+ * @param models The models in the catalog
+ */
+export function printModelCatalog(models: ModelInfo[]): void {
+  const providers = getAllModelProviders()
+
+  for (const [name, provider] of Object.entries(providers)) {
+    const current = provider.getCurrentModel()
+    const providerModels = models.filter((model) => model.provider === name)
+
+    console.log(chalk.blue(`${name}:`))
+
+    // The current model may have been set to one the catalog doesn't list
+    if (!providerModels.some((model) => model.id === current)) {
+      console.log(`  ${chalk.green("*")} ${chalk.green(current)} ${chalk.gray("(not in the catalog)")}`)
+    }
+
+    for (const model of providerModels) {
+      const marker = model.id === current ? chalk.green("*") : " "
+      const id = model.id === current ? chalk.green(model.id) : model.id
+      console.log(`  ${marker} ${id} ${chalk.gray(formatDetails(model))}`)
+    }
+  }
+}
+
+/**
+ * Format the metadata of a model for display
+ * @param model The model
+ * @returns The context window, tool support and pricing, as far as they are known
+ */
+function formatDetails(model: ModelInfo): string {
+  const details: string[] = []
+
+  if (model.contextLength) details.push(`${Math.round(model.contextLength / 1024)}k context`)
+  if (model.supportsTools !== undefined) details.push(model.supportsTools ? "tools" : "emulated tools")
+  if (model.pricing) {
+    const currency = getConfig().usage.currency
+    details.push(`${model.pricing.input}/${model.pricing.output} ${currency} per 1M tokens in/out`)
+  }
+  if (model.deprecated) details.push("deprecated")
+
+  return details.length > 0 ? `(${details.join(", ")})` : ""
+}
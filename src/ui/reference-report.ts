@@ -0,0 +1,39 @@
+import chalk from "chalk"
+import type { SymbolReference } from "../codebase/references"
+
+// Colors of the kinds of references
+const KIND_COLORS: Record<SymbolReference["kind"], (text: string) => string> = {
+  definition: chalk.green,
+  import: chalk.cyan,
+  read: chalk.gray,
+  write: chalk.yellow,
+  type: chalk.magenta,
+}
+
+/**
+ * Print the references to a symbol, grouped by file
+ * @param name The name of the symbol
+ * @param references The references
+ */
+export function printReferences(name: string, references: SymbolReference[]): void {
+  if (references.length === 0) {
+    console.log(chalk.yellow(`No references to ${name} found.`))
+    return
+  }
+
+  const files = new Set(references.map((reference) => reference.file))
+  console.log(
+    chalk.blue(
+      `${references.length} ${references.length === 1 ? "reference" : "references"} to ${name} in ${files.size} ${files.size === 1 ? "file" : "files"}:`,
+    ),
+  )
+
+  for (const file of files) {
+    console.log(chalk.bold(`  ${file}`))
+    for (const reference of references.filter((candidate) => candidate.file === file)) {
+      const kind = KIND_COLORS[reference.kind](reference.kind.padEnd(10))
+      const position = chalk.gray(`${reference.line}:${reference.column + 1}`.padEnd(8))
+      console.log(`    ${position} ${kind} ${reference.context}`)
+    }
+  }
+}
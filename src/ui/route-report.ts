@@ -0,0 +1,81 @@
+import chalk from "chalk"
+import { getConfig } from "../config/config-manager"
+import { getAllModelProviders, isProviderAvailable } from "../models/model-manager"
+import { explainRoute, getRoutingRules } from "../models/router"
+import type { RoutingRequest, RoutingRule } from "../models/router"
+
+/**
+ * Print the configured routing rules
+ */
+export function printRoutingRules(): void {
+  const rules = getRoutingRules()
+
+  console.log(chalk.blue("Routing rules:"))
+
+  if (rules.length === 0) {
+    console.log("  No routing rules configured.")
+  }
+
+  rules.forEach((rule, index) => {
+    console.log(`  ${index + 1}. ${formatRule(rule)}`)
+  })
+
+  console.log(chalk.gray(`  Otherwise: first available of ${getConfig().models.fallback.join(", ")}`))
+}
+
+/**
+ * Print which routing rule applies to a request and why the others don't
+ * @param request The request to route
+ */
+export function printRouteExplanation(request: RoutingRequest): void {
+  const details = [`${request.promptTokens} prompt tokens`]
+  if (request.agent) details.push(`agent ${request.agent}`)
+  if (request.taskType) details.push(`task type ${request.taskType}`)
+  if (request.language) details.push(`language ${request.language}`)
+
+  console.log(chalk.blue(`Routing a request with ${details.join(", ")}:`))
+
+  const evaluations = explainRoute(request, isProviderAvailable)
+  const selectedIndex = evaluations.findIndex((evaluation) => evaluation.matched)
+
+  evaluations.forEach(({ rule, matched, reasons }, index) => {
+    if (index === selectedIndex) {
+      console.log(`  ${chalk.green("✓")} ${index + 1}. ${formatRule(rule)} ${chalk.green("(selected)")}`)
+    } else if (matched) {
+      console.log(`  ${chalk.gray("-")} ${index + 1}. ${formatRule(rule)} ${chalk.gray("(matches, but comes later)")}`)
+    } else {
+      console.log(`  ${chalk.red("✗")} ${index + 1}. ${formatRule(rule)}`)
+      for (const reason of reasons) {
+        console.log(chalk.gray(`       ${reason}`))
+      }
+    }
+  })
+
+  if (selectedIndex === -1) {
+    const fallback = [...getConfig().models.fallback, ...Object.keys(getAllModelProviders())].find(isProviderAvailable)
+    console.log(
+      fallback
+        ? `No rule applies; the request goes to ${chalk.yellow(fallback)}, the first available provider in fallback order.`
+        : chalk.red("No rule applies and no provider is available."),
+    )
+  }
+}
+
+/**
+ * Format a routing rule for display
+ * @param rule The routing rule
+ * @returns The formatted rule
+ */
+function formatRule(rule: RoutingRule): string {
+  const conditions = Object.entries(rule.match || {}).map(
+    ([key, value]) => `${key}=${Array.isArray(value) ? value.join("|") : value}`,
+  )
+  const defaults = []
+  if (rule.temperature !== undefined) defaults.push(`temperature ${rule.temperature}`)
+  if (rule.maxTokens !== undefined) defaults.push(`max ${rule.maxTokens} tokens`)
+
+  return (
+    `${chalk.yellow(rule.name)} [${conditions.length > 0 ? conditions.join(", ") : "always"}] → ` +
+    `${rule.provider}${rule.model ? `/${rule.model}` : ""}${defaults.length > 0 ? ` (${defaults.join(", ")})` : ""}`
+  )
+}
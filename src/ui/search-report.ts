@@ -0,0 +1,38 @@
+import chalk from "chalk"
+import { tokenize } from "../retrieval/bm25-index"
+import type { RetrievedChunk } from "../retrieval/chunker"
+
+// Lines shown for each result
+const MAX_MATCHING_LINES = 3
+
+/**
+ * Print the results of a code search, with the lines of each chunk that match the query
+ * @param query The search query
+ * @param results The matching chunks, best first
+ */
+export function printSearchResults(query: string, results: RetrievedChunk[]): void {
+  if (results.length === 0) {
+    console.log(chalk.yellow(`No code matches "${query}".`))
+    return
+  }
+
+  const queryTerms = new Set(tokenize(query))
+
+  for (const result of results) {
+    console.log(
+      `${chalk.yellow(result.path)}:${result.startLine}-${result.endLine} ${chalk.gray(`(${result.score.toFixed(2)})`)}`,
+    )
+
+    const lines = result.content.split("\n")
+    const matching = lines
+      .map((line, index) => ({ line, number: result.startLine + index }))
+      .filter(({ line }) => tokenize(line).some((term) => queryTerms.has(term)))
+
+    // Chunks found through similar spellings may have no line with an exact match
+    const shown = matching.length > 0 ? matching : [{ line: lines[0], number: result.startLine }]
+
+    for (const { line, number } of shown.slice(0, MAX_MATCHING_LINES)) {
+      console.log(chalk.gray(`  ${String(number).padStart(5)}| `) + line.trim())
+    }
+  }
+}
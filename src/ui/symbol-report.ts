@@ -0,0 +1,72 @@
+import chalk from "chalk"
+import type { CodeSymbol } from "../codebase/symbols"
+import type { IndexedImport } from "../codebase/index-store"
+
+/**
+ * Print the symbols declared in a file and where its imports come from
+ * @param filePath The path of the file
+ * @param symbols The symbols declared in the file
+ * @param imports The import bindings of the file, with the symbols they resolve to
+ */
+export function printFileSymbols(
+  filePath: string,
+  symbols: CodeSymbol[],
+  imports: Array<{ binding: IndexedImport; target: CodeSymbol | null }>,
+): void {
+  if (symbols.length === 0 && imports.length === 0) {
+    console.log(chalk.yellow(`No symbols found in ${filePath}.`))
+    return
+  }
+
+  if (symbols.length > 0) {
+    console.log(chalk.blue(`Symbols in ${filePath}:`))
+    for (const symbol of symbols) {
+      const indent = symbol.container ? "    " : "  "
+      const name = symbol.exported && !symbol.container ? chalk.green(symbol.name) : symbol.name
+      console.log(
+        `${indent}${chalk.gray(symbol.kind.padEnd(9))} ${name} ${chalk.gray(`${symbol.line}-${symbol.endLine}`)}`,
+      )
+    }
+  }
+
+  if (imports.length > 0) {
+    console.log(chalk.blue("Imports:"))
+    for (const { binding, target } of imports) {
+      const imported = binding.imported === binding.local ? binding.local : `${binding.imported} as ${binding.local}`
+      const location = target ? `${target.file}:${target.line}` : chalk.gray(binding.source)
+      console.log(`  ${imported} ${chalk.gray("->")} ${location}`)
+    }
+  }
+}
+
+/**
+ * Print the definitions of a symbol, with their JSDoc summary and first line
+ * @param name The name that was looked up
+ * @param definitions The matching symbols
+ * @param files The contents of the codebase's files
+ */
+export function printDefinitions(name: string, definitions: CodeSymbol[], files: Record<string, string>): void {
+  if (definitions.length === 0) {
+    console.log(chalk.yellow(`No definition of ${name} found.`))
+    return
+  }
+
+  for (const definition of definitions) {
+    const qualifiedName = definition.container ? `${definition.container}.${definition.name}` : definition.name
+    const exported = definition.exported ? " exported" : ""
+    console.log(
+      `${chalk.yellow(`${definition.file}:${definition.line}:${definition.column + 1}`)} ${chalk.gray(
+        `${definition.kind}${exported}`,
+      )} ${qualifiedName}`,
+    )
+
+    if (definition.jsdoc) {
+      console.log(chalk.gray(`  ${definition.jsdoc.split("\n")[0]}`))
+    }
+
+    const firstLine = files[definition.file]?.split("\n")[definition.line - 1]
+    if (firstLine) {
+      console.log(`  ${firstLine.trim()}`)
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import chalk from "chalk"
+import { getConfig } from "../config/config-manager"
+import { summarizeUsage } from "../models/usage-tracker"
+import type { UsageRecord, UsageSummary } from "../models/usage-tracker"
+
+/**
+ * The ways usage can be broken down in a report
+ */
+export type UsageBreakdown = "model" | "agent" | "workflow" | "daily" | "session"
+
+// How each breakdown groups the usage records
+const BREAKDOWN_KEYS: Record<UsageBreakdown, (record: UsageRecord) => string> = {
+  model: (record) => `${record.provider}/${record.model}`,
+  agent: (record) => record.agent || "(chat)",
+  workflow: (record) => (record.workflowRunId ? record.workflowRunId : "(no workflow)"),
+  daily: (record) => record.timestamp.slice(0, 10),
+  session: (record) => record.sessionId,
+}
+
+/**
+ * Check whether a string names a usage breakdown
+ * @param value The string to check
+ * @returns Whether the string is a usage breakdown
+ */
+export function isUsageBreakdown(value: string): value is UsageBreakdown {
+  return value in BREAKDOWN_KEYS
+}
+
+/**
+ * Print a usage report
+ * @param title The title of the report
+ * @param records The usage records to report on
+ * @param breakdown How to group the records
+ */
+export function printUsageReport(title: string, records: UsageRecord[], breakdown: UsageBreakdown): void {
+  console.log(chalk.blue(title))
+
+  if (records.length === 0) {
+    console.log("  No model usage recorded.")
+    return
+  }
+
+  for (const summary of summarizeUsage(records, BREAKDOWN_KEYS[breakdown])) {
+    console.log(formatSummary(summary))
+  }
+
+  const [total] = summarizeUsage(records, () => "Total")
+  console.log(chalk.bold(formatSummary(total)))
+}
+
+/**
+ * Format a usage summary as a report line
+ * @param summary The usage summary
+ * @returns The report line
+ */
+function formatSummary(summary: UsageSummary): string {
+  const currency = getConfig().usage.currency
+  const estimated = summary.estimatedCalls > 0 ? chalk.gray(` (${summary.estimatedCalls} estimated)`) : ""
+
+  return (
+    `  ${chalk.yellow(summary.key.padEnd(40))} ${String(summary.calls).padStart(5)} calls  ` +
+    `${summary.promptTokens} in / ${summary.completionTokens} out  ` +
+    `${summary.cost.toFixed(4)} ${currency}${estimated}`
+  )
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest"
+import { createUnifiedDiff, diffLines } from "./diff"
+
+describe("diffLines", () => {
+  it("marks every line as the same for equal texts", () => {
+    expect(diffLines("a\nb\n", "a\nb\n")).toEqual([
+      { type: "same", text: "a" },
+      { type: "same", text: "b" },
+    ])
+  })
+
+  it("finds the fewest removed and added lines", () => {
+    expect(diffLines("a\nb\nc\nd", "a\nc\nd\ne")).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "same", text: "c" },
+      { type: "same", text: "d" },
+      { type: "added", text: "e" },
+    ])
+  })
+
+  it("handles changes to the first line and to every line", () => {
+    expect(diffLines("x\ny", "z\ny")).toEqual([
+      { type: "removed", text: "x" },
+      { type: "added", text: "z" },
+      { type: "same", text: "y" },
+    ])
+    expect(diffLines("a\nb", "c")).toEqual([
+      { type: "removed", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "added", text: "c" },
+    ])
+  })
+
+  it("does not count the newline ending the last line as a line", () => {
+    expect(diffLines("a\n", "a\nb\n")).toEqual([
+      { type: "same", text: "a" },
+      { type: "added", text: "b" },
+    ])
+  })
+
+  it("shows large changes as removed and added whole", () => {
+    const original = Array.from({ length: 1500 }, (_, index) => `old ${index}`).join("\n")
+    const updated = Array.from({ length: 1500 }, (_, index) => `new ${index}`).join("\n")
+
+    const lines = diffLines(`same\n${original}`, `same\n${updated}`)
+
+    expect(lines).toHaveLength(3001)
+    expect(lines[0]).toEqual({ type: "same", text: "same" })
+    expect(lines.slice(1, 1501).every((line) => line.type === "removed")).toBe(true)
+    expect(lines.slice(1501).every((line) => line.type === "added")).toBe(true)
+  })
+})
+
+describe("createUnifiedDiff", () => {
+  it("returns an empty string when nothing changed", () => {
+    expect(createUnifiedDiff("a.ts", "same\n", "same\n")).toBe("")
+  })
+
+  it("shows each change with its context and line numbers", () => {
+    const original = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10", "11", "12"].join("\n")
+    const updated = ["1", "two", "3", "4", "5", "6", "7", "8", "9", "10", "11", "12", "13"].join("\n")
+
+    expect(createUnifiedDiff("src/count.ts", original, updated, 1)).toBe(
+      [
+        "--- a/src/count.ts",
+        "+++ b/src/count.ts",
+        "@@ -1,3 +1,3 @@",
+        " 1",
+        "-2",
+        "+two",
+        " 3",
+        "@@ -12,1 +12,2 @@",
+        " 12",
+        "+13",
+        "",
+      ].join("\n"),
+    )
+  })
+
+  it("joins changes whose context overlaps into one hunk", () => {
+    expect(createUnifiedDiff("a.ts", "a\nb\nc\nd\ne", "a\nB\nc\nD\ne", 1)).toBe(
+      ["--- a/a.ts", "+++ b/a.ts", "@@ -1,5 +1,5 @@", " a", "-b", "+B", " c", "-d", "+D", " e", ""].join("\n"),
+    )
+  })
+})
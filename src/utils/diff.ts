@@ -0,0 +1,154 @@
+/**
+ * Interface for a line of a diff
+ */
+export interface DiffLine {
+  type: "same" | "removed" | "added"
+  text: string
+}
+
+// Beyond this many changed lines, the differing parts are shown as removed and added whole,
+// because finding the shortest diff takes time and memory growing with its square
+const MAX_EDIT_DISTANCE = 2000
+
+/**
+ * Find the lines removed from and added to a text, with the fewest changes
+ * @param original The original text
+ * @param updated The updated text
+ * @returns The lines of both texts in order, each marked as unchanged, removed or added
+ */
+export function diffLines(original: string, updated: string): DiffLine[] {
+  // The newline ending the last line doesn't start another one
+  const a = original.replace(/\n$/, "").split("\n")
+  const b = updated.replace(/\n$/, "").split("\n")
+
+  // Only the part between the common first and last lines needs to be compared
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let end = 0
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++
+
+  const same = (lines: string[]): DiffLine[] => lines.map((text) => ({ type: "same", text }))
+
+  return [
+    ...same(a.slice(0, start)),
+    ...diffMiddle(a.slice(start, a.length - end), b.slice(start, b.length - end)),
+    ...same(a.slice(a.length - end)),
+  ]
+}
+
+/**
+ * Create a unified diff of a file, like the output of git diff
+ * @param filePath The path of the file
+ * @param original The original content
+ * @param updated The updated content
+ * @param contextLines The unchanged lines shown around each change
+ * @returns The diff, or an empty string if the contents are the same
+ */
+export function createUnifiedDiff(filePath: string, original: string, updated: string, contextLines = 3): string {
+  const lines = diffLines(original, updated)
+  const changed = lines.map((line, index) => (line.type === "same" ? -1 : index)).filter((index) => index >= 0)
+  if (changed.length === 0) return ""
+
+  // Group the changes whose context overlaps into hunks
+  const hunks: Array<{ start: number; end: number }> = []
+  for (const index of changed) {
+    const last = hunks[hunks.length - 1]
+    if (last && index - contextLines <= last.end) {
+      last.end = Math.min(index + contextLines, lines.length - 1)
+    } else {
+      hunks.push({ start: Math.max(index - contextLines, 0), end: Math.min(index + contextLines, lines.length - 1) })
+    }
+  }
+
+  let diff = `--- a/${filePath}\n+++ b/${filePath}\n`
+  for (const hunk of hunks) {
+    const before = lines.slice(0, hunk.start)
+    const hunkLines = lines.slice(hunk.start, hunk.end + 1)
+    const originalStart = before.filter((line) => line.type !== "added").length + 1
+    const updatedStart = before.filter((line) => line.type !== "removed").length + 1
+    const originalCount = hunkLines.filter((line) => line.type !== "added").length
+    const updatedCount = hunkLines.filter((line) => line.type !== "removed").length
+
+    diff += `@@ -${originalStart},${originalCount} +${updatedStart},${updatedCount} @@\n`
+    for (const line of hunkLines) {
+      diff += `${line.type === "removed" ? "-" : line.type === "added" ? "+" : " "}${line.text}\n`
+    }
+  }
+
+  return diff
+}
+
+/**
+ * Find the shortest diff of two lists of lines with Myers' algorithm
+ * @param a The original lines
+ * @param b The updated lines
+ * @returns The diff lines
+ */
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const maxDistance = Math.min(a.length + b.length, MAX_EDIT_DISTANCE)
+  const offset = maxDistance + 1
+  // The furthest original line reached on each diagonal k = x - y
+  const v = new Int32Array(2 * offset + 1)
+  // The diagonals before each step, from -d to d, to walk the diff back
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= maxDistance; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1))
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+
+      if (x >= a.length && y >= b.length) {
+        return backtrack(trace, a, b)
+      }
+    }
+  }
+
+  return [
+    ...a.map((text): DiffLine => ({ type: "removed", text })),
+    ...b.map((text): DiffLine => ({ type: "added", text })),
+  ]
+}
+
+/**
+ * Walk the steps of Myers' algorithm back from the end of both lists
+ * @param trace The diagonals before each step
+ * @param a The original lines
+ * @param b The updated lines
+ * @returns The diff lines
+ */
+function backtrack(trace: Int32Array[], a: string[], b: string[]): DiffLine[] {
+  const lines: DiffLine[] = []
+  let x = a.length
+  let y = b.length
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d]
+    const k = x - y
+    const previousK = k === -d || (k !== d && v[d + k - 1] < v[d + k + 1]) ? k + 1 : k - 1
+    // The first step starts at the beginning of both lists
+    const previousX = d === 0 ? 0 : v[d + previousK]
+    const previousY = d === 0 ? 0 : previousX - previousK
+
+    while (x > previousX && y > previousY) {
+      lines.push({ type: "same", text: a[--x] })
+      y--
+    }
+
+    if (d > 0) {
+      if (x === previousX) {
+        lines.push({ type: "added", text: b[--y] })
+      } else {
+        lines.push({ type: "removed", text: a[--x] })
+      }
+    }
+  }
+
+  return lines.reverse()
+}
@@ -5,6 +5,8 @@ import { executeTask } from "../agents/agent-manager"
 import type { AgentTask, AgentContext } from "../agents/types"
 import { analyzeCodebase } from "../codebase/analyzer"
 import { gitCommit, gitPush } from "../utils/git-utils"
+import { setUsageContext } from "../models/usage-tracker"
+import { describeBudget, getBudgetStatuses } from "../models/budget"
 
 // Map of workflows
 const workflows: Record<string, Workflow> = {}
@@ -290,6 +292,8 @@ export async function runWorkflow(
     autoCommit?: boolean
     commitMessage?: string
     requireApproval?: boolean
+    askForApproval?: (message: string) => Promise<boolean>
+    signal?: AbortSignal
   },
 ): Promise<any> {
   try {
@@ -303,21 +307,22 @@ export async function runWorkflow(
       commitMessage: options?.commitMessage || `CodeForge: Run workflow ${workflow.name}`,
       requireApproval:
         options?.requireApproval !== undefined ? options.requireApproval : config.workflow.requireApproval,
+      askForApproval: options?.askForApproval || askForApproval,
     }
 
     console.log(`Running workflow: ${workflow.name}`)
 
+    // Attribute the model usage of this run to the workflow
+    setUsageContext({ workflow: workflow.id, workflowRunId: `${workflow.id}-${Date.now().toString(36)}` })
+
     // Analyze the codebase
     const codebase = await analyzeCodebase(workflowOptions.codebaseDir)
 
     // Initialize the context
     const context: AgentContext = {
-      codebase: {
-        rootDir: workflowOptions.codebaseDir,
-        files: codebase.files,
-        ast: codebase.ast,
-      },
+      codebase: { ...codebase, rootDir: workflowOptions.codebaseDir },
       results: {},
+      signal: options?.signal,
     }
 
     // Add input to the context
@@ -328,11 +333,23 @@ export async function runWorkflow(
     // Execute the workflow steps
     let currentStepId = workflow.steps[0].id
     const results = []
+    const budgetWarnings = new Set<string>()
 
     while (currentStepId) {
       const step = workflow.steps.find((s) => s.id === currentStepId)
       if (!step) break
 
+      if (options?.signal?.aborted) {
+        console.log("Workflow execution cancelled.")
+        break
+      }
+
+      // Stop before a step once a budget is used up, and ask to continue once a budget nears its limit
+      if (!(await checkWorkflowBudgets(budgetWarnings, workflowOptions))) {
+        console.log("Workflow execution stopped by budget limit.")
+        break
+      }
+
       console.log(`Executing step: ${step.name}`)
 
       // Check if the step should be executed
@@ -359,9 +376,17 @@ export async function runWorkflow(
       context.results[step.id] = result
       results.push({ step: step.name, result })
 
+      // A cancelled step fails, but there is no point in asking whether to continue
+      if (options?.signal?.aborted) {
+        console.log("Workflow execution cancelled.")
+        break
+      }
+
       // If the task failed and it's not the last step, ask for approval to continue
       if (!result.success && workflowOptions.requireApproval) {
-        const shouldContinue = await askForApproval(`Step ${step.name} failed. Do you want to continue the workflow?`)
+        const shouldContinue = await workflowOptions.askForApproval(
+          `Step ${step.name} failed. Do you want to continue the workflow?`,
+        )
 
         if (!shouldContinue) {
           console.log("Workflow execution stopped by user.")
@@ -377,6 +402,11 @@ export async function runWorkflow(
       }
     }
 
+    if (options?.signal?.aborted) {
+      // Don't commit the changes of a partial run
+      return results
+    }
+
     console.log(`Workflow ${workflow.name} completed.`)
 
     // Commit changes if auto-commit is enabled
@@ -394,7 +424,40 @@ export async function runWorkflow(
   } catch (error) {
     console.error(`Error running workflow ${workflowId}:`, error)
     throw error
+  } finally {
+    setUsageContext({})
+  }
+}
+
+/**
+ * Check the budgets before a workflow step
+ * @param warned The budgets already warned about in this run, updated with new warnings
+ * @param options The workflow options
+ * @returns Whether the workflow may continue
+ */
+async function checkWorkflowBudgets(
+  warned: Set<string>,
+  options: { askForApproval: (message: string) => Promise<boolean> },
+): Promise<boolean> {
+  const config = getConfig()
+
+  for (const status of await getBudgetStatuses()) {
+    if (status.fraction >= 1) {
+      console.log(`${describeBudget(status)}.`)
+      return false
+    }
+
+    if (status.fraction >= config.budgets.warnThreshold && !warned.has(status.scope)) {
+      warned.add(status.scope)
+
+      // Asked even when steps run without approval, since going on spends more of the budget
+      if (!(await options.askForApproval(`${describeBudget(status)}. Do you want to continue the workflow?`))) {
+        return false
+      }
+    }
   }
+
+  return true
 }
 
 /**